@@ -4,12 +4,16 @@
 // - It sets up the navigation bar and the different pages (routes).
 // - Uses React Router to switch between the landing page, editor, and dashboard.
 // - Each <Route> shows a different component based on the URL.
+// - The dashboard and the editor need a signed-in user; everyone else is sent to the sign-in page.
 //
 
-import { Routes, Route, Link } from 'react-router-dom';
+import { useEffect, type ReactNode } from 'react';
+import { Routes, Route, Link, Navigate, useLocation } from 'react-router-dom';
 import MindMap from './components/editor/MindMap';
 import Dashboard from './components/dashboard/Dashboard';
 import Navbar from './components/Navbar';
+import AuthPage from './components/auth/AuthPage';
+import { useAuthStore } from './hooks/useAuthStore';
 
 // This is the landing page (shown at "/")
 function Landing() {
@@ -25,9 +29,26 @@ function Landing() {
   );
 }
 
+// Wrap a page in this to make it for signed-in users only.
+// Others go to the sign-in page, which brings them back here afterwards.
+function RequireAuth({ children }: { children: ReactNode }) {
+  const status = useAuthStore(s => s.status);
+  const location = useLocation();
+  // A saved token is still being checked: don't flash the sign-in page
+  if (status === 'checking') return <div className="p-8 text-gray-500">Loading…</div>;
+  if (status === 'signed-out') return <Navigate to="/login" state={{ from: location }} replace />;
+  return <>{children}</>;
+}
+
 // This is the main app component.
 // It always shows the Navbar, and switches pages below it.
 export default function App() {
+  // Check a token saved by an earlier visit
+  const restore = useAuthStore(s => s.restore);
+  useEffect(() => {
+    restore();
+  }, [restore]);
+
   return (
     <>
       {/* The navigation bar at the top */}
@@ -35,13 +56,16 @@ export default function App() {
       {/*
         Routes define which component to show for each URL path.
         - "/" shows the Landing page.
-        - "/editor" shows the MindMap editor.
-        - "/dashboard" shows the Dashboard.
+        - "/editor" shows the MindMap editor (signed-in users only).
+        - "/dashboard" shows the Dashboard (signed-in users only).
+        - "/login" and "/signup" show the sign-in and sign-up forms.
       */}
       <Routes>
         <Route path="/" element={<Landing />} />
-        <Route path="/editor" element={<MindMap />} />
-        <Route path="/dashboard" element={<Dashboard />} />
+        <Route path="/editor" element={<RequireAuth><MindMap /></RequireAuth>} />
+        <Route path="/dashboard" element={<RequireAuth><Dashboard /></RequireAuth>} />
+        <Route path="/login" element={<AuthPage key="login" mode="login" />} />
+        <Route path="/signup" element={<AuthPage key="signup" mode="signup" />} />
       </Routes>
     </>
   );
@@ -6,10 +6,12 @@
 // - It is responsive: shows a hamburger menu on mobile.
 // - Uses React Router's <Link> for navigation (no page reloads).
 // - Uses Tailwind CSS for styling.
+// - Shows who is signed in with a "Sign out" button, or a "Sign in" link.
 //
 
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAuthStore } from '../hooks/useAuthStore';
 
 // List of navigation links (add more here if you want more pages)
 const navLinks = [
@@ -23,6 +25,8 @@ const Navbar: React.FC = () => {
   const [menuOpen, setMenuOpen] = useState(false);
   // Get the current URL path
   const location = useLocation();
+  // Who is signed in (if anyone)
+  const { user, logout } = useAuthStore();
 
   // Helper to check if a link is active (for highlighting)
   const isActive = (path: string) =>
@@ -55,6 +59,17 @@ const Navbar: React.FC = () => {
               </Link>
             ))}
           </div>
+          {/* Account: the signed-in email and "Sign out", or "Sign in" */}
+          <div className="hidden md:flex items-center gap-3 text-sm">
+            {user ? (
+              <>
+                <span className="text-gray-500 truncate max-w-[12rem]" title={user.email}>{user.email}</span>
+                <button type="button" className="text-gray-700 hover:text-blue-600 font-medium" onClick={logout}>Sign out</button>
+              </>
+            ) : (
+              <Link to="/login" className="text-gray-700 hover:text-blue-600 font-medium">Sign in</Link>
+            )}
+          </div>
           {/* Mobile hamburger menu button (shows on small screens) */}
           <div className="md:hidden flex items-center">
             <button
@@ -100,6 +115,19 @@ const Navbar: React.FC = () => {
               {link.label}
             </Link>
           ))}
+          {user ? (
+            <button
+              type="button"
+              className="block w-full text-left px-3 py-2 rounded font-medium text-gray-700 hover:text-blue-600"
+              onClick={() => { logout(); setMenuOpen(false); }}
+            >
+              Sign out ({user.email})
+            </button>
+          ) : (
+            <Link to="/login" className="block px-3 py-2 rounded font-medium text-gray-700 hover:text-blue-600" onClick={() => setMenuOpen(false)}>
+              Sign in
+            </Link>
+          )}
         </div>
       </div>
     </nav>
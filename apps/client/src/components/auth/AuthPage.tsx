@@ -0,0 +1,100 @@
+//
+// AuthPage.tsx
+//
+// This component is the sign-in page ("/login") and the sign-up page ("/signup").
+// - Both are the same email + password form; only the button, the title, and the API call differ
+// - After signing in you go back to the page you wanted (e.g. an invite link), or to the dashboard
+//
+// Learnings for beginners:
+//   - How to build a controlled form (inputs backed by state)
+//   - How to send the user back where they came from with React Router's location state
+//
+
+import React, { useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { useAuthStore } from '../../hooks/useAuthStore';
+
+interface AuthPageProps {
+  mode: 'login' | 'signup';
+}
+
+export default function AuthPage({ mode }: AuthPageProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { status, login, signup } = useAuthStore();
+  // Local state: the form fields, and the request in flight or its error
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Where to go afterwards (RequireAuth in App.tsx puts the page we came from here)
+  const from = (location.state as { from?: Location } | null)?.from;
+  const next = from ? `${from.pathname}${from.search}` : '/dashboard';
+
+  // Already signed in (e.g. pressed Back after signing in): nothing to do here
+  if (status === 'signed-in') return <Navigate to={next} replace />;
+
+  // Handler: sign in or create the account
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await (mode === 'login' ? login(email, password) : signup(email, password));
+      navigate(next, { replace: true });
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center bg-gray-50 px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white border rounded shadow p-6 flex flex-col gap-4">
+        <h1 className="text-2xl font-bold">{mode === 'login' ? 'Sign in' : 'Create an account'}</h1>
+        <label className="flex flex-col gap-1 text-sm">
+          Email
+          <input
+            type="email"
+            className="border rounded px-3 py-2"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            autoFocus
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          Password
+          <input
+            type="password"
+            className="border rounded px-3 py-2"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'signup' ? 8 : undefined}
+            required
+          />
+          {mode === 'signup' && <span className="text-xs text-gray-500">At least 8 characters.</span>}
+        </label>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded font-semibold hover:bg-blue-700 disabled:opacity-50"
+          disabled={busy}
+        >
+          {busy ? 'Please wait…' : mode === 'login' ? 'Sign in' : 'Sign up'}
+        </button>
+        <div className="text-sm text-gray-600">
+          {mode === 'login' ? (
+            <>No account yet? <Link to="/signup" state={location.state} className="text-blue-600 underline">Sign up</Link></>
+          ) : (
+            <>Already have an account? <Link to="/login" state={location.state} className="text-blue-600 underline">Sign in</Link></>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
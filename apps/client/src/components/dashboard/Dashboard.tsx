@@ -5,50 +5,120 @@
 //   - See all their saved mind maps
 //   - Open, rename, or delete a map
 //   - Create a new map
+//   - Import maps from files and export them (JSON, Markdown, OPML, FreeMind)
+//   - Search every saved map: matching map names and nodes (click a node to open the map right there)
 //
 // It uses React state, effects, and event handlers.
 // It also uses a global store (Zustand) for managing mind maps.
 //
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useMindMapStore } from '../../hooks/useMindMapStore';
-import { PlusIcon, PencilIcon, TrashIcon, ArrowRightCircleIcon } from '@heroicons/react/24/outline';
+import { useMindMapStore, type SavedMap } from '../../hooks/useMindMapStore';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowRightCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { MAP_FILE_FORMATS, parseMap, serializeMap, type MapFileFormat } from '../../utils/mapFormats';
+import { downloadBlob, toFileName } from '../../utils/exportMap';
+import { matchesText, searchNodes } from '../../utils/search';
+
+// How many matching nodes to list per map in the search results
+const MAX_NODE_HITS = 5;
 
 export default function Dashboard() {
   // useNavigate lets you change the page in code (like going to the editor)
   const navigate = useNavigate();
   // Get functions and state from the global mind map store
   const {
-    listSavedMaps, loadMap, deleteMap, renameMap, setSelectedMapId, reset, version, cleanupInvalidMaps
+    listSavedMaps, listMaps, loadMap, deleteMap, renameMap, setSelectedMapId, reset, version, cleanupInvalidMaps, getSavedMap, importMap
   } = useMindMapStore();
+  // Which map's export menu is open (by name)
+  const [exportingName, setExportingName] = useState<string | null>(null);
+  // Hidden file input used by the Import button
+  const fileInputRef = useRef<HTMLInputElement>(null);
   // Local state for renaming a map
   const [renamingName, setRenamingName] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
   // Local state for the list of maps
-  const [maps, setMaps] = useState(listSavedMaps());
+  const [maps, setMaps] = useState<{ name: string, createdAt: number }[]>([]);
+  // Local state for storage errors (e.g. the server is unreachable)
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Local state for the search box, and every map's contents (loaded once a search starts)
+  const [query, setQuery] = useState('');
+  const [fullMaps, setFullMaps] = useState<SavedMap[] | null>(null);
+  const searching = query.trim().length > 0;
 
   // useEffect runs code when something changes (here, when version changes)
   // This keeps the list of maps up to date if you add/delete/rename
   React.useEffect(() => {
-    setMaps(listSavedMaps());
+    let cancelled = false;
+    listSavedMaps()
+      .then(list => { if (!cancelled) { setMaps(list); setStorageError(null); } })
+      .catch(err => { if (!cancelled) setStorageError(err.message || 'Could not load maps'); });
+    return () => { cancelled = true; };
   }, [version]);
 
-  // Handler: open a map in the editor
-  const handleLoad = (name: string) => {
-    loadMap(name);
-    setSelectedMapId(name);
-    navigate('/editor');
+  // Load the full maps for searching (again whenever maps are added, deleted, or renamed)
+  React.useEffect(() => {
+    if (!searching) return;
+    let cancelled = false;
+    listMaps()
+      .then(list => { if (!cancelled) setFullMaps(list); })
+      .catch(err => { if (!cancelled) setStorageError(err.message || 'Could not search maps'); });
+    return () => { cancelled = true; };
+  }, [searching, version]);
+
+  // Search results: maps whose name or nodes match, best node hits first
+  const results = searching && fullMaps
+    ? fullMaps
+      .map(map => ({ map, nameMatch: matchesText(query, map.name), hits: searchNodes(map.nodes, query) }))
+      .filter(r => r.nameMatch || r.hits.length > 0)
+      .sort((a, b) => (b.hits[0]?.score ?? 0) - (a.hits[0]?.score ?? 0))
+    : [];
+
+  // Helper: run a storage action and show any error it throws
+  const withStorageError = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setStorageError(null);
+    } catch (err: any) {
+      setStorageError(err.message || 'Storage error');
+    }
   };
+
+  // Handler: open a map in the editor (optionally jumping to one of its nodes)
+  const handleLoad = (name: string, nodeId?: string) => withStorageError(async () => {
+    await loadMap(name);
+    setSelectedMapId(name);
+    navigate('/editor', nodeId ? { state: { nodeId } } : undefined);
+  });
   // Handler: delete a map (asks for confirmation)
   const handleDelete = (name: string) => {
-    if (window.confirm('Delete this map?')) deleteMap(name);
+    if (window.confirm('Delete this map?')) withStorageError(() => deleteMap(name));
   };
   // Handler: rename a map
-  const handleRename = (oldName: string, newName: string) => {
-    renameMap(oldName, newName);
+  const handleRename = (oldName: string, newName: string) => withStorageError(async () => {
+    await renameMap(oldName, newName);
     setRenamingName(null);
-  };
+  });
+  // Handler: import one or more map files (format is detected from the file)
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => withStorageError(async () => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow importing the same file again
+    for (const file of files) {
+      try {
+        await importMap(parseMap(await file.text(), file.name));
+      } catch (err: any) {
+        throw new Error(`Could not import ${file.name}: ${err.message || err}`);
+      }
+    }
+  });
+  // Handler: download a map in the chosen format
+  const handleExport = (name: string, format: MapFileFormat) => withStorageError(async () => {
+    setExportingName(null);
+    const map = await getSavedMap(name);
+    if (!map) throw new Error('Map not found');
+    const { extension, mime } = MAP_FILE_FORMATS[format];
+    downloadBlob(new Blob([serializeMap(map, format)], { type: mime }), toFileName(name, extension));
+  });
   // Handler: create a new map (resets state and goes to editor)
   const handleNewMap = () => {
     reset();
@@ -60,16 +130,72 @@ export default function Dashboard() {
     <div className="max-w-5xl mx-auto py-10 px-4 relative">
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-4xl font-extrabold tracking-tight text-gray-900">Your Mind Maps</h1>
-        {/* Button to create a new map */}
-        <button
-          className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-full shadow-lg hover:bg-blue-700 transition text-lg font-semibold"
-          onClick={handleNewMap}
-        >
-          <PlusIcon className="w-6 h-6" /> New Map
-        </button>
+        <div className="flex items-center gap-3">
+          {/* Button to import maps from files */}
+          <button
+            className="flex items-center gap-2 px-5 py-2 bg-white text-blue-700 border border-blue-200 rounded-full shadow hover:bg-blue-50 transition text-lg font-semibold"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import JSON, Markdown, OPML, or FreeMind (.mm) files"
+          >
+            <ArrowUpTrayIcon className="w-6 h-6" /> Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.md,.markdown,.txt,.opml,.mm"
+            multiple
+            className="hidden"
+            onChange={handleImport}
+          />
+          {/* Button to create a new map */}
+          <button
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-full shadow-lg hover:bg-blue-700 transition text-lg font-semibold"
+            onClick={handleNewMap}
+          >
+            <PlusIcon className="w-6 h-6" /> New Map
+          </button>
+        </div>
       </div>
-      {/* If there are no maps, show a friendly empty state */}
-      {maps.length === 0 ? (
+      {/* Show storage errors (e.g. the map server is down) */}
+      {storageError && <div className="text-red-600 bg-white rounded shadow p-2 mb-6">{storageError}</div>}
+      {/* Search box: finds maps by name and nodes by label, summary, or notes */}
+      {maps.length > 0 && (
+        <div className="flex items-center gap-2 bg-white border border-gray-200 rounded-full shadow-sm px-4 py-2 mb-6">
+          <MagnifyingGlassIcon className="w-5 h-5 text-gray-400" />
+          <input
+            className="flex-1 outline-none"
+            placeholder="Search all maps and nodes…"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Escape') setQuery(''); }}
+          />
+        </div>
+      )}
+      {/* While searching, show the results; if there are no maps, show a friendly empty state */}
+      {searching ? (
+        // Search results: one card per matching map, with its best matching nodes
+        <div className="flex flex-col gap-4">
+          {!fullMaps && <div className="text-gray-500">Searching…</div>}
+          {fullMaps && results.length === 0 && <div className="text-gray-500">Nothing matches "{query.trim()}".</div>}
+          {results.map(({ map, hits }) => (
+            <div key={map.name} className="bg-white rounded-xl shadow-md p-4 border border-gray-100">
+              <button className="font-bold text-lg text-blue-700 hover:underline" onClick={() => handleLoad(map.name)}>{map.name}</button>
+              <span className="text-xs text-gray-400 ml-2">{hits.length} matching node{hits.length !== 1 ? 's' : ''}</span>
+              <ul className="mt-2 flex flex-col gap-1">
+                {hits.slice(0, MAX_NODE_HITS).map(hit => (
+                  <li key={hit.nodeId}>
+                    <button className="text-left text-sm hover:bg-blue-50 rounded px-2 py-1 w-full" onClick={() => handleLoad(map.name, hit.nodeId)}>
+                      <span className="font-semibold text-gray-800">{hit.label}</span>
+                      {hit.field !== 'label' && <span className="text-gray-500"> · {hit.field}: {hit.snippet}</span>}
+                    </button>
+                  </li>
+                ))}
+                {hits.length > MAX_NODE_HITS && <li className="text-xs text-gray-400 px-2">and {hits.length - MAX_NODE_HITS} more…</li>}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : maps.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-24 text-gray-400">
           <svg width="80" height="80" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mb-4"><circle cx="12" cy="12" r="10" strokeWidth="2" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 12h8m-4-4v8" /></svg>
           <div className="text-xl mb-2">No saved mind maps yet</div>
@@ -117,8 +243,8 @@ export default function Dashboard() {
                   Created: {new Date(map.createdAt).toLocaleString()}
                 </div>
               </div>
-              {/* Buttons to open or delete the map */}
-              <div className="flex gap-2 mt-4">
+              {/* Buttons to open, export, or delete the map */}
+              <div className="flex gap-2 mt-4 relative">
                 <button
                   className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-lg font-semibold shadow hover:bg-blue-700 transition"
                   onClick={() => handleLoad(map.name)}
@@ -126,6 +252,27 @@ export default function Dashboard() {
                 >
                   <ArrowRightCircleIcon className="w-5 h-5" /> Open
                 </button>
+                <button
+                  className="flex items-center justify-center p-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-600"
+                  onClick={() => setExportingName(exportingName === map.name ? null : map.name)}
+                  title="Export"
+                >
+                  <ArrowDownTrayIcon className="w-5 h-5" />
+                </button>
+                {/* Export format menu */}
+                {exportingName === map.name && (
+                  <div className="absolute right-0 bottom-12 z-10 bg-white border rounded shadow p-2 flex flex-col gap-1 min-w-[180px]">
+                    {(Object.keys(MAP_FILE_FORMATS) as MapFileFormat[]).map(format => (
+                      <button
+                        key={format}
+                        className="text-left hover:bg-gray-100 px-2 py-1 rounded"
+                        onClick={() => handleExport(map.name, format)}
+                      >
+                        {MAP_FILE_FORMATS[format].label}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <button
                   className="flex items-center justify-center p-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-600"
                   onClick={() => handleDelete(map.name)}
@@ -0,0 +1,63 @@
+//
+// ClusterPanel.tsx
+//
+// This component lists the clusters (colored groups) that are applied to the map.
+// - Rename a cluster by editing its name
+// - Dissolve a cluster (its nodes stay on the map, just ungrouped)
+// - Nodes are moved between clusters from the node menu (right-click a node)
+//
+// Learnings for beginners:
+//   - How to edit a value in place and save it when the input loses focus
+//   - How to read data straight from the Zustand store in a small component
+//
+
+import React, { useState } from 'react';
+import { useMindMapStore, type MindMapCluster } from '../../hooks/useMindMapStore';
+
+// One row: color swatch, editable name, node count, dissolve button
+function ClusterRow({ cluster, count }: { cluster: MindMapCluster; count: number }) {
+  const { renameCluster, dissolveCluster } = useMindMapStore();
+  // Local state: the name being typed (saved on Enter or when the input loses focus)
+  const [name, setName] = useState(cluster.name);
+
+  const save = () => {
+    if (name.trim() && name !== cluster.name) renameCluster(cluster.id, name.trim());
+    else setName(cluster.name);
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <span className="w-3 h-3 rounded-full shrink-0" style={{ background: cluster.color }} />
+      <input
+        className="flex-1 min-w-0 border border-transparent hover:border-gray-200 focus:border-blue-300 rounded px-1 text-sm"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        onBlur={save}
+        onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        title="Rename cluster"
+      />
+      <span className="text-xs text-gray-500">{count}</span>
+      <button className="text-xs text-red-600 hover:underline" onClick={() => dissolveCluster(cluster.id)} title="Ungroup these nodes">
+        Dissolve
+      </button>
+    </li>
+  );
+}
+
+export default function ClusterPanel() {
+  const { clusters, nodes } = useMindMapStore();
+  if (clusters.length === 0) return null;
+
+  return (
+    <div className="mt-2 bg-white border-2 border-blue-100 rounded-2xl shadow p-4">
+      <div className="font-semibold text-gray-700 mb-2">Clusters on the map</div>
+      <ul className="flex flex-col gap-1">
+        {clusters.map(c => (
+          // Keyed by name too, so an undone rename resets the input
+          <ClusterRow key={`${c.id}:${c.name}`} cluster={c} count={nodes.filter(n => n.clusterId === c.id).length} />
+        ))}
+      </ul>
+      <div className="text-xs text-gray-500 mt-2">Right-click a node to move it to another cluster.</div>
+    </div>
+  );
+}
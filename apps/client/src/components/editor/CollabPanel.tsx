@@ -0,0 +1,162 @@
+//
+// CollabPanel.tsx
+//
+// This component shows the "Live" button and its dropdown in the editor toolbar.
+// - Go live: everyone who opens the same map live edits it together (see hooks/useCollaboration.ts)
+// - Shows the connection status, who else is here, and lets you pick the name the others see
+// - The owner invites people by email; the invite link then opens the map live for them
+//   (anyone else who gets the link is turned away by the server)
+//
+// Learnings for beginners:
+//   - How to show a status with a small colored dot
+//   - How to copy text to the clipboard with navigator.clipboard
+//
+
+import React, { useEffect, useState } from 'react';
+import { UsersIcon } from '@heroicons/react/24/outline';
+import { listShares, shareMap, type CollabStatus, type Peer } from '../../services/collab';
+
+// How each status is shown
+const STATUS_TEXT: Record<CollabStatus | 'off', { label: string; dot: string }> = {
+  off: { label: 'Not live', dot: 'bg-gray-300' },
+  connecting: { label: 'Connecting…', dot: 'bg-amber-400' },
+  live: { label: 'Live', dot: 'bg-green-500' },
+  offline: { label: 'Offline, reconnecting…', dot: 'bg-red-500' },
+  denied: { label: "You don't have access to this live map", dot: 'bg-red-500' },
+};
+
+interface CollabPanelProps {
+  mapName: string | null; // Only saved maps can go live
+  ownerId: string | null; // Whose map it is (goes into the invite link)
+  canInvite: boolean; // Is it our own map (only the owner can share it)
+  status: CollabStatus | 'off';
+  peers: Peer[]; // Everyone else on the map
+  name: string; // Our own name
+  color: string;
+  onNameChange: (name: string) => void;
+  onToggle: (live: boolean) => void;
+}
+
+export default function CollabPanel({ mapName, ownerId, canInvite, status, peers, name, color, onNameChange, onToggle }: CollabPanelProps) {
+  // Local state: is the dropdown open, and did we just copy the link?
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // Local state: who the map is shared with, the email being typed, and the last sharing error
+  const [shares, setShares] = useState<string[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  // Effect: load who the map is shared with when the dropdown opens
+  useEffect(() => {
+    if (!open || !mapName || !canInvite) return;
+    let cancelled = false;
+    setShareError(null);
+    listShares(mapName)
+      .then(emails => { if (!cancelled) setShares(emails); })
+      .catch(err => { if (!cancelled) setShareError(err.message || 'Could not load who the map is shared with'); });
+    return () => { cancelled = true; };
+  }, [open, mapName, canInvite]);
+
+  const live = status !== 'off';
+  const inviteLink = mapName && ownerId
+    ? `${window.location.origin}/editor?live=${encodeURIComponent(mapName)}&owner=${encodeURIComponent(ownerId)}`
+    : '';
+
+  // Handler: copy the invite link, and say so for a moment
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  // Handler: share the map with the email typed in
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mapName || !inviteEmail.trim()) return;
+    setShareError(null);
+    try {
+      setShares(await shareMap(mapName, inviteEmail.trim()));
+      setInviteEmail('');
+    } catch (err: any) {
+      setShareError(err.message || 'Could not share the map');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="p-1 rounded-full hover:bg-gray-100 relative"
+        onClick={() => setOpen(o => !o)}
+        title={live ? `${STATUS_TEXT[status].label} (${peers.length + 1} here)` : 'Edit together (live)'}
+      >
+        <UsersIcon className="w-5 h-5" />
+        <span className={`absolute bottom-0.5 right-0.5 w-2 h-2 rounded-full ${STATUS_TEXT[status].dot}`} />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-2 z-50 bg-white border rounded shadow p-3 flex flex-col gap-2 min-w-[260px] text-sm">
+          {!mapName ? (
+            <div className="text-gray-500">Save the map first: live maps are shared by name.</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${STATUS_TEXT[status].dot}`} />
+                <span className="flex-1">{STATUS_TEXT[status].label}</span>
+                <button
+                  className={`rounded px-3 py-1 font-semibold ${live ? 'bg-gray-200 text-gray-700 hover:bg-gray-300' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+                  onClick={() => onToggle(!live)}
+                >
+                  {live ? 'Leave' : 'Go live'}
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ background: color }} />
+                Your name
+                <input
+                  className="border rounded px-2 py-1 text-sm text-gray-800 flex-1 min-w-0"
+                  defaultValue={name}
+                  maxLength={40}
+                  onBlur={e => { if (e.target.value.trim() && e.target.value.trim() !== name) onNameChange(e.target.value.trim()); }}
+                  onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                />
+              </label>
+              {live && (
+                <ul className="flex flex-col gap-1">
+                  {peers.map(p => (
+                    <li key={p.clientId} className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ background: p.color }} />
+                      {p.name}
+                    </li>
+                  ))}
+                  {peers.length === 0 && <li className="text-gray-500">Nobody else is here yet.</li>}
+                </ul>
+              )}
+              {canInvite && (
+                <form onSubmit={handleInvite} className="flex flex-col gap-1 border-t pt-2">
+                  <span className="text-xs text-gray-500">Invite by email (only they can use the link)</span>
+                  <div className="flex gap-1">
+                    <input
+                      type="email"
+                      className="border rounded px-2 py-1 text-sm flex-1 min-w-0"
+                      placeholder="name@example.com"
+                      value={inviteEmail}
+                      onChange={e => setInviteEmail(e.target.value)}
+                    />
+                    <button type="submit" className="rounded px-2 py-1 bg-gray-200 hover:bg-gray-300 text-xs font-semibold">
+                      Invite
+                    </button>
+                  </div>
+                  {shareError && <div className="text-xs text-red-600">{shareError}</div>}
+                  {shares.length > 0 && <div className="text-xs text-gray-500">Shared with: {shares.join(', ')}</div>}
+                </form>
+              )}
+              <button className="text-left text-blue-600 hover:underline text-xs" onClick={handleCopyLink}>
+                {copied ? 'Copied!' : 'Copy invite link'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+//
+// ColorLegend.tsx
+//
+// This component sits in the corner of the canvas and explains the node colors.
+// - Pick what colors stand for: each node's own color, its cluster, or its first tag
+// - When colors come from clusters or tags, lists which color means what
+//
+// Learnings for beginners:
+//   - How to keep a small setting (not part of undo) in the Zustand store
+//   - How to render a list of color swatches
+//
+
+import React from 'react';
+import { useMindMapStore, type MapColorBy } from '../../hooks/useMindMapStore';
+import type { LegendEntry } from '../../utils/nodeColors';
+
+export default function ColorLegend({ legend }: { legend: LegendEntry[] }) {
+  const { colorBy, setColorBy } = useMindMapStore();
+
+  return (
+    <div className="absolute bottom-4 left-4 z-30 bg-white/90 border border-gray-200 rounded shadow p-2 text-sm max-w-[220px]">
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        Color by
+        <select
+          className="border rounded px-1 py-0.5 text-sm text-gray-800"
+          value={colorBy}
+          onChange={e => setColorBy(e.target.value as MapColorBy)}
+        >
+          <option value="node">node style</option>
+          <option value="cluster">cluster</option>
+          <option value="tag">tag</option>
+        </select>
+      </label>
+      {colorBy !== 'node' && (
+        <ul className="flex flex-col gap-1 mt-2 max-h-40 overflow-y-auto">
+          {legend.map(entry => (
+            <li key={entry.label} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ background: entry.color }} />
+              <span className="truncate" title={entry.label}>{entry.label}</span>
+            </li>
+          ))}
+          <li className="flex items-center gap-2 text-gray-500">
+            <span className="w-3 h-3 rounded-full shrink-0 bg-blue-600" />
+            {colorBy === 'cluster' ? 'no cluster' : 'no tag'}
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
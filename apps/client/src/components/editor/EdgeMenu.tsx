@@ -0,0 +1,92 @@
+//
+// EdgeMenu.tsx
+//
+// This component shows a context menu for an edge in the mind map.
+// - Lets users pick the kind of relation (causes, supports, contradicts...), which changes how the edge is drawn
+// - Lets users write a free-text label shown on the edge
+// - Lets users delete the edge
+// - Appears when you right-click an edge.
+//
+// Learnings for beginners:
+//   - How to build a <select> from a list of constants
+//   - How to save a text input when the user presses Enter or clicks away
+//   - How to position a menu at the mouse with position: fixed
+//
+
+import React, { useState } from 'react';
+import { EDGE_RELATIONS, type EdgeRelation, type MindMapEdge } from '../../hooks/useMindMapStore';
+
+// How each relation is shown to the user (also used as the edge text when there's no label)
+export const RELATION_NAMES: Record<EdgeRelation, string> = {
+  'causes': 'causes',
+  'supports': 'supports',
+  'contradicts': 'contradicts',
+  'example-of': 'example of',
+  'part-of': 'part of',
+};
+
+interface EdgeMenuProps {
+  edge: MindMapEdge; // The edge this menu is for
+  x: number; // Where to show the menu (screen coordinates)
+  y: number;
+  onChange: (changes: Partial<Pick<MindMapEdge, 'relation' | 'label'>>) => void;
+  onDelete: () => void;
+}
+
+export default function EdgeMenu({ edge, x, y, onChange, onDelete }: EdgeMenuProps) {
+  // Local state: the label being typed (saved on Enter or when the input loses focus)
+  const [label, setLabel] = useState(edge.label ?? '');
+
+  const saveLabel = () => {
+    const trimmed = label.trim();
+    if (trimmed !== (edge.label ?? '')) onChange({ label: trimmed || undefined });
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-2"
+      style={{
+        position: 'fixed',
+        left: x,
+        top: y,
+        zIndex: 1000,
+        background: 'white',
+        border: '1px solid #d1d5db',
+        borderRadius: 8,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.12)',
+        minWidth: 200,
+        padding: 8,
+      }}
+      onClick={e => e.stopPropagation()}
+    >
+      <label className="text-xs text-gray-500 px-1">
+        Relation
+        <select
+          className="block w-full border rounded px-2 py-1 mt-1 text-sm text-gray-800"
+          value={edge.relation ?? ''}
+          onChange={e => onChange({ relation: (e.target.value || undefined) as EdgeRelation | undefined })}
+        >
+          <option value="">None (branch)</option>
+          {EDGE_RELATIONS.map(r => <option key={r} value={r}>{RELATION_NAMES[r]}</option>)}
+        </select>
+      </label>
+      <label className="text-xs text-gray-500 px-1">
+        Label
+        <input
+          className="block w-full border rounded px-2 py-1 mt-1 text-sm text-gray-800"
+          placeholder={edge.relation ? RELATION_NAMES[edge.relation] : 'e.g. leads to'}
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          onBlur={saveLabel}
+          onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        />
+      </label>
+      <button
+        className="w-full text-left px-3 py-2 rounded hover:bg-red-50 text-red-600"
+        onClick={onDelete}
+      >
+        Delete Edge
+      </button>
+    </div>
+  );
+}
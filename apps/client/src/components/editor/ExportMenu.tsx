@@ -0,0 +1,66 @@
+//
+// ExportMenu.tsx
+//
+// This component shows the "Export" button and its dropdown in the editor.
+// - PNG (with a resolution picker), SVG, and PDF
+// - The actual file creation lives in utils/exportMap.ts
+//
+// Learnings for beginners:
+//   - How to build a small dropdown menu with local state
+//   - How to pass a callback up to the parent component
+//
+
+import React, { useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import type { ExportFormat } from '../../utils/exportMap';
+
+// Resolutions offered for PNG export (multiples of the on-screen size)
+const PNG_SCALES = [1, 2, 4];
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat, scale: number) => void; // Called when the user picks a format
+  disabled?: boolean; // Disable while there is nothing to export
+}
+
+export default function ExportMenu({ onExport, disabled }: ExportMenuProps) {
+  // Local state: is the dropdown open? Which PNG resolution is selected?
+  const [open, setOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+
+  // Handler: export and close the dropdown
+  const handleExport = (format: ExportFormat) => {
+    onExport(format, scale);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="p-1 rounded-full hover:bg-gray-100 disabled:opacity-30"
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        title="Export map"
+      >
+        <ArrowDownTrayIcon className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-2 z-50 bg-white border rounded shadow p-2 flex flex-col gap-1 min-w-[180px]">
+          <div className="flex items-center gap-2 px-2 py-1">
+            <button className="flex-1 text-left hover:bg-gray-100 rounded" onClick={() => handleExport('png')}>PNG</button>
+            <select
+              className="border rounded text-sm px-1"
+              value={scale}
+              onChange={e => setScale(Number(e.target.value))}
+              title="PNG resolution"
+            >
+              {PNG_SCALES.map(s => <option key={s} value={s}>{s}x</option>)}
+            </select>
+          </div>
+          <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={() => handleExport('svg')}>SVG (vector)</button>
+          <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={() => handleExport('pdf')}>PDF (print)</button>
+        </div>
+      )}
+    </div>
+  );
+}
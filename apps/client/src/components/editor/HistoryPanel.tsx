@@ -0,0 +1,130 @@
+//
+// HistoryPanel.tsx
+//
+// This component shows the "History" button and its dropdown in the editor toolbar.
+// - Lists the versions ("snapshots") of the open saved map, newest first: one per save, and one
+//   before each AI change (generate, merge notes, suggestions, links, clusters) or restore
+// - Pick any two versions (or the current map) and compare them on the canvas
+// - Restore an old version with one click (it can be undone, and the current map is kept in the history)
+//
+// Learnings for beginners:
+//   - How to load data when a dropdown opens (useEffect with the open state)
+//   - How to let the user pick two items from one list with two columns of radio buttons
+//
+
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useMindMapStore, type MapSnapshot } from '../../hooks/useMindMapStore';
+
+// The current (unsaved) map is offered next to the snapshots with this id
+const CURRENT = 'current';
+
+interface HistoryPanelProps {
+  mapName: string | null; // Only saved maps have a history
+  onCompare: (from: MapSnapshot | null, to: MapSnapshot | null) => void; // null = the current map
+  onRestore: (snapshot: MapSnapshot) => void;
+}
+
+export default function HistoryPanel({ mapName, onCompare, onRestore }: HistoryPanelProps) {
+  const listSnapshots = useMindMapStore(s => s.listSnapshots);
+  // Local state: is the dropdown open, the loaded snapshots, and the two picked versions
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<MapSnapshot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState(CURRENT);
+
+  // (Re)load the history every time the dropdown opens
+  useEffect(() => {
+    if (!open || !mapName) return;
+    let cancelled = false;
+    setError(null);
+    listSnapshots(mapName)
+      .then(list => {
+        if (cancelled) return;
+        setSnapshots(list);
+        // By default: the newest snapshot against the current map
+        setFromId(id => (id && list.some(s => s.id === id) ? id : list[0]?.id ?? null));
+      })
+      .catch(err => { if (!cancelled) setError(err.message || 'Could not load the history'); });
+    return () => { cancelled = true; };
+  }, [open, mapName]);
+
+  const find = (id: string | null) => (id === CURRENT ? null : snapshots?.find(s => s.id === id) ?? null);
+
+  // Handler: compare the two picked versions (the older one always goes first)
+  const handleCompare = () => {
+    if (!fromId || fromId === toId) return;
+    const from = find(fromId);
+    const to = find(toId);
+    const fromIsNewer = to !== null && (from === null || from.createdAt > to.createdAt);
+    if (fromIsNewer) onCompare(to, from);
+    else onCompare(from, to);
+    setOpen(false);
+  };
+
+  const handleRestore = (snapshot: MapSnapshot) => {
+    onRestore(snapshot);
+    setOpen(false);
+  };
+
+  // One row of the list: the two radio buttons, then what it is
+  const row = (id: string, title: string, detail: string, snapshot?: MapSnapshot) => (
+    <li key={id} className="flex items-center gap-2 py-1">
+      <input type="radio" name="history-from" checked={fromId === id} onChange={() => setFromId(id)} title="Compare from" />
+      <input type="radio" name="history-to" checked={toId === id} onChange={() => setToId(id)} title="Compare to" />
+      <div className="flex-1 min-w-0">
+        <div className="truncate">{title}</div>
+        <div className="text-xs text-gray-500">{detail}</div>
+      </div>
+      {snapshot && (
+        <button className="text-xs text-blue-600 hover:underline" onClick={() => handleRestore(snapshot)} title="Replace the map with this version (can be undone)">
+          Restore
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="p-1 rounded-full hover:bg-gray-100"
+        onClick={() => setOpen(o => !o)}
+        title="Version history"
+      >
+        <ClockIcon className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-2 z-50 bg-white border rounded shadow p-3 flex flex-col gap-2 w-[320px] text-sm">
+          {!mapName ? (
+            <div className="text-gray-500">Save the map first: versions are kept for saved maps.</div>
+          ) : error ? (
+            <div className="text-red-600">{error}</div>
+          ) : !snapshots ? (
+            <div className="text-gray-500">Loading…</div>
+          ) : (
+            <>
+              <div className="flex text-xs text-gray-500 gap-2">
+                <span>From</span>
+                <span>To</span>
+              </div>
+              <ul className="flex flex-col max-h-80 overflow-y-auto divide-y">
+                {row(CURRENT, 'Current map', 'What the editor shows now')}
+                {snapshots.map(s => row(s.id, s.reason, `${new Date(s.createdAt).toLocaleString()} · ${s.nodes.length} nodes`, s))}
+              </ul>
+              {snapshots.length === 0 && <div className="text-gray-500">No versions yet: one is kept every time you save.</div>}
+              <button
+                className="rounded px-3 py-1 font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+                onClick={handleCompare}
+                disabled={!fromId || fromId === toId}
+              >
+                Compare
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+//
+// LayoutMenu.tsx
+//
+// This component shows the "Layout" button and its dropdown in the editor toolbar.
+// - Pick a layout: radial mind map, left-right tree, top-down tree (org chart), concentric, or force
+// - Pick the root for the radial and tree layouts (or let the app choose)
+// - Lay out only the selected nodes, and pin/unpin selected nodes so layouts leave them alone
+//
+// Learnings for beginners:
+//   - How to keep a few form choices in local state until the user presses "Apply"
+//   - How to pass a callback up to the parent component
+//
+
+import React, { useState } from 'react';
+import { Squares2X2Icon } from '@heroicons/react/24/outline';
+import type { MapLayout, MindMapNode } from '../../hooks/useMindMapStore';
+
+// How each layout is shown in the menu
+const LAYOUT_NAMES: Record<MapLayout, string> = {
+  'radial': 'Radial mind map',
+  'tree-lr': 'Tree (left to right)',
+  'tree-td': 'Tree (top down / org chart)',
+  'concentric': 'Concentric (by connections)',
+  'fcose': 'Force-directed',
+};
+
+// What the parent needs to run a layout
+export interface LayoutOptions {
+  layout: MapLayout;
+  rootId?: string; // For radial and tree layouts; undefined = pick automatically
+  onlySelected?: boolean; // Leave every unselected node where it is
+}
+
+interface LayoutMenuProps {
+  layout: MapLayout; // The map's current layout
+  nodes: MindMapNode[]; // To pick a root from
+  selectedCount: number; // How many nodes are selected on the canvas
+  pinnedCount: number;
+  onApply: (options: LayoutOptions) => void;
+  onPinSelected: (pin: boolean) => void; // true = pin, false = unpin
+  disabled?: boolean;
+}
+
+export default function LayoutMenu({ layout, nodes, selectedCount, pinnedCount, onApply, onPinSelected, disabled }: LayoutMenuProps) {
+  // Local state: is the dropdown open, and the choices made in it
+  const [open, setOpen] = useState(false);
+  const [choice, setChoice] = useState<MapLayout>(layout);
+  const [rootId, setRootId] = useState('');
+  const [onlySelected, setOnlySelected] = useState(false);
+
+  const hasRoot = choice === 'radial' || choice === 'tree-lr' || choice === 'tree-td';
+
+  // Handler: run the layout and close the dropdown
+  const handleApply = () => {
+    onApply({ layout: choice, rootId: hasRoot && rootId ? rootId : undefined, onlySelected: onlySelected && selectedCount > 0 });
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="p-1 rounded-full hover:bg-gray-100 disabled:opacity-30"
+        onClick={() => { setChoice(layout); setOpen(o => !o); }}
+        disabled={disabled}
+        title="Layout"
+      >
+        <Squares2X2Icon className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-2 z-50 bg-white border rounded shadow p-3 flex flex-col gap-2 min-w-[240px] text-sm">
+          <div className="flex flex-col gap-1">
+            {(Object.keys(LAYOUT_NAMES) as MapLayout[]).map(l => (
+              <label key={l} className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="layout" checked={choice === l} onChange={() => setChoice(l)} />
+                {LAYOUT_NAMES[l]}
+              </label>
+            ))}
+          </div>
+          {hasRoot && (
+            <label className="flex flex-col gap-1 text-xs text-gray-500">
+              Root
+              <select className="border rounded px-1 py-1 text-sm text-gray-800" value={rootId} onChange={e => setRootId(e.target.value)}>
+                <option value="">Automatic (top of the map)</option>
+                {nodes.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+              </select>
+            </label>
+          )}
+          <label className={`flex items-center gap-2 ${selectedCount ? 'cursor-pointer' : 'text-gray-400'}`}>
+            <input type="checkbox" checked={onlySelected && selectedCount > 0} disabled={!selectedCount} onChange={e => setOnlySelected(e.target.checked)} />
+            Only the {selectedCount || ''} selected node{selectedCount === 1 ? '' : 's'}
+          </label>
+          <button className="bg-blue-600 text-white rounded px-3 py-1 font-semibold hover:bg-blue-700" onClick={handleApply}>
+            Apply
+          </button>
+          <div className="border-t pt-2 flex items-center gap-2 text-xs">
+            <span className="text-gray-500 flex-1">{pinnedCount} pinned</span>
+            <button className="text-blue-600 hover:underline disabled:text-gray-400" disabled={!selectedCount} onClick={() => onPinSelected(true)}>Pin selected</button>
+            <button className="text-blue-600 hover:underline disabled:text-gray-400" disabled={!selectedCount} onClick={() => onPinSelected(false)}>Unpin</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
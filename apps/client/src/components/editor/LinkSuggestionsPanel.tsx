@@ -0,0 +1,71 @@
+//
+// LinkSuggestionsPanel.tsx
+//
+// This component lists the cross-links the AI suggests ("connect the dots").
+// - Each suggestion is also drawn on the map as a dashed orange preview edge
+// - Accept or reject suggestions one at a time, or dismiss them all
+//
+// Learnings for beginners:
+//   - How to show a confidence score as a small bar
+//   - How to pass one callback per action up to the parent
+//
+
+import React from 'react';
+import { SparklesIcon, XMarkIcon, CheckIcon } from '@heroicons/react/24/outline';
+import type { MindMapNode } from '../../hooks/useMindMapStore';
+
+// One suggested link, as returned by POST /api/maps/suggest-links (plus a local id)
+export interface LinkSuggestion {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  confidence: number; // 0-1
+}
+
+interface LinkSuggestionsPanelProps {
+  links: LinkSuggestion[];
+  nodes: MindMapNode[]; // To show labels instead of ids
+  onAccept: (link: LinkSuggestion) => void;
+  onReject: (link: LinkSuggestion) => void;
+  onDismiss: () => void; // Reject everything that's left
+}
+
+export default function LinkSuggestionsPanel({ links, nodes, onAccept, onReject, onDismiss }: LinkSuggestionsPanelProps) {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+  return (
+    <div className="absolute top-8 right-8 z-50 bg-white border border-orange-200 rounded shadow-lg p-4 flex flex-col gap-2 min-w-[280px] max-w-[360px] max-h-[70%] overflow-y-auto">
+      <div className="flex items-center gap-2 mb-2">
+        <SparklesIcon className="w-5 h-5 text-orange-500" />
+        <span className="italic text-orange-700">Suggested connections</span>
+        <button className="ml-auto text-gray-400 hover:text-gray-600" onClick={onDismiss} title="Dismiss all">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+      {links.length === 0 && <div className="text-sm text-gray-500">No missing connections found.</div>}
+      <ul className="flex flex-col gap-3">
+        {links.map(link => (
+          <li key={link.id} className="flex flex-col gap-1">
+            <div className="text-sm text-gray-800">
+              {labelOf(link.source)} <span className="italic text-orange-700">— {link.label} →</span> {labelOf(link.target)}
+            </div>
+            <div className="flex items-center gap-2">
+              {/* Confidence bar */}
+              <div className="h-1.5 flex-1 bg-gray-100 rounded" title={`Confidence ${Math.round(link.confidence * 100)}%`}>
+                <div className="h-1.5 bg-orange-400 rounded" style={{ width: `${Math.round(link.confidence * 100)}%` }} />
+              </div>
+              <span className="text-xs text-gray-500 w-8 text-right">{Math.round(link.confidence * 100)}%</span>
+              <button className="text-green-600 hover:text-green-700" onClick={() => onAccept(link)} title="Add this edge">
+                <CheckIcon className="w-4 h-4" />
+              </button>
+              <button className="text-gray-400 hover:text-red-600" onClick={() => onReject(link)} title="Reject">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
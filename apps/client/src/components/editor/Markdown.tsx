@@ -0,0 +1,83 @@
+//
+// Markdown.tsx
+//
+// This component shows a small subset of Markdown as React elements.
+// - Headings (#, ##, ###), bullet and numbered lists, paragraphs
+// - **bold**, *italic*, `code`, [links](https://...) and bare URLs
+// - We build React elements instead of HTML strings, so user text can never inject HTML
+//
+// Learnings for beginners:
+//   - How to parse text line by line into blocks
+//   - How to split a string with a regular expression and map the pieces to elements
+//   - Why you should avoid dangerouslySetInnerHTML with user input
+//
+
+import React from 'react';
+
+// Only these kinds of links are allowed (no "javascript:" URLs)
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// Inline pieces: **bold**, *italic*, `code`, [text](url), or a bare http(s) URL
+const INLINE = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|https?:\/\/[^\s)]+)/g;
+
+// --- Turn one line of text into React elements ---
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return <strong key={i}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) return <code key={i} className="bg-gray-100 rounded px-1">{part.slice(1, -1)}</code>;
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    const url = link ? link[2] : /^https?:\/\//.test(part) ? part : null;
+    if (url) {
+      return SAFE_URL.test(url)
+        ? <a key={i} href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">{link ? link[1] : url}</a>
+        : <span key={i}>{link ? link[1] : part}</span>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) return <em key={i}>{part.slice(1, -1)}</em>;
+    return part;
+  });
+}
+
+export default function Markdown({ text }: { text: string }) {
+  const blocks: React.ReactNode[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let paragraph: string[] = [];
+
+  // Close the list or paragraph we were building
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push(<p key={blocks.length}>{renderInline(paragraph.join(' '))}</p>);
+      paragraph = [];
+    }
+    if (list) {
+      const items = list.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+      blocks.push(list.ordered
+        ? <ol key={blocks.length} className="list-decimal pl-5">{items}</ol>
+        : <ul key={blocks.length} className="list-disc pl-5">{items}</ul>);
+      list = null;
+    }
+  };
+
+  text.split('\n').forEach(line => {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (heading) {
+      flush();
+      const size = ['text-lg', 'text-base', 'text-sm'][heading[1].length - 1];
+      blocks.push(<div key={blocks.length} className={`${size} font-bold`}>{renderInline(heading[2])}</div>);
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      if (list) flush();
+      paragraph.push(line.trim());
+    }
+  });
+  flush();
+
+  return <div className="flex flex-col gap-2 text-sm text-gray-800">{blocks}</div>;
+}
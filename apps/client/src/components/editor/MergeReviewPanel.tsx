@@ -0,0 +1,136 @@
+//
+// MergeReviewPanel.tsx
+//
+// This component lets the user review the changes the AI proposes when new notes
+// are merged into the current map, before anything is applied.
+// - Lists new ideas (and what they connect to), new links, renames, and merges
+// - Every change has a checkbox, so the user can drop the ones they don't want
+// - "Accept" applies the checked changes, "Discard" throws the whole diff away
+//
+// Learnings for beginners:
+//   - How to keep a "set of unchecked items" in local state
+//   - How to filter data before handing it back to the parent
+//
+
+import React, { useState } from 'react';
+import { SparklesIcon, XMarkIcon, CheckIcon } from '@heroicons/react/24/outline';
+import type { MindMapNode } from '../../hooks/useMindMapStore';
+import type { MapDiff } from '../../utils/mapDiff';
+
+interface MergeReviewPanelProps {
+  diff: MapDiff; // The proposed changes
+  nodes: MindMapNode[]; // The current map's nodes (to show labels instead of ids)
+  onAccept: (diff: MapDiff) => void; // Called with only the checked changes
+  onDiscard: () => void;
+}
+
+export default function MergeReviewPanel({ diff, nodes, onAccept, onDiscard }: MergeReviewPanelProps) {
+  // Local state: keys of the changes the user unchecked (e.g. "node:n7", "rename:n2")
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  // Helper: the label of a node, whether it's in the map or new in the diff
+  const labelOf = (id: string) =>
+    nodes.find(n => n.id === id)?.label ?? diff.nodes.find(n => n.id === id)?.label ?? id;
+
+  const toggle = (key: string) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // New ideas are listed with the edges that attach them; other edges link existing nodes
+  const newIds = new Set(diff.nodes.map(n => n.id));
+  const links = diff.edges.filter(e => !newIds.has(e.source) && !newIds.has(e.target));
+  const linkKey = (e: MapDiff['edges'][number]) => `edge:${e.source}|${e.target}`;
+
+  // Handler: hand back only what's still checked (edges of unchecked nodes go too)
+  const handleAccept = () => {
+    const nodesKept = diff.nodes.filter(n => !rejected.has(`node:${n.id}`));
+    const keptIds = new Set(nodesKept.map(n => n.id));
+    onAccept({
+      nodes: nodesKept,
+      edges: diff.edges.filter(e =>
+        (!newIds.has(e.source) || keptIds.has(e.source)) &&
+        (!newIds.has(e.target) || keptIds.has(e.target)) &&
+        !rejected.has(linkKey(e))),
+      renames: diff.renames.filter(r => !rejected.has(`rename:${r.id}`)),
+      merges: diff.merges.filter(m => !rejected.has(`merge:${m.from}`)),
+    });
+  };
+
+  // Helper: one row with a checkbox
+  const row = (itemKey: string, children: React.ReactNode, title?: string) => (
+    <li key={itemKey} className="flex items-start gap-2 text-gray-700" title={title}>
+      <input type="checkbox" className="mt-1" checked={!rejected.has(itemKey)} onChange={() => toggle(itemKey)} />
+      <span className={rejected.has(itemKey) ? 'line-through text-gray-400' : ''}>{children}</span>
+    </li>
+  );
+
+  return (
+    <div className="absolute top-8 right-8 z-50 bg-white border border-blue-200 rounded shadow-lg p-4 flex flex-col gap-2 min-w-[280px] max-w-[360px] max-h-[70%] overflow-y-auto">
+      <div className="flex items-center gap-2 mb-2">
+        <SparklesIcon className="w-5 h-5 text-blue-500" />
+        <span className="italic text-blue-700">Changes from your new notes</span>
+      </div>
+      {diff.nodes.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-gray-500 uppercase">New ideas</div>
+          <ul className="mb-2 flex flex-col gap-1">
+            {diff.nodes.map(n => {
+              const parent = diff.edges.find(e => e.target === n.id)?.source;
+              return (
+                row(`node:${n.id}`, (
+                  <>
+                    <span className="italic">{n.label}</span>
+                    {parent && <span className="text-gray-400 text-sm"> ← {labelOf(parent)}</span>}
+                  </>
+                ), n.summary)
+              );
+            })}
+          </ul>
+        </>
+      )}
+      {links.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-gray-500 uppercase">New links</div>
+          <ul className="mb-2 flex flex-col gap-1">
+            {links.map(e => (
+              row(linkKey(e), `${labelOf(e.source)} → ${labelOf(e.target)}`)
+            ))}
+          </ul>
+        </>
+      )}
+      {diff.renames.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-gray-500 uppercase">Renames</div>
+          <ul className="mb-2 flex flex-col gap-1">
+            {diff.renames.map(r => (
+              row(`rename:${r.id}`, <><span className="text-gray-400">{labelOf(r.id)}</span> → {r.label}</>, r.reason)
+            ))}
+          </ul>
+        </>
+      )}
+      {diff.merges.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-gray-500 uppercase">Merges</div>
+          <ul className="mb-2 flex flex-col gap-1">
+            {diff.merges.map(m => (
+              row(`merge:${m.from}`, <>{labelOf(m.from)} <span className="text-gray-400">into</span> {labelOf(m.into)}</>, m.reason)
+            ))}
+          </ul>
+        </>
+      )}
+      <div className="flex gap-2">
+        <button className="flex-1 flex items-center justify-center gap-1 px-3 py-1 bg-blue-600 text-white rounded shadow hover:bg-blue-700" onClick={handleAccept}>
+          <CheckIcon className="w-4 h-4" /> Accept
+        </button>
+        <button className="flex-1 flex items-center justify-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded shadow hover:bg-gray-300" onClick={onDiscard}>
+          <XMarkIcon className="w-4 h-4" /> Discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,32 +4,69 @@
 // This is the main mind map editor component.
 //
 // Features:
-//   - Lets users enter free-form text and generate a mind map using AI (OpenAI GPT-4o)
+//   - Lets users enter free-form text and generate a mind map using AI (streamed, so nodes appear as they are written)
+//   - Can merge new notes into the current map, showing the proposed changes for review first
 //   - Visualizes the mind map as a graph using Cytoscape.js
-//   - Lets users add, rename, delete, and connect nodes (ideas)
-//   - Supports AI-powered suggestions, insights, and clustering
-//   - Saves and loads maps from localStorage
+//   - Lets users add, rename, delete, and connect nodes (ideas); edges can have a relation type (drawn differently) and a label
+//   - Style nodes (color, shape, size, icon, bold, done) from the node menu, or color them by cluster or tag with a legend
+//   - Collapse/expand subtrees (a badge shows how many nodes are hidden) and focus on one node's neighborhood, with breadcrumbs back to the full map
+//   - Search the map with Ctrl+F (labels, summaries, notes; typos are fine) and jump from hit to hit
+//   - Click a node to open its details: AI summary, your own notes, links, tags, and connected nodes
+//   - Supports AI-powered suggestions (children and missing cross-links), insights, and clustering (clusters are drawn as colored boxes and saved with the map)
+//   - Undo/redo for every edit (Ctrl+Z / Ctrl+Shift+Z or the toolbar buttons)
+//   - Keyboard editing: Tab adds a child, Enter a sibling, arrows move the selection, F2 renames, Delete deletes, "?" shows the cheat sheet
+//   - Copy, cut, and paste nodes (Ctrl+C / Ctrl+X / Ctrl+V), also between maps and from plain-text outlines
+//   - Select several nodes (Shift+click or Shift+drag a box) to delete, restyle, cluster, duplicate, merge, or expand them with AI in one step
+//   - Live maps: several people edit the same saved map at once, seeing each other's cursors and selections
+//   - Version history: a snapshot on every save and before AI changes, a visual diff of any two versions, and one-click restore
+//   - Several layouts (radial, trees, concentric, force), with pinned nodes and layouts of just the selection
+//   - Exports the rendered map as PNG, SVG, or PDF
+//   - Saves and loads maps (with node positions and zoom/pan) from localStorage or the server
 //
 // This file is large! We'll use section comments and inline comments to help you learn React step by step.
 //
 
 import React, { useState, useRef, useEffect } from 'react';
 import CytoscapeComponent from 'react-cytoscapejs';
-import { useMindMapStore } from '../../hooks/useMindMapStore';
+import { useLocation } from 'react-router-dom';
+import { useMindMapStore, getEdgeId, type MapSnapshot, type MindMapNode } from '../../hooks/useMindMapStore';
+import { useCollaboration } from '../../hooks/useCollaboration';
+import { useAuthStore } from '../../hooks/useAuthStore';
 import NodeMenu from './NodeMenu';
-import { InformationCircleIcon, EllipsisVerticalIcon, PlusIcon, BookmarkIcon, SparklesIcon, XMarkIcon, CheckIcon } from '@heroicons/react/24/outline';
+import EdgeMenu, { RELATION_NAMES } from './EdgeMenu';
+import ExportMenu from './ExportMenu';
+import LayoutMenu, { type LayoutOptions } from './LayoutMenu';
+import MergeReviewPanel from './MergeReviewPanel';
+import ClusterPanel from './ClusterPanel';
+import NodeDetailsPanel from './NodeDetailsPanel';
+import ColorLegend from './ColorLegend';
+import SearchBar from './SearchBar';
+import SelectionBar from './SelectionBar';
+import CollabPanel from './CollabPanel';
+import RemoteCursors from './RemoteCursors';
+import HistoryPanel from './HistoryPanel';
+import VersionDiffView from './VersionDiffView';
+import ShortcutsDialog from './ShortcutsDialog';
+import LinkSuggestionsPanel, { type LinkSuggestion } from './LinkSuggestionsPanel';
+import { InformationCircleIcon, EllipsisVerticalIcon, PlusIcon, BookmarkIcon, SparklesIcon, XMarkIcon, CheckIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, Squares2X2Icon, QuestionMarkCircleIcon, UsersIcon, ClockIcon } from '@heroicons/react/24/outline';
 import { Dialog } from '@headlessui/react';
 import Cytoscape from 'cytoscape';
 import edgehandles from 'cytoscape-edgehandles';
 // @ts-ignore
 import fcose from 'cytoscape-fcose';
+import svg from 'cytoscape-svg';
+import { exportPng, exportSvg, exportPdf, toFileName, type ExportFormat } from '../../utils/exportMap';
+import { apiFetch, readApiError, readNdjson, toApiError } from '../../services/api';
+import { applyMapDiff, isEmptyDiff, placeDiffNodes, type MapDiff } from '../../utils/mapDiff';
+import { getNodeColors } from '../../utils/nodeColors';
+import { pickRoot, radialPositions, treePositions } from '../../utils/layouts';
+import { searchNodes } from '../../utils/search';
+import { diffMaps, type MapVersionDiff } from '../../utils/versionDiff';
+import { CLIPBOARD_MIME, copyNodes, withNewIds, serializeCopied, toOutline, readClipboard, type CopiedNodes } from '../../utils/clipboard';
 
 // Fix TypeScript error for missing cytoscape-fcose types
 declare module 'cytoscape-fcose';
 
-// The API URL for talking to the backend (set in .env or defaults to localhost)
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
-
 // Example prompts to help users get started
 const SAMPLE_PROMPTS = [
   {
@@ -47,10 +84,103 @@ function debounce<T extends (...args: any[]) => void>(fn: T, ms: number) {
   };
 }
 
+// Utility: is the user typing in a text field? (keyboard shortcuts should leave it alone)
+function isTypingTarget(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+}
+
+// Utility: should a key press go to the canvas? (not while typing, and not in a button or dialog that has focus)
+function isCanvasKeyTarget(target: EventTarget | null, container: HTMLElement | null) {
+  const el = target as HTMLElement | null;
+  return !isTypingTarget(target) && (!el || el === document.body || !!container?.contains(el));
+}
+
+// The direction each arrow key moves the selection in
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Utility: the closest of `candidates` (Cytoscape nodes) in a direction from `from`
+// (nodes more than ~60° off to the side don't count; being off to the side costs extra)
+function nearestInDirection(from: any, candidates: any[], dir: { x: number; y: number }) {
+  const p = from.position();
+  let best: any = null;
+  let bestScore = Infinity;
+  candidates.forEach(c => {
+    const q = c.position();
+    const along = (q.x - p.x) * dir.x + (q.y - p.y) * dir.y;
+    const across = Math.abs((q.x - p.x) * dir.y - (q.y - p.y) * dir.x);
+    if (along <= 0 || across > along * 2) return;
+    const score = along + across * 2;
+    if (score < bestScore) { best = c; bestScore = score; }
+  });
+  return best;
+}
+
+// Utility: where the n-th streamed node goes until the final layout runs
+// (a spiral around the centre, so early nodes don't pile up on top of each other)
+function spiralPosition(index: number) {
+  const radius = 140 * Math.sqrt(index);
+  const angle = index * 2.4; // ~137.5°, the "golden angle"
+  return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+}
+
+// Utility: the ids of a node's ancestors, root first
+// (follows the first incoming edge of each node, stopping at a root or a cycle)
+function getAncestorIds(nodeId: string, edges: { source: string; target: string }[]) {
+  const path: string[] = [];
+  const seen = new Set([nodeId]);
+  let current = nodeId;
+  for (;;) {
+    const parent = edges.find(e => e.target === current && !seen.has(e.source))?.source;
+    if (!parent) break;
+    path.unshift(parent);
+    seen.add(parent);
+    current = parent;
+  }
+  return path;
+}
+
+// Utility: the ids of everything below a node (following edges from source to target)
+function getDescendantIds(nodeId: string, edges: { source: string; target: string }[]) {
+  const found = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length) {
+    const current = queue.shift()!;
+    edges.forEach(e => {
+      if (e.source === current && e.target !== nodeId && !found.has(e.target)) {
+        found.add(e.target);
+        queue.push(e.target);
+      }
+    });
+  }
+  return found;
+}
+
+// Utility: the ids of the nodes at most `hops` edges away from a node (in either direction), itself included
+function getNeighborhoodIds(nodeId: string, edges: { source: string; target: string }[], hops: number) {
+  const found = new Set([nodeId]);
+  let frontier = [nodeId];
+  for (let hop = 0; hop < hops; hop++) {
+    const next: string[] = [];
+    edges.forEach(e => {
+      if (frontier.includes(e.source) && !found.has(e.target)) { found.add(e.target); next.push(e.target); }
+      if (frontier.includes(e.target) && !found.has(e.source)) { found.add(e.source); next.push(e.source); }
+    });
+    frontier = next;
+  }
+  return found;
+}
+
 // Register Cytoscape plugins (only once)
 if (!(Cytoscape as any).registeredEh) {
   Cytoscape.use(edgehandles);
   Cytoscape.use(fcose);
+  Cytoscape.use(svg);
   (Cytoscape as any).registeredEh = true;
 }
 
@@ -71,21 +201,53 @@ export default function MindMap() {
   const [input, setInput] = useState('');
   // Get state and actions from the global mind map store
   const {
-    nodes, edges, loading, error, setNodes, setEdges, setLoading, setError, reset, addNodes, addEdges, renameNode, deleteNode, saveMap, selectedMapId
+    nodes, edges, loading, error, setLoading, setError, addNodes, addEdges, renameNode, deleteNode, deleteEdges, updateEdge, applyChange, saveMap, selectedMapId,
+    positions, viewport, layout, setLayout, pinned, setPinned, setPositions, setViewport, past, future, undo, redo, beginBatch, endBatch,
+    clusters: mapClusters, applyClusters, createCluster, moveToCluster, styleNodes, deleteNodes, duplicateNodes, mergeNodes, colorBy, collapsed, setCollapsed,
+    loadMap, setSelectedMapId, snapshotMap, restoreSnapshot
   } = useMindMapStore();
+  // Lets the Cancel button stop a map that is still being generated
+  const generateAbortRef = useRef<AbortController | null>(null);
   // More local state for UI features
   const [submitted, setSubmitted] = useState(false);
+  const [progress, setProgress] = useState<{ part: number; parts: number } | null>(null); // Long notes: which part is being mapped
   const containerRef = useRef<HTMLDivElement>(null);
   const [graphHeight, setGraphHeight] = useState(400);
   const [menuNode, setMenuNode] = useState<string | null>(null);
   const [menuPos, setMenuPos] = useState<{ x: number; y: number } | null>(null);
   const [showInfo, setShowInfo] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // The node being renamed in place (F2, or right after adding a node with Tab/Enter)
+  const [inlineRename, setInlineRename] = useState<{ nodeId: string; value: string } | null>(null);
   const [showSave, setShowSave] = useState(false);
   const [saveName, setSaveName] = useState('');
   const [showAddNode, setShowAddNode] = useState(false);
   const [newNodeLabel, setNewNodeLabel] = useState('');
   const cyRef = useRef<any>(null);
+  // Where the mouse is on the canvas (in map coordinates), for pasting; null when it's elsewhere
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
   const [nodeIconPositions, setNodeIconPositions] = useState<{ [id: string]: { x: number; y: number } }>({});
+  // The ids of the nodes selected on the canvas (kept in sync by an effect below)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Search (Ctrl+F): the query and which hit we're on
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+  // Focus mode: only the nodes within `hops` edges of `nodeId` are shown (not saved)
+  const [focus, setFocus] = useState<{ nodeId: string; hops: number } | null>(null);
+  // The signed-in user (the editor is only shown to signed-in users, see App.tsx)
+  const user = useAuthStore(s => s.user);
+  // Live map: the saved map we edit together with others, and whose it is (null = not live)
+  const [liveMap, setLiveMap] = useState<{ name: string; ownerId: string } | null>(null);
+  const collab = useCollaboration(liveMap?.name ?? null, liveMap?.ownerId ?? null);
+  const joinedFromLinkRef = useRef(false); // Opened from an invite link: show the whole map once it arrives
+  // Two versions being compared over the canvas (see HistoryPanel and VersionDiffView)
+  const [versionDiff, setVersionDiff] = useState<{
+    diff: MapVersionDiff;
+    fromLabel: string;
+    toLabel: string;
+    restorable: { label: string; snapshot: MapSnapshot }[];
+  } | null>(null);
   const [edgeMenu, setEdgeMenu] = useState<{
     id: string;
     source: string;
@@ -97,7 +259,12 @@ export default function MindMap() {
   const [addNodePos, setAddNodePos] = useState<{ x: number; y: number } | null>(null);
   const [suggestLoading, setSuggestLoading] = useState(false);
   const [suggestError, setSuggestError] = useState<string | null>(null);
-  const [suggestedNodes, setSuggestedNodes] = useState<{ parentId: string, nodes: any[], edges: any[] } | null>(null);
+  const [suggestedNodes, setSuggestedNodes] = useState<{ parentIds: string[], nodes: any[], edges: any[], rationales: Record<string, string> } | null>(null);
+  const [mergeDiff, setMergeDiff] = useState<MapDiff | null>(null); // Changes proposed by "Add to current map"
+  const [mergeLoading, setMergeLoading] = useState(false);
+  const [detailsNodeId, setDetailsNodeId] = useState<string | null>(null); // Node shown in the details panel
+  const [suggestedLinks, setSuggestedLinks] = useState<LinkSuggestion[] | null>(null); // Previewed as dashed edges
+  const [linksLoading, setLinksLoading] = useState(false);
   const [insight, setInsight] = useState<any>(null);
   const [insightOpen, setInsightOpen] = useState(false);
   const [insightLoading, setInsightLoading] = useState(false);
@@ -222,56 +389,128 @@ export default function MindMap() {
       setMenuNode(nodeId);
       setMenuPos({ x, y });
     };
-    cy.on('cxttap', 'node', onNodeContext);
+    // Cluster boxes are nodes too, but they have no menu
+    cy.on('cxttap', 'node[!isCluster]', onNodeContext);
     return () => {
-      cy.removeListener('cxttap', 'node', onNodeContext);
+      cy.removeListener('cxttap', 'node[!isCluster]', onNodeContext);
     };
   }, [nodeIconPositions]);
 
-  // Set a token limit (adjust as needed)
-  const TOKEN_LIMIT = 2000;
+  // The most words the server accepts (MAX_INPUT_WORDS in server/src/utils/chunkText.ts).
+  // Long notes are fine: the server maps them in chunks and merges the results.
+  const WORD_LIMIT = 50000;
+  // Above this the server splits the notes into parts (CHUNK_WORDS on the server)
+  const CHUNK_WORDS = 1500;
 
-  // Simple token counter (words as proxy)
-  function countTokens(text: string) {
-    // You can replace this with a more accurate tokenizer if needed
+  // Simple word counter
+  function countWords(text: string) {
     return text.trim().split(/\s+/).filter(Boolean).length;
   }
 
-  const tokenCount = countTokens(input);
-  const isTokenLimitExceeded = tokenCount > TOKEN_LIMIT;
+  const wordCount = countWords(input);
+  const isWordLimitExceeded = wordCount > WORD_LIMIT;
 
   // Submit handler
+  // The map is streamed: each node/edge is added to the graph as soon as the server sends it.
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
     setLoading(true);
     setError(null);
     setSubmitted(true);
+    // A new map starts fully expanded and unpinned (the old ids may be reused)
+    setCollapsed([]);
+    setPinned([]);
+    setFocus(null);
+    // A saved map about to be replaced goes into its history first
+    snapshotMap('Before AI: Generate map');
+    // Everything below (clearing + every streamed node) is one undoable step
+    beginBatch();
+    applyChange('Generate map', () => ({ nodes: [], edges: [] }));
+    let streamed = 0;
     try {
-      const res = await fetch(`${API_URL}/api/maps`, {
+      const res = await apiFetch(`/api/maps/stream`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ text: input, detailLevel }),
+        signal: controller.signal,
       });
-      if (!res.ok) throw new Error('API error');
-      const data = await res.json();
-      setNodes(data.nodes);
-      setEdges(data.edges);
+      if (!res.ok || !res.body) throw await readApiError(res);
+      await readNdjson(res.body, (event) => {
+        if (event.type === 'node') {
+          setPositions({ ...useMindMapStore.getState().positions, [event.node.id]: spiralPosition(streamed++) });
+          addNodes([event.node]);
+          // Keep the growing map in view
+          setTimeout(() => cyRef.current?.fit(undefined, 80), 0);
+        } else if (event.type === 'edge') {
+          addEdges([event.edge]);
+        } else if (event.type === 'progress') {
+          setProgress({ part: event.part, parts: event.parts });
+        } else if (event.type === 'error') {
+          throw toApiError(event, 502);
+        }
+      });
+    } catch (err: any) {
+      // Cancelling keeps whatever arrived so far
+      if (err.name !== 'AbortError') setError(err.message || 'Unknown error');
+    } finally {
+      endBatch('Generate map');
+      setLoading(false);
+      setProgress(null);
+      generateAbortRef.current = null;
       // Automatically reformat the graph after generating
-      setTimeout(() => {
-        handleReformat();
-      }, 0);
+      if (streamed > 0) {
+        setTimeout(() => {
+          handleReformat();
+        }, 0);
+      }
+    }
+  };
+
+  // Merge the notes into the current map instead of replacing it
+  // The server sends back a diff, which is shown for review before anything changes.
+  const handleMergeNotes = async () => {
+    setMergeLoading(true);
+    setError(null);
+    setMergeDiff(null);
+    try {
+      const res = await apiFetch(`/api/maps/merge-notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nodes, edges, text: input, detailLevel }),
+      });
+      if (!res.ok) throw await readApiError(res);
+      const data: { diff: MapDiff } = await res.json();
+      if (isEmptyDiff(data.diff)) setError('The new notes did not add anything to this map.');
+      else setMergeDiff(data.diff);
     } catch (err: any) {
       setError(err.message || 'Unknown error');
-      setNodes([]);
-      setEdges([]);
     } finally {
-      setLoading(false);
+      setMergeLoading(false);
     }
   };
 
+  // Apply the reviewed changes as one undoable step
+  const handleAcceptMerge = (diff: MapDiff) => {
+    snapshotMap('Before AI: Merge new notes');
+    setPositions(placeDiffNodes(diff, useMindMapStore.getState().positions, i => spiralPosition(i + 1)));
+    applyChange('Merge new notes', (state) => applyMapDiff(state.nodes, state.edges, diff));
+    setMergeDiff(null);
+    setInput('');
+    setTimeout(() => cyRef.current?.fit(undefined, 80), 0);
+  };
+
+  // Cancel a map that is still being generated (the server aborts the LLM request too)
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+  };
+
   // Reset handler
+  // (undoable, in case it was pressed by accident)
   const handleReset = () => {
-    reset();
+    applyChange('Reset map', () => ({ nodes: [], edges: [] }));
+    setError(null);
     setInput('');
     setSubmitted(false);
   };
@@ -286,6 +525,114 @@ export default function MindMap() {
     setMenuNode(null);
   };
 
+  // --- Keyboard editing ---
+  // Add a child (Tab) or a sibling (Enter) next to a node, then rename it in place.
+  // The root has no siblings, so Enter on it adds a child too.
+  const handleAddRelative = (nodeId: string, kind: 'child' | 'sibling') => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    // Read the store directly: this runs from a keyboard listener that may be a render behind
+    const { edges: current, positions: known, collapsed: folded } = useMindMapStore.getState();
+    const parentId = kind === 'sibling' ? current.find(e => e.target === nodeId && e.source !== nodeId)?.source : undefined;
+    const anchor = parentId ?? nodeId;
+    const at = (id: string) => known[id] ?? cy.getElementById(id).position();
+    let position: { x: number; y: number };
+    if (parentId) {
+      // A sibling goes just below the node
+      position = { x: at(nodeId).x, y: at(nodeId).y + 80 };
+    } else {
+      // A child goes right of its parent, below any children it already has
+      const children = current.filter(e => e.source === anchor && e.target !== anchor).map(e => at(e.target));
+      position = children.length
+        ? { x: children[0].x, y: Math.max(...children.map(c => c.y)) + 80 }
+        : { x: at(anchor).x + 220, y: at(anchor).y };
+    }
+    const id = crypto.randomUUID();
+    applyChange(kind === 'child' || !parentId ? 'Add child' : 'Add sibling', (state) => ({
+      nodes: [...state.nodes, { id, label: 'New idea' }],
+      edges: [...state.edges, { source: anchor, target: id }],
+    }));
+    setPositions({ ...known, [id]: position });
+    // A new child of a collapsed node would be hidden straight away
+    if (folded.includes(anchor)) setCollapsed(folded.filter(c => c !== anchor));
+    // Once it's drawn: select it and type its name
+    setTimeout(() => {
+      const ele = cy.getElementById(id);
+      cy.elements().unselect();
+      ele.select();
+      setInlineRename({ nodeId: id, value: 'New idea' });
+    }, 0);
+  };
+
+  // Save the in-place rename (an empty name keeps the old one)
+  const commitInlineRename = () => {
+    if (!inlineRename) return;
+    const label = inlineRename.value.trim();
+    // From the store, so a second call (Enter, then blur) sees the first one's rename
+    const node = useMindMapStore.getState().nodes.find(n => n.id === inlineRename.nodeId);
+    if (node && label && label !== node.label) renameNode(node.id, label);
+    setInlineRename(null);
+  };
+
+  // The shortcuts themselves (Delete is handled with the edge menu above, undo/redo further below)
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || !isCanvasKeyTarget(e.target, cy.container())) return;
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(true);
+        return;
+      }
+      if (e.key === 'Escape') {
+        cy.elements().unselect();
+        return;
+      }
+      const selected = cy.nodes('[!isCluster]:selected');
+      const dir = ARROW_DIRECTIONS[e.key];
+      if (dir) {
+        e.preventDefault();
+        const visible = cy.nodes('[!isCluster]:visible');
+        if (visible.empty()) return;
+        let next: any;
+        if (selected.length === 1) {
+          // Prefer a connected node; otherwise the nearest node that way
+          const from = selected[0];
+          next = nearestInDirection(from, from.neighborhood('node[!isCluster]:visible').toArray(), dir)
+            ?? nearestInDirection(from, visible.not(from).toArray(), dir);
+        } else {
+          // Nothing selected yet: start at the root
+          next = cy.getElementById(pickRoot(visible.map((ele: any) => ele.id()), edges));
+        }
+        if (!next || next.empty()) return;
+        cy.elements().unselect();
+        next.select();
+        // Only pan when the node is off screen
+        const box = cy.extent();
+        const pos = next.position();
+        if (pos.x < box.x1 || pos.x > box.x2 || pos.y < box.y1 || pos.y > box.y2) {
+          cy.animate({ center: { eles: next } }, { duration: 200 });
+        }
+        return;
+      }
+      if (selected.length !== 1) return;
+      const nodeId = selected[0].id();
+      if (e.key === 'Tab') {
+        e.preventDefault();
+        handleAddRelative(nodeId, 'child');
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        handleAddRelative(nodeId, 'sibling');
+      } else if (e.key === 'F2') {
+        e.preventDefault();
+        setInlineRename({ nodeId, value: nodes.find(n => n.id === nodeId)?.label ?? '' });
+      }
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [nodes, edges]);
+
   // Add node
   const handleAddNode = () => {
     if (!newNodeLabel.trim()) return;
@@ -297,19 +644,23 @@ export default function MindMap() {
   };
 
   // Save map
-  const handleSaveMap = () => {
+  const handleSaveMap = async () => {
     if (!saveName.trim()) return;
-    saveMap(saveName.trim());
-    setShowSave(false);
+    try {
+      await saveMap(saveName.trim());
+      setShowSave(false);
+    } catch (err: any) {
+      setError(err.message || 'Could not save map');
+      setShowSave(false);
+    }
   };
 
-  // Add the helper function inside the component (or just above it)
+  // --- Helper: set up drag-to-connect, replacing (and destroying) the previous edgehandles instance ---
+  // There must only ever be one: each instance draws its own handle and adds its own edges.
   const initEdgeHandles = (cy: Cytoscape.Core) => {
-    if ((cy as any).ehInstance) {
-      (cy as any).ehInstance.destroy();
-    }
+    (cy as any).ehInstance?.destroy();
     const eh = (cy as any).edgehandles({
-      handleNodes: 'node',
+      handleNodes: 'node[!isCluster]',
       handlePosition: () => 'right middle',
       handleIcon: true,
       handleSize: 16,
@@ -321,14 +672,16 @@ export default function MindMap() {
       complete: (sourceNode: any, targetNode: any, addedEles: any) => {
         const source = sourceNode.id();
         const target = targetNode.id();
+        // Drop the edge edgehandles drew itself: the store is the single source of truth
+        // (otherwise undo would leave it behind on the canvas)
+        addedEles.remove();
         if (
-          edges.some(e => e.source === source && e.target === target)
+          useMindMapStore.getState().edges.some(e => e.source === source && e.target === target)
         ) {
-          addedEles.remove();
           return;
         }
         const id = `${source}__${target}__${crypto.randomUUID()}`;
-        setEdges([...edges, { id, source, target }]);
+        addEdges([{ id, source, target }]);
       }
     });
     (cy as any).ehInstance = eh;
@@ -341,26 +694,37 @@ export default function MindMap() {
     initEdgeHandles(cy);
   }, [nodes, edges]);
 
-  // Edge deletion: context menu or delete key
+  // ...and remove it when the editor goes away
+  useEffect(() => () => {
+    cyRef.current?.ehInstance?.destroy();
+    if (cyRef.current) cyRef.current.ehInstance = null;
+  }, []);
+
+  // Deleting: the edge context menu, or the delete key for the selected nodes and edges
   useEffect(() => {
     const cy = cyRef.current;
     if (!cy) return;
     const handleDelete = (e: KeyboardEvent) => {
+      // Don't delete anything while the user is typing (e.g. Backspace in the notes)
+      if (!isCanvasKeyTarget(e.target, cy.container())) return;
       if (e.key === 'Delete' || e.key === 'Backspace') {
-        const sel = cy.$('edge:selected');
-        if (sel.length > 0) {
-          const toRemove = sel.map((ele: any) => ({ source: ele.data('source'), target: ele.data('target') }));
-          setEdges(edges.filter(e => !toRemove.some((rm: any) => rm.source === e.source && rm.target === e.target)));
+        const nodeIds: string[] = cy.nodes('[!isCluster]:selected').map((ele: any) => ele.id());
+        const edgeIds: string[] = cy.$('edge:selected').not('[?newEdge]').map((ele: any) => ele.id());
+        if (nodeIds.length > 0) {
+          // Nodes and edges together, as one undoable step
+          deleteNodes(nodeIds, edgeIds);
+        } else if (edgeIds.length > 0) {
+          deleteEdges(edgeIds);
         }
       }
     };
     document.addEventListener('keydown', handleDelete);
-    // Custom context menu for edge delete
+    // Custom context menu for edges (relation, label, delete)
     const onEdgeContext = (evt: any) => {
       evt.preventDefault();
       const edge = evt.target;
-      if (edge.isEdge && edge.isEdge()) {
-        console.log('Edge context menu:', edge.data());
+      // Preview edges (suggested links) are accepted or rejected from their panel instead
+      if (edge.isEdge && edge.isEdge() && !edge.data('newEdge')) {
         const id = edge.data('id');
         const source = edge.data('source');
         const target = edge.data('target');
@@ -385,41 +749,53 @@ export default function MindMap() {
   // Delete edge from context menu
   const handleDeleteEdgeMenu = () => {
     if (!edgeMenu) return;
-    setEdges(edges.filter(e => {
-      if (e.id) {
-        return e.id !== edgeMenu.id;
-      } else {
-        // fallback: match by source/target if id is missing
-        return !(e.source === edgeMenu.source && e.target === edgeMenu.target);
-      }
-    }));
+    // Edges without an id use `${source}__${target}` (see getEdgeId)
+    deleteEdges([edgeMenu.id]);
     setEdgeMenu(null);
   };
 
-  // Handler for AI children suggestion
-  const handleSuggestChildren = async (nodeId: string) => {
+  // Handler for AI children suggestion (one node from its menu, or each selected node)
+  const handleSuggestChildren = async (nodeIds: string[]) => {
+    const parents = nodeIds.map(id => nodes.find(n => n.id === id)).filter((n): n is MindMapNode => !!n);
+    if (!parents.length) return;
     setSuggestLoading(true);
     setSuggestError(null);
     setSuggestedNodes(null);
-    const node = nodes.find(n => n.id === nodeId);
-    if (!node) return;
+    const labelOf = (id: string) => nodes.find(n => n.id === id)?.label;
     try {
-      const res = await fetch(`${API_URL}/api/maps/suggest-children`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: node.label, parentId: node.id, detailLevel }),
-      });
-      if (!res.ok) throw new Error('API error');
-      const data = await res.json();
-      // data.suggestions: [{ label }]
-      // Generate new node IDs and edges
-      const newNodes = data.suggestions.map((s: any) => ({
-        id: `${nodeId}__ai__${crypto.randomUUID()}`,
-        label: s.label,
-        aiSuggested: true,
-      }));
-      const newEdges = newNodes.map((n: any) => ({ source: nodeId, target: n.id }));
-      setSuggestedNodes({ parentId: nodeId, nodes: newNodes, edges: newEdges });
+      const newNodes: any[] = [];
+      const newEdges: any[] = [];
+      const rationales: Record<string, string> = {};
+      // One request per node, one after the other (so a big selection doesn't flood the AI provider)
+      for (const node of parents) {
+        // Context so the AI knows where the node sits: its ancestors, its children, and the notes
+        const path = getAncestorIds(node.id, edges).map(labelOf).filter(Boolean);
+        const children = edges.filter(e => e.source === node.id).map(e => labelOf(e.target)).filter(Boolean);
+        const res = await apiFetch(`/api/maps/suggest-children`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            text: node.label,
+            parentId: node.id,
+            detailLevel,
+            path,
+            children,
+            summary: node.summary,
+            sourceText: input.trim() || undefined,
+          }),
+        });
+        if (!res.ok) throw await readApiError(res);
+        const data = await res.json();
+        // data.suggestions: [{ label, rationale }]
+        // Generate new node IDs and edges
+        data.suggestions.forEach((s: any) => {
+          const id = `${node.id}__ai__${crypto.randomUUID()}`;
+          rationales[id] = parents.length > 1 ? `Under "${node.label}". ${s.rationale ?? ''}`.trim() : s.rationale;
+          newNodes.push({ id, label: s.label, aiSuggested: true });
+          newEdges.push({ source: node.id, target: id });
+        });
+      }
+      setSuggestedNodes({ parentIds: parents.map(n => n.id), nodes: newNodes, edges: newEdges, rationales });
     } catch (err: any) {
       setSuggestError(err.message || 'Unknown error');
     } finally {
@@ -430,8 +806,12 @@ export default function MindMap() {
   // Accept AI suggestions
   const handleAcceptSuggestions = () => {
     if (!suggestedNodes) return;
-    addNodes(suggestedNodes.nodes);
-    addEdges(suggestedNodes.edges);
+    snapshotMap('Before AI: Accept suggestions');
+    // Nodes and edges are added together, so one undo removes them all
+    applyChange('Accept AI suggestions', (state) => ({
+      nodes: [...state.nodes, ...suggestedNodes.nodes],
+      edges: [...state.edges, ...suggestedNodes.edges],
+    }));
     setSuggestedNodes(null);
   };
 
@@ -440,11 +820,156 @@ export default function MindMap() {
     setSuggestedNodes(null);
   };
 
+  // Handler for "Connect the Dots": ask the AI for missing cross-links
+  const handleSuggestLinks = async () => {
+    setLinksLoading(true);
+    setError(null);
+    setSuggestedLinks(null);
+    try {
+      const res = await apiFetch(`/api/maps/suggest-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nodes, edges, detailLevel }),
+      });
+      if (!res.ok) throw await readApiError(res);
+      const data = await res.json();
+      // data.links: [{ source, target, label, confidence }]
+      setSuggestedLinks(data.links.map((l: any) => ({ ...l, id: `preview__${l.source}__${l.target}` })));
+    } catch (err: any) {
+      setError(err.message || 'Unknown error');
+    } finally {
+      setLinksLoading(false);
+    }
+  };
+
+  // Accept one suggested link: it becomes a real edge (one undo step each)
+  const handleAcceptLink = (link: LinkSuggestion) => {
+    const { nodes: current } = useMindMapStore.getState();
+    if (current.some(n => n.id === link.source) && current.some(n => n.id === link.target)) {
+      snapshotMap('Before AI: Accept link');
+      addEdges([{ id: `${link.source}__${link.target}__${crypto.randomUUID()}`, source: link.source, target: link.target, label: link.label }]);
+    }
+    handleRejectLink(link);
+  };
+
+  // Reject one suggested link (closes the panel when none are left)
+  const handleRejectLink = (link: LinkSuggestion) => {
+    setSuggestedLinks(prev => {
+      const rest = (prev ?? []).filter(l => l.id !== link.id);
+      return rest.length ? rest : null;
+    });
+  };
+
+  // --- Collapsed subtrees and focus mode ---
+  // Hidden nodes stay on the canvas with display: none (see 'node[?hidden]'), so they keep their
+  // positions and come back where they were.
+  const activeFocus = focus && nodes.some(n => n.id === focus.nodeId) ? focus : null;
+  const collapsedIds = collapsed.filter(id => nodes.some(n => n.id === id));
+  const hiddenCounts: Record<string, number> = {}; // Collapsed node id -> how many nodes it hides
+  const hiddenIds = new Set<string>();
+  collapsedIds.forEach(id => {
+    const below = getDescendantIds(id, edges);
+    hiddenCounts[id] = below.size;
+    below.forEach(d => hiddenIds.add(d));
+  });
+  if (activeFocus) {
+    const near = getNeighborhoodIds(activeFocus.nodeId, edges, activeFocus.hops);
+    nodes.forEach(n => { if (!near.has(n.id)) hiddenIds.add(n.id); });
+  }
+
+  // --- Search hits ---
+  const searchHits = searchOpen ? searchNodes(nodes, searchQuery) : [];
+  const searchHitIds = new Set(searchHits.map(h => h.nodeId));
+  const currentHitId = searchHits[searchIndex]?.nodeId ?? null;
+  const currentHitHidden = !!currentHitId && hiddenIds.has(currentHitId);
+
+  // Jump to the current hit: show it first if it's collapsed away or outside the focus,
+  // then center on it (this effect runs again once it's visible)
+  useEffect(() => {
+    if (!currentHitId) return;
+    if (currentHitHidden) {
+      setFocus(null);
+      setCollapsed(collapsed.filter(id => !getDescendantIds(id, edges).has(currentHitId)));
+      return;
+    }
+    const cy = cyRef.current;
+    const ele = cy?.getElementById(currentHitId);
+    if (!cy || !ele || ele.empty()) return;
+    cy.animate({ center: { eles: ele }, zoom: Math.max(cy.zoom(), 1) }, { duration: 300 });
+  }, [currentHitId, currentHitHidden]);
+
+  // Handler: go to the next (1) or previous (-1) hit, wrapping around
+  const handleSearchStep = (delta: 1 | -1) => {
+    if (searchHits.length) setSearchIndex(i => (i + delta + searchHits.length) % searchHits.length);
+  };
+
+  const handleCloseSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery('');
+    setSearchIndex(0);
+  };
+
+  // Handler: fold a node's subtree away, or show it again
+  const handleToggleCollapse = (nodeId: string) => {
+    setCollapsed(collapsed.includes(nodeId) ? collapsed.filter(id => id !== nodeId) : [...collapsed, nodeId]);
+  };
+
+  // Node fill colors come from the node's own style, its cluster, or its first tag (see ColorLegend)
+  const nodeColors = getNodeColors(nodes, mapClusters, colorBy);
+  // Nodes other people on a live map have selected, with their color (see 'node[?remoteColor]')
+  const remoteSelection: Record<string, string> = {};
+  collab.peers.forEach(p => p.selection.forEach(id => { remoteSelection[id] ??= p.color; }));
+  // The selected nodes that still exist (for the bulk actions toolbar)
+  const selectedNodes = nodes.filter(n => selectedIds.includes(n.id));
   const elements = [
-    ...nodes.map((n) => ({ data: { id: n.id, label: n.label } })),
-    ...edges.map((e) => ({ data: { id: e.id || `${e.source}__${e.target}`, source: e.source, target: e.target }, classes: e.source === e.target ? 'circular' : '' })),
+    ...nodes.map((n) => {
+      const color = nodeColors.colorOf(n);
+      const style = n.style ?? {};
+      return {
+        data: {
+          id: n.id,
+          label: style.icon ? `${style.icon} ${n.label}` : n.label,
+          summary: n.summary,
+          ...(n.aiSuggested ? { aiSuggested: true } : {}),
+          // Unset styles are '' or false rather than missing: Cytoscape only ever merges new data
+          // into a node, so a removed key would keep its old value (see the 'node[?color]' etc. selectors)
+          color: color ?? '',
+          shape: style.shape ?? '',
+          size: style.size ?? '',
+          bold: !!style.bold,
+          done: !!style.done,
+          hidden: hiddenIds.has(n.id),
+          pinned: pinned.includes(n.id),
+          searchHit: searchHitIds.has(n.id),
+          searchCurrent: n.id === currentHitId,
+          remoteColor: remoteSelection[n.id] ?? '',
+          collapsed: !!hiddenCounts[n.id],
+        },
+        ...(positions[n.id] ? { position: positions[n.id] } : {}),
+      };
+    }),
+    // The edge text is its label, or else the name of its relation (see 'edge[?label]')
+    ...edges.map((e) => {
+      const text = e.label || (e.relation && RELATION_NAMES[e.relation]);
+      return {
+        data: { id: getEdgeId(e), source: e.source, target: e.target, relation: e.relation ?? '', label: text || '' },
+        classes: e.source === e.target ? 'circular' : '',
+      };
+    }),
+    // Suggested links are drawn as dashed preview edges until accepted (see 'edge[newEdge]')
+    ...(suggestedLinks ?? [])
+      .filter(l => nodes.some(n => n.id === l.source) && nodes.some(n => n.id === l.target))
+      .map(l => ({ data: { id: l.id, source: l.source, target: l.target, label: `${l.label} (${Math.round(l.confidence * 100)}%)`, newEdge: true } })),
   ];
 
+  // --- The nodes a style change from the node menu applies to ---
+  // The whole selection if the menu's node is part of it, otherwise just that node.
+  const getStyleTargets = (nodeId: string): string[] => {
+    const cy = cyRef.current;
+    const selected: string[] = cy ? cy.nodes('[!isCluster]:selected').map((n: any) => n.id()) : [];
+    return selected.includes(nodeId) ? selected : [nodeId];
+  };
+
   // Add after menuNode and menuPos state declarations
   useEffect(() => {
     if (!menuNode) return;
@@ -469,38 +994,13 @@ export default function MindMap() {
     return () => container?.removeEventListener('contextmenu', handler);
   }, []);
 
-  // Minimal edgehandles test for debugging
-  useEffect(() => {
-    const cy = cyRef.current;
-    if (!cy) return;
-
-    const eh = (cy as any).edgehandles({
-      handleNodes: 'node',
-      handlePosition: 'right middle',
-      handleSize: 10,
-      handleColor: '#22c55e',
-      handleIcon: true,
-      edgeType: () => 'flat',
-      loopAllowed: () => true,
-      complete: (sourceNode: any, targetNode: any, addedEles: any) => {
-        console.log('✔️ Edge created:', sourceNode.id(), '→', targetNode.id());
-      },
-    });
-
-    (cy as any).ehInstance = eh;
-
-    return () => {
-      eh.destroy();
-    };
-  }, []);
-
   // Add effect to handle click-to-select target node for edge creation
   useEffect(() => {
     if (!addEdgeSource) return;
     const cy = cyRef.current;
     if (!cy) return;
     const handler = (evt: any) => {
-      if (evt.target.isNode && evt.target.isNode()) {
+      if (evt.target.isNode && evt.target.isNode() && !evt.target.data('isCluster')) {
         const targetId = evt.target.id();
         if (targetId === addEdgeSource) {
           setAddEdgeSource(null);
@@ -514,7 +1014,7 @@ export default function MindMap() {
           return;
         }
         const id = `${addEdgeSource}__${targetId}__${crypto.randomUUID()}`;
-        setEdges([...edges, { id, source: addEdgeSource, target: targetId }]);
+        addEdges([{ id, source: addEdgeSource, target: targetId }]);
         setAddEdgeSource(null);
       } else {
         // Clicked elsewhere, exit mode
@@ -534,6 +1034,49 @@ export default function MindMap() {
     </div>
   )}
 
+  // --- Ctrl+F opens the map search (instead of the browser's find) ---
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f' && nodes.length > 0) {
+        e.preventDefault();
+        setSearchOpen(true);
+        // Already open: put the cursor back in the box
+        document.getElementById('map-search-input')?.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [nodes.length]);
+
+  // --- Undo/redo keyboard shortcuts ---
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes. Cmd works too on macOS.
+  // Text fields keep their own native undo, so we skip them.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  // Handler for exporting the rendered map as a file
+  const handleExport = (format: ExportFormat, scale: number) => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const fileName = toFileName(selectedMapId, format);
+    if (format === 'png') exportPng(cy, fileName, scale);
+    else if (format === 'svg') exportSvg(cy, fileName);
+    else exportPdf(cy, fileName, selectedMapId ?? undefined);
+  };
+
   // Handler for generating insight
   const handleGenerateInsight = async () => {
     if (insight) {
@@ -544,12 +1087,12 @@ export default function MindMap() {
     setInsightError(null);
     setInsightOpen(true);
     try {
-      const res = await fetch(`${API_URL}/api/maps/insight`, {
+      const res = await apiFetch(`/api/maps/insight`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ nodes, edges, detailLevel }),
       });
-      if (!res.ok) throw new Error('API error');
+      if (!res.ok) throw await readApiError(res);
       const data = await res.json();
       setInsight(data.insight);
     } catch (err: any) {
@@ -559,17 +1102,68 @@ export default function MindMap() {
     }
   };
 
-  // Handler to reformat (spread out) the map
-  const handleReformat = () => {
+  // Handler to reformat (spread out) the map with the chosen layout (the map's own one by default)
+  // Only visible nodes are arranged, and pinned nodes stay where they are.
+  // The new positions are stored by the 'layoutstop' listener below.
+  const handleReformat = (options: Partial<LayoutOptions> = {}) => {
     const cy = cyRef.current;
-    if (cy) {
-      cy.layout({
+    if (!cy) return;
+    // Read the store directly: this also runs from callbacks made before the map finished changing
+    const { layout: current, pinned, edges } = useMindMapStore.getState();
+    const name = options.layout ?? current;
+    if (options.layout) setLayout(options.layout);
+    const scope = options.onlySelected ? cy.nodes('[!isCluster]:selected:visible') : cy.nodes('[!isCluster]:visible');
+    const isPinned = (ele: any) => pinned.includes(ele.id());
+    const movable = scope.filter((ele: any) => !isPinned(ele));
+    if (movable.empty()) return;
+    // A partial layout stays in place instead of filling the screen
+    const fit = !options.onlySelected;
+
+    if (name === 'radial' || name === 'tree-lr' || name === 'tree-td') {
+      const ids: string[] = scope.map((ele: any) => ele.id());
+      const rootId = options.rootId && ids.includes(options.rootId) ? options.rootId : pickRoot(ids, edges);
+      const computed = name === 'radial' ? radialPositions(ids, edges, rootId) : treePositions(ids, edges, rootId, name === 'tree-lr' ? 'lr' : 'td');
+      // Line the result up with the nodes that don't move: the pinned ones, or else the whole selection
+      const anchors = scope.filter(isPinned).nonempty() ? scope.filter(isPinned) : options.onlySelected ? scope : null;
+      let dx = 0;
+      let dy = 0;
+      if (anchors) {
+        anchors.forEach((ele: any) => {
+          dx += ele.position('x') - computed[ele.id()].x;
+          dy += ele.position('y') - computed[ele.id()].y;
+        });
+        dx /= anchors.length;
+        dy /= anchors.length;
+      }
+      movable.layout({
+        name: 'preset',
+        positions: (ele: any) => ({ x: computed[ele.id()].x + dx, y: computed[ele.id()].y + dy }),
+        animate: true,
+        animationDuration: 600,
+        fit,
+        padding: 80,
+      }).run();
+    } else if (name === 'concentric') {
+      movable.layout({
+        name: 'concentric',
+        concentric: (ele: any) => ele.degree(), // Most connected in the middle
+        levelWidth: () => 2,
+        minNodeSpacing: 40,
+        animate: true,
+        animationDuration: 600,
+        fit,
+        padding: 80,
+        ...(options.onlySelected ? { boundingBox: movable.boundingBox() } : {}),
+      }).run();
+    } else {
+      // fcose keeps pinned nodes fixed with a constraint, so the rest arranges around them
+      scope.union(scope.connectedEdges()).union(scope.parents()).layout({
         name: 'fcose',
         quality: 'proof', // maximize quality
-        randomize: true,
+        randomize: !options.onlySelected,
         animate: true,
         animationDuration: 1000,
-        fit: true,
+        fit,
         padding: 80,
         nodeRepulsion: 100000,
         idealEdgeLength: 200,
@@ -581,33 +1175,379 @@ export default function MindMap() {
         tilingPaddingVertical: 40,
         tilingPaddingHorizontal: 40,
         nodeDimensionsIncludeLabels: true,
+        fixedNodeConstraint: scope.filter(isPinned).map((ele: any) => ({ nodeId: ele.id(), position: { ...ele.position() } })),
       }).run();
     }
   };
 
-  // Reformat the map when a map is loaded from the dashboard
+  // Handler: pin or unpin the selected nodes
+  const handlePinSelected = (pin: boolean) => {
+    setPinned(pin
+      ? Array.from(new Set([...pinned, ...selectedIds]))
+      : pinned.filter(id => !selectedIds.includes(id)));
+  };
+
+  // --- Bulk actions for the selected nodes (see SelectionBar) ---
+  // Each one is a single store action, so one undo reverts all of it.
+  const handleClearSelection = () => {
+    cyRef.current?.elements().unselect();
+  };
+
+  // Copies go slightly below and right of the originals, and become the new selection
+  // (used for the selection, and for a node and everything below it from the node menu)
+  const handleDuplicate = (ids: string[]) => {
+    const cy = cyRef.current;
+    if (!cy || !ids.length) return;
+    const copies = duplicateNodes(ids);
+    const { positions: known } = useMindMapStore.getState();
+    const placed = { ...known };
+    Object.entries(copies).forEach(([id, copyId]) => {
+      const at = known[id] ?? cy.getElementById(id).position();
+      placed[copyId] = { x: at.x + 40, y: at.y + 40 };
+    });
+    setPositions(placed);
+    setTimeout(() => {
+      cy.elements().unselect();
+      Object.values(copies).forEach(copyId => cy.getElementById(copyId).select());
+    }, 0);
+  };
+
+  const handleMergeSelected = (intoId: string) => {
+    mergeNodes([intoId, ...selectedIds.filter(id => id !== intoId)]);
+    setTimeout(() => cyRef.current?.getElementById(intoId).select(), 0);
+  };
+
+  // --- Copy, cut, and paste ---
+  // Pasted nodes get new ids and land under the mouse (or in the middle of the screen).
+  // Clusters only exist in their own map, so nodes pasted from another map leave theirs behind.
+  const handlePasteNodes = (copied: CopiedNodes) => {
+    const cy = cyRef.current;
+    if (!cy || !copied.nodes.length) return;
+    const { clusters: known, positions: placed } = useMindMapStore.getState();
+    const pasted = withNewIds(copied);
+    const newNodes = pasted.nodes.map(({ clusterId, ...n }) => (clusterId && known.some(c => c.id === clusterId) ? { ...n, clusterId } : n));
+    const box = cy.extent();
+    const at = pointerRef.current ?? { x: (box.x1 + box.x2) / 2, y: (box.y1 + box.y2) / 2 };
+    const nextPositions = { ...placed };
+    newNodes.forEach((n, i) => {
+      const offset = pasted.positions[n.id] ?? { x: i * 40, y: i * 40 };
+      nextPositions[n.id] = { x: at.x + offset.x, y: at.y + offset.y };
+    });
+    applyChange(newNodes.length === 1 ? 'Paste node' : 'Paste nodes', (state) => ({
+      nodes: [...state.nodes, ...newNodes],
+      edges: [...state.edges, ...pasted.edges],
+    }));
+    setPositions(nextPositions);
+    setTimeout(() => {
+      cy.elements().unselect();
+      newNodes.forEach(n => cy.getElementById(n.id).select());
+    }, 0);
+  };
+
+  // The browser's copy/cut/paste events (Ctrl+C, Ctrl+X, Ctrl+V) while the canvas has the focus
   useEffect(() => {
-    // Only reformat if a map is loaded (not on initial empty state)
+    const cy = cyRef.current;
+    if (!cy) return;
+    const container: HTMLElement = cy.container();
+    const trackPointer = (evt: any) => { pointerRef.current = { ...evt.position }; };
+    const forgetPointer = () => { pointerRef.current = null; };
+    const handleCopy = (e: ClipboardEvent) => {
+      if (!e.clipboardData || !isCanvasKeyTarget(e.target, container)) return;
+      // Leave normal text copying alone (e.g. a summary selected with the mouse)
+      if (window.getSelection()?.toString()) return;
+      const ids: string[] = cy.nodes('[!isCluster]:selected').map((ele: any) => ele.id());
+      if (!ids.length) return;
+      const { nodes: all, edges: allEdges } = useMindMapStore.getState();
+      const at: Record<string, { x: number; y: number }> = {};
+      ids.forEach(id => { at[id] = { ...cy.getElementById(id).position() }; });
+      const copied = copyNodes(ids, all, allEdges, at);
+      e.preventDefault();
+      e.clipboardData.setData(CLIPBOARD_MIME, serializeCopied(copied));
+      e.clipboardData.setData('text/plain', toOutline(copied));
+      if (e.type === 'cut') deleteNodes(ids, [], ids.length === 1 ? 'Cut node' : 'Cut nodes');
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || !isCanvasKeyTarget(e.target, container)) return;
+      const copied = readClipboard(e.clipboardData);
+      if (!copied) return;
+      e.preventDefault();
+      handlePasteNodes(copied);
+    };
+    cy.on('mousemove', trackPointer);
+    container.addEventListener('mouseleave', forgetPointer);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      cy.removeListener('mousemove', trackPointer);
+      container.removeEventListener('mouseleave', forgetPointer);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [nodes]);
+
+  // Keep selectedIds in sync with the canvas selection
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const updateSelection = debounce(() => {
+      setSelectedIds(cy.nodes('[!isCluster]:selected').map((ele: any) => ele.id()));
+    }, 10);
+    // Deleted nodes leave the selection without an "unselect" event
+    cy.on('select unselect remove', 'node', updateSelection);
+    return () => {
+      cy.removeListener('select unselect remove', 'node', updateSelection);
+    };
+  }, [nodes]);
+
+  // --- Remember node positions and the camera ---
+  // Whenever the user drags a node or a layout finishes, copy the positions into the store
+  // (so they are saved with the map). Zoom/pan changes are stored the same way.
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const storePositions = () => {
+      const next: { [id: string]: { x: number; y: number } } = {};
+      cy.nodes('[!isCluster]').forEach((ele: any) => {
+        const { x, y } = ele.position();
+        next[ele.id()] = { x, y };
+      });
+      setPositions(next);
+    };
+    const storeViewport = debounce(() => {
+      setViewport({ zoom: cy.zoom(), pan: { ...cy.pan() } });
+    }, 200);
+    cy.on('dragfree layoutstop', storePositions);
+    cy.on('viewport', storeViewport);
+    return () => {
+      cy.removeListener('dragfree', storePositions);
+      cy.removeListener('layoutstop', storePositions);
+      cy.removeListener('viewport', storeViewport);
+    };
+  }, [nodes, edges]);
+
+  // --- Node details panel ---
+  // Clicking a node opens its details; clicking the background closes them.
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const onTap = (evt: any) => {
+      if (evt.target === cy) setDetailsNodeId(null);
+      else if (evt.target.isNode?.() && !evt.target.data('isCluster')) setDetailsNodeId(evt.target.id());
+    };
+    cy.on('tap', onTap);
+    return () => {
+      cy.removeListener('tap', onTap);
+    };
+  }, [nodes]);
+
+  // Jump to a node: select it, center the camera on it, and show its details
+  const handleNavigateToNode = (nodeId: string) => {
+    const cy = cyRef.current;
+    setDetailsNodeId(nodeId);
+    if (!cy) return;
+    const ele = cy.getElementById(nodeId);
+    if (ele.empty()) return;
+    cy.elements().unselect();
+    ele.select();
+    cy.animate({ center: { eles: ele }, zoom: Math.max(cy.zoom(), 1) }, { duration: 300 });
+  };
+
+  // --- Draw clusters as compound ("parent") nodes around their members ---
+  // The cluster boxes are managed here instead of in `elements`: react-cytoscapejs can't
+  // change a node's parent, and removing a parent node would remove its children with it.
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const wanted = new Map(
+      mapClusters
+        .filter(c => nodes.some(n => n.clusterId === c.id))
+        .map(c => [`cluster:${c.id}`, c]),
+    );
+    cy.batch(() => {
+      wanted.forEach((cluster, id) => {
+        const ele = cy.getElementById(id);
+        if (ele.empty()) cy.add({ group: 'nodes', data: { id, label: cluster.name, color: cluster.color, isCluster: true } });
+        else ele.data({ label: cluster.name, color: cluster.color });
+      });
+      nodes.forEach(n => {
+        const ele = cy.getElementById(n.id);
+        if (ele.empty()) return;
+        const parentId = n.clusterId && wanted.has(`cluster:${n.clusterId}`) ? `cluster:${n.clusterId}` : null;
+        const currentParent = ele.parent().nonempty() ? ele.parent().id() : null;
+        if (currentParent !== parentId) (ele as any).move({ parent: parentId });
+      });
+      // Members were moved out above, so removing an old box leaves its nodes alone
+      cy.nodes('[?isCluster]').forEach((ele: any) => {
+        if (!wanted.has(ele.id())) cy.remove(ele);
+      });
+    });
+  }, [nodes, mapClusters]);
+
+  // Hide a cluster box when every node in it is hidden (collapsed or out of focus)
+  // (runs after every render, but only touches the box when that actually changes)
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    cy.nodes('[?isCluster]').forEach((ele: any) => {
+      const hide = ele.children('[!hidden]').empty();
+      if (!!ele.data('hidden') !== hide) ele.data('hidden', hide);
+    });
+  });
+
+  // Zoom to what's left whenever focus mode starts, moves, or ends
+  const wasFocusedRef = useRef(false);
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || nodes.length === 0 || (!focus && !wasFocusedRef.current)) return;
+    wasFocusedRef.current = !!focus;
+    cy.animate({ fit: { eles: cy.nodes(':visible'), padding: 80 }, duration: 400 });
+  }, [focus?.nodeId, focus?.hops]);
+
+  // Restore the saved view when a map is loaded from the dashboard
+  useEffect(() => {
+    setFocus(null);
+    // Only act if a map is loaded (not on initial empty state)
     if (selectedMapId && nodes.length > 0) {
-      // Debounce to avoid running too often
+      // Wait a moment so Cytoscape has drawn the nodes first
       const timeout = setTimeout(() => {
-        handleReformat();
+        const cy = cyRef.current;
+        if (!cy) return;
+        // Older maps were saved without positions: lay them out once
+        if (!nodes.some(n => positions[n.id])) {
+          handleReformat();
+          return;
+        }
+        if (viewport) cy.viewport({ zoom: viewport.zoom, pan: viewport.pan });
+        else cy.fit(undefined, 80);
       }, 200);
       return () => clearTimeout(timeout);
     }
   }, [selectedMapId]);
 
+  // Jump to a node picked in the Dashboard's search (it's passed along as router state)
+  const location = useLocation();
+  useEffect(() => {
+    const nodeId = (location.state as { nodeId?: string } | null)?.nodeId;
+    if (!nodeId) return;
+    // After the saved view has been restored (see above)
+    const timeout = setTimeout(() => {
+      if (collapsed.length || focus) {
+        setFocus(null);
+        setCollapsed(collapsed.filter(id => !getDescendantIds(id, edges).has(nodeId)));
+      }
+      handleNavigateToNode(nodeId);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [location.key]);
+
+  // --- Live maps ---
+  // An invite link (/editor?live=<map name>&owner=<user id>) opens that map live, even if we don't have it yet
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const name = params.get('live');
+    const ownerId = params.get('owner') ?? user?.id;
+    if (!name || !ownerId) return;
+    joinedFromLinkRef.current = true;
+    const join = () => {
+      setSelectedMapId(name);
+      setLiveMap({ name, ownerId });
+    };
+    if (ownerId === user?.id) {
+      loadMap(name).finally(join);
+    } else {
+      // Someone else's map: our own map of the same name (if any) is a different one, so start empty
+      useMindMapStore.getState().reset();
+      join();
+    }
+  }, [location.search]);
+
+  // Opening or saving another map leaves the live one
+  useEffect(() => {
+    if (liveMap && selectedMapId !== liveMap.name) setLiveMap(null);
+  }, [selectedMapId]);
+
+  // --- Version history ---
+  // Handler: compare two versions (null = the current map) over the canvas
+  const handleCompareVersions = (from: MapSnapshot | null, to: MapSnapshot | null) => {
+    const current = useMindMapStore.getState();
+    // The canvas underneath keeps its key shortcuts, so leave nothing selected for them to act on
+    cyRef.current?.elements().unselect();
+    const label = (snapshot: MapSnapshot | null) =>
+      snapshot ? `${snapshot.reason} · ${new Date(snapshot.createdAt).toLocaleString()}` : 'Current map';
+    setVersionDiff({
+      diff: diffMaps(from ?? current, to ?? current),
+      fromLabel: label(from),
+      toLabel: label(to),
+      // Only snapshots can be restored (the current map is already on the canvas)
+      restorable: from && to
+        ? [{ label: 'older', snapshot: from }, { label: 'newer', snapshot: to }]
+        : [from ?? to].filter((s): s is MapSnapshot => !!s).map(snapshot => ({ label: 'this version', snapshot })),
+    });
+  };
+
+  // Handler: bring back an old version (one undoable step)
+  const handleRestoreSnapshot = async (snapshot: MapSnapshot) => {
+    setVersionDiff(null);
+    await restoreSnapshot(snapshot);
+    setTimeout(() => cyRef.current?.fit(undefined, 80), 0);
+  };
+
+  // Another map was opened: its versions aren't the ones being compared
+  useEffect(() => {
+    setVersionDiff(null);
+  }, [selectedMapId]);
+
+  // Coming from an invite link: show the whole map once it has arrived
+  useEffect(() => {
+    if (collab.status !== 'live' || !joinedFromLinkRef.current) return;
+    joinedFromLinkRef.current = false;
+    const timeout = setTimeout(() => cyRef.current?.fit(undefined, 80), 200);
+    return () => clearTimeout(timeout);
+  }, [collab.status]);
+
+  // Tell the others what we have selected...
+  useEffect(() => {
+    collab.setPresence({ selection: selectedIds });
+  }, [selectedIds, liveMap]);
+
+  // ...and where our mouse is
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || !liveMap) return;
+    const container: HTMLElement = cy.container();
+    const onMove = (evt: any) => collab.setPresence({ cursor: { x: evt.position.x, y: evt.position.y } });
+    const onLeave = () => collab.setPresence({ cursor: null });
+    cy.on('mousemove', onMove);
+    container.addEventListener('mouseleave', onLeave);
+    return () => {
+      cy.removeListener('mousemove', onMove);
+      container.removeEventListener('mouseleave', onLeave);
+    };
+  }, [nodes.length > 0, liveMap]);
+
+  // Group the nodes on the canvas using the AI's clusters
+  // ("Other" holds nodes that fit nowhere, so those simply stay ungrouped)
+  const handleApplyClusters = () => {
+    if (!clusters) return;
+    snapshotMap('Before AI: Apply clusters');
+    applyClusters(clusters.filter((c: any) => c.name !== 'Other'));
+    setClusterOpen(false);
+    setTimeout(() => handleReformat(), 0);
+  };
+
   const handleSemanticClustering = async () => {
     setClusterLoading(true);
     setClusterError(null);
     setClusters(null);
     try {
-      const res = await fetch(`${API_URL}/api/maps/semantic-clusters`, {
+      const res = await apiFetch(`/api/maps/semantic-clusters`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ nodes, edges, detailLevel })
       });
-      if (!res.ok) throw new Error('Failed to get clusters');
+      if (!res.ok) throw await readApiError(res);
       const data = await res.json();
       setClusters(data.clusters);
       setClusterOpen(true);
@@ -649,34 +1589,48 @@ export default function MindMap() {
             className="w-full min-h-[400px] p-4 border-2 border-blue-100 rounded-2xl bg-blue-50 focus:border-pink-300 focus:ring-2 focus:ring-pink-100 text-lg transition"
             placeholder="Try 'Planning a creative project', 'Understanding climate anxiety', or 'Exploring childhood memories'"
             value={input}
-            onChange={e => {
-              const value = e.target.value;
-              if (countTokens(value) <= TOKEN_LIMIT) {
-                setInput(value);
-              } else {
-                // Optionally, allow up to the limit only
-                const words = value.trim().split(/\s+/).filter(Boolean).slice(0, TOKEN_LIMIT);
-                setInput(words.join(' '));
-              }
-            }}
+            onChange={e => setInput(e.target.value)}
             disabled={loading}
           />
           <div className="flex items-center justify-between mt-1 text-sm">
-            <span className={isTokenLimitExceeded ? 'text-red-600 font-semibold' : 'text-gray-500'}>
-              Tokens: {tokenCount} / {TOKEN_LIMIT}
+            <span className={isWordLimitExceeded ? 'text-red-600 font-semibold' : 'text-gray-500'}>
+              Words: {wordCount} / {WORD_LIMIT}
             </span>
-            {isTokenLimitExceeded && (
-              <span className="text-red-600 font-semibold ml-2">Token limit reached</span>
+            {isWordLimitExceeded ? (
+              <span className="text-red-600 font-semibold ml-2">Word limit reached</span>
+            ) : wordCount > CHUNK_WORDS && (
+              <span className="text-gray-500 ml-2">Long notes are mapped in ~{Math.ceil(wordCount / CHUNK_WORDS)} parts</span>
             )}
           </div>
           <div className="flex flex-col gap-2">
             <button
               type="submit"
               className="px-5 py-2 bg-blue-600 text-white rounded-full font-semibold shadow hover:bg-blue-700 transition disabled:opacity-50"
-              disabled={loading || !input.trim() || isTokenLimitExceeded}
+              disabled={loading || mergeLoading || !input.trim() || isWordLimitExceeded}
             >
-              <span className="text-white">{loading ? 'Generating...' : 'Generate Mind Map'}</span>
+              <span className="text-white">{loading ? `Generating${progress ? ` part ${progress.part}/${progress.parts}` : ''}... (${nodes.length} node${nodes.length !== 1 ? 's' : ''})` : 'Generate Mind Map'}</span>
             </button>
+            {loading && (
+              <button
+                type="button"
+                className="px-5 py-2 bg-white text-red-600 border border-red-200 rounded-full font-semibold shadow hover:bg-red-50 transition"
+                onClick={handleCancelGenerate}
+              >
+                Cancel
+              </button>
+            )}
+            {/* Add the notes to the map that's already on screen, instead of starting over */}
+            {nodes.length > 0 && !loading && (
+              <button
+                type="button"
+                className="px-5 py-2 bg-white text-blue-700 border border-blue-200 rounded-full font-semibold shadow hover:bg-blue-50 transition disabled:opacity-50"
+                onClick={handleMergeNotes}
+                disabled={mergeLoading || !!mergeDiff || !input.trim() || isWordLimitExceeded}
+                title="Merge these notes into the current map (you review the changes first)"
+              >
+                {mergeLoading ? 'Merging...' : 'Add to Current Map'}
+              </button>
+            )}
             <div className="flex gap-2 flex-row mt-0 w-full">
               {SAMPLE_PROMPTS.map((prompt, i) => (
                 <button
@@ -692,7 +1646,7 @@ export default function MindMap() {
               <button
                 type="button"
                 className="px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-semibold shadow hover:bg-gray-200 transition flex-1"
-                onClick={handleReformat}
+                onClick={() => handleReformat()}
                 disabled={nodes.length === 0}
               >
                 Reformat
@@ -719,8 +1673,8 @@ export default function MindMap() {
         </form>
         {/* Sample prompts below textarea */}
         {error && <div className="text-red-600 bg-white rounded shadow p-2 mt-2">{error}</div>}
-        {/* Generate Insight and Semantic Clustering buttons */}
-        <div className="flex gap-2 mt-2">
+        {/* AI analysis buttons: Insight, Semantic Clustering, Connect the Dots */}
+        <div className="flex flex-wrap gap-2 mt-2">
           <button
             className="px-5 py-2 bg-purple-500 text-white rounded-full font-semibold shadow hover:bg-purple-600 w-fit transition flex items-center gap-2"
             onClick={handleGenerateInsight}
@@ -739,6 +1693,15 @@ export default function MindMap() {
             <SparklesIcon className="w-5 h-5" />
             {clusterLoading ? 'Clustering...' : 'Semantic Clustering'}
           </button>
+          <button
+            className="px-5 py-2 bg-orange-500 text-white rounded-full font-semibold shadow hover:bg-orange-600 w-fit transition flex items-center gap-2"
+            onClick={handleSuggestLinks}
+            disabled={linksLoading || nodes.length < 2}
+            title="Find related ideas that aren't connected yet"
+          >
+            <SparklesIcon className="w-5 h-5" />
+            {linksLoading ? 'Connecting...' : 'Connect the Dots'}
+          </button>
         </div>
         {/* Insight panel below the button */}
         {insightOpen && (
@@ -797,10 +1760,20 @@ export default function MindMap() {
                     )}
                   </div>
                 ))}
+                {clusters.length > 0 && (
+                  <button
+                    className="px-4 py-2 bg-blue-600 text-white rounded-full font-semibold shadow hover:bg-blue-700 transition"
+                    onClick={handleApplyClusters}
+                    title="Group the nodes on the map into these clusters"
+                  >
+                    Apply to Map
+                  </button>
+                )}
               </div>
             )}
           </div>
         )}
+        <ClusterPanel />
       </div>
       {/* Right: Main Map Area */}
       <div className="flex-1 flex flex-col bg-white min-h-0">
@@ -813,6 +1786,57 @@ export default function MindMap() {
             </div>
           ) : (
             <div ref={containerRef} className="relative w-full h-full flex-1 min-h-0">
+              {/* Undo/redo toolbar */}
+              <div className="absolute top-4 left-4 z-40 flex gap-1 bg-white/90 border border-gray-200 rounded-full shadow px-2 py-1">
+                <button
+                  type="button"
+                  className="p-1 rounded-full hover:bg-gray-100 disabled:opacity-30"
+                  onClick={undo}
+                  disabled={past.length === 0}
+                  title={past.length ? `Undo ${past[past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <ArrowUturnLeftIcon className="w-5 h-5" />
+                </button>
+                <button
+                  type="button"
+                  className="p-1 rounded-full hover:bg-gray-100 disabled:opacity-30"
+                  onClick={redo}
+                  disabled={future.length === 0}
+                  title={future.length ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <ArrowUturnRightIcon className="w-5 h-5" />
+                </button>
+                <LayoutMenu
+                  layout={layout}
+                  nodes={nodes}
+                  selectedCount={selectedIds.length}
+                  pinnedCount={pinned.filter(id => nodes.some(n => n.id === id)).length}
+                  onApply={handleReformat}
+                  onPinSelected={handlePinSelected}
+                  disabled={nodes.length === 0}
+                />
+                <ExportMenu onExport={handleExport} disabled={nodes.length === 0} />
+                <CollabPanel
+                  mapName={selectedMapId}
+                  ownerId={liveMap?.ownerId ?? user?.id ?? null}
+                  canInvite={Boolean(user) && (!liveMap || liveMap.ownerId === user?.id)}
+                  status={collab.status}
+                  peers={collab.peers}
+                  name={collab.identity.name}
+                  color={collab.identity.color}
+                  onNameChange={name => collab.setIdentity({ name })}
+                  onToggle={live => setLiveMap(live && selectedMapId && user ? { name: selectedMapId, ownerId: user.id } : null)}
+                />
+                <HistoryPanel mapName={selectedMapId} onCompare={handleCompareVersions} onRestore={handleRestoreSnapshot} />
+                <button
+                  type="button"
+                  className="p-1 rounded-full hover:bg-gray-100"
+                  onClick={() => setShowShortcuts(true)}
+                  title="Keyboard shortcuts (?)"
+                >
+                  <QuestionMarkCircleIcon className="w-5 h-5" />
+                </button>
+              </div>
               <CytoscapeComponent
                 cy={(cy: Cytoscape.Core) => {
                   cyRef.current = cy;
@@ -858,6 +1882,82 @@ export default function MindMap() {
                       'text-decoration': 'underline dotted',
                     },
                   },
+                  // Per-node styles (see NodeStyle); they come after aiSuggested so a chosen color wins
+                  {
+                    selector: 'node[?color][!isCluster]',
+                    style: { 'background-color': 'data(color)' },
+                  },
+                  {
+                    selector: 'node[?shape]',
+                    style: { 'shape': 'data(shape)' },
+                  },
+                  {
+                    selector: 'node[size = "small"]',
+                    style: { 'width': 90, 'height': 36, 'font-size': 12, 'text-max-width': 76 },
+                  },
+                  {
+                    selector: 'node[size = "large"]',
+                    style: { 'width': 170, 'height': 72, 'font-size': 20, 'text-max-width': 150 },
+                  },
+                  {
+                    selector: 'node[?bold]',
+                    style: { 'font-weight': 'bold' },
+                  },
+                  {
+                    selector: 'node[?done]',
+                    style: { 'text-decoration': 'line-through', 'opacity': 0.55 },
+                  },
+                  {
+                    // Pinned nodes (layouts leave them alone) get a dashed amber border
+                    selector: 'node[?pinned]',
+                    style: { 'border-width': 3, 'border-color': '#f59e0b', 'border-style': 'dashed' },
+                  },
+                  {
+                    // Collapsed nodes get a thick border; the "+N" badge is drawn over the canvas
+                    selector: 'node[?collapsed]',
+                    style: { 'border-width': 4, 'border-color': '#1e3a8a', 'border-style': 'double' },
+                  },
+                  {
+                    // Search hits glow yellow; the one we jumped to is orange
+                    selector: 'node[?searchHit]',
+                    style: { 'border-width': 4, 'border-color': '#facc15', 'border-style': 'solid' },
+                  },
+                  {
+                    // Selected by someone else on a live map: a glow in their color
+                    selector: 'node[?remoteColor]',
+                    style: {
+                      'underlay-color': 'data(remoteColor)',
+                      'underlay-opacity': 0.45,
+                      'underlay-padding': 8,
+                    },
+                  },
+                  {
+                    selector: 'node[?searchCurrent]',
+                    style: { 'border-width': 6, 'border-color': '#f97316', 'border-style': 'solid' },
+                  },
+                  {
+                    // Inside a collapsed subtree or outside the focus (edges to them disappear too)
+                    selector: 'node[?hidden]',
+                    style: { 'display': 'none' },
+                  },
+                  {
+                    // Cluster boxes (compound nodes), colored per cluster
+                    selector: 'node[?isCluster]',
+                    style: {
+                      'background-color': 'data(color)',
+                      'background-opacity': 0.12,
+                      'border-color': 'data(color)',
+                      'border-width': 2,
+                      'color': 'data(color)',
+                      'font-size': 18,
+                      'font-weight': 'bold',
+                      'text-valign': 'top',
+                      'text-halign': 'center',
+                      'text-margin-y': -6,
+                      'padding': '24px',
+                      'shape': 'roundrectangle',
+                    },
+                  },
                   {
                     selector: 'edge',
                     style: {
@@ -868,6 +1968,40 @@ export default function MindMap() {
                       'curve-style': 'bezier',
                     },
                   },
+                  {
+                    // Relation labels, written along the edge
+                    selector: 'edge[?label]',
+                    style: {
+                      'label': 'data(label)',
+                      'font-size': 12,
+                      'color': '#4b5563',
+                      'text-rotation': 'autorotate',
+                      'text-background-color': '#ffffff',
+                      'text-background-opacity': 0.85,
+                      'text-background-padding': '2px',
+                    },
+                  },
+                  // One look per relation type, so the kind of link can be read at a glance
+                  {
+                    selector: 'edge[relation = "causes"]',
+                    style: { 'line-color': '#f97316', 'target-arrow-color': '#f97316', 'target-arrow-shape': 'triangle-backcurve' },
+                  },
+                  {
+                    selector: 'edge[relation = "supports"]',
+                    style: { 'line-color': '#22c55e', 'target-arrow-color': '#22c55e' },
+                  },
+                  {
+                    selector: 'edge[relation = "contradicts"]',
+                    style: { 'line-color': '#ef4444', 'target-arrow-color': '#ef4444', 'target-arrow-shape': 'tee', 'line-style': 'dashed' },
+                  },
+                  {
+                    selector: 'edge[relation = "example-of"]',
+                    style: { 'line-color': '#8b5cf6', 'target-arrow-color': '#8b5cf6', 'target-arrow-shape': 'vee', 'line-style': 'dotted', 'width': 2 },
+                  },
+                  {
+                    selector: 'edge[relation = "part-of"]',
+                    style: { 'line-color': '#0ea5e9', 'target-arrow-color': '#0ea5e9', 'target-arrow-shape': 'diamond', 'target-arrow-fill': 'hollow' },
+                  },
                   {
                     selector: 'edge[newEdge]',
                     style: {
@@ -891,45 +2025,166 @@ export default function MindMap() {
                 minZoom={0.2}
                 maxZoom={2}
                 wheelSensitivity={1}
+                boxSelectionEnabled
               />
-              {/* Edge context menu */}
-              {edgeMenu && (
-                <div
-                  style={{
-                    position: 'fixed',
-                    left: edgeMenu.x,
-                    top: edgeMenu.y,
-                    zIndex: 1000,
-                    background: 'white',
-                    border: '1px solid #d1d5db',
-                    borderRadius: 8,
-                    boxShadow: '0 2px 8px rgba(0,0,0,0.12)',
-                    minWidth: 120,
-                    padding: 8,
-                  }}
-                  onClick={e => e.stopPropagation()}
+              {/* Edge context menu (keyed by edge, so it starts fresh for each one) */}
+              {edgeMenu && edges.some(e => getEdgeId(e) === edgeMenu.id) && (
+                <EdgeMenu
+                  key={edgeMenu.id}
+                  edge={edges.find(e => getEdgeId(e) === edgeMenu.id)!}
+                  x={edgeMenu.x}
+                  y={edgeMenu.y}
+                  onChange={changes => updateEdge(edgeMenu.id, changes)}
+                  onDelete={handleDeleteEdgeMenu}
+                />
+              )}
+              {detailsNodeId && nodes.some(n => n.id === detailsNodeId) && (
+                <NodeDetailsPanel
+                  node={nodes.find(n => n.id === detailsNodeId)!}
+                  onNavigate={handleNavigateToNode}
+                  onClose={() => setDetailsNodeId(null)}
+                />
+              )}
+              {nodes.length > 0 && <ColorLegend legend={nodeColors.legend} />}
+              {liveMap && <RemoteCursors cy={cyRef.current} peers={collab.peers} />}
+              {versionDiff && (
+                <VersionDiffView
+                  {...versionDiff}
+                  onRestore={handleRestoreSnapshot}
+                  onClose={() => setVersionDiff(null)}
+                />
+              )}
+              {/* Bulk actions while several nodes are selected */}
+              {selectedNodes.length > 1 && (
+                <SelectionBar
+                  nodes={selectedNodes}
+                  clusters={mapClusters}
+                  onDelete={() => deleteNodes(selectedNodes.map(n => n.id))}
+                  onStyle={changes => styleNodes(selectedNodes.map(n => n.id), changes)}
+                  onMoveToCluster={clusterId => moveToCluster(selectedNodes.map(n => n.id), clusterId)}
+                  onNewCluster={() => createCluster('New cluster', selectedNodes.map(n => n.id))}
+                  onDuplicate={() => handleDuplicate(selectedNodes.map(n => n.id))}
+                  onSuggestChildren={() => handleSuggestChildren(selectedNodes.map(n => n.id))}
+                  onMerge={handleMergeSelected}
+                  onClear={handleClearSelection}
+                  loading={suggestLoading}
+                  error={suggestError}
+                />
+              )}
+              {/* In-place rename box, laid over the node */}
+              {inlineRename && (() => {
+                const ele = cyRef.current?.getElementById(inlineRename.nodeId);
+                if (!ele || ele.empty()) return null;
+                const box = ele.renderedBoundingBox();
+                return (
+                  <input
+                    className="absolute z-40 border-2 border-blue-400 rounded px-2 py-1 text-sm shadow"
+                    style={{ left: box.x1, top: box.y1 + box.h / 2 - 16, width: Math.max(box.w, 160) }}
+                    value={inlineRename.value}
+                    autoFocus
+                    onFocus={e => e.target.select()}
+                    onChange={e => setInlineRename({ ...inlineRename, value: e.target.value })}
+                    onBlur={commitInlineRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitInlineRename();
+                      else if (e.key === 'Escape') setInlineRename(null);
+                      else if (e.key === 'Tab') {
+                        // Keep going: save this name and add a child to it
+                        e.preventDefault();
+                        commitInlineRename();
+                        handleAddRelative(inlineRename.nodeId, 'child');
+                      }
+                    }}
+                  />
+                );
+              })()}
+              {searchOpen && (
+                <SearchBar
+                  query={searchQuery}
+                  onQueryChange={q => { setSearchQuery(q); setSearchIndex(0); }}
+                  hits={searchHits}
+                  current={searchIndex}
+                  onStep={handleSearchStep}
+                  onClose={handleCloseSearch}
+                />
+              )}
+              {/* "+N" badges on collapsed nodes; click one to expand it again */}
+              {collapsedIds.filter(id => hiddenCounts[id] && !hiddenIds.has(id) && nodeIconPositions[id]).map(id => (
+                <button
+                  key={id}
+                  className="absolute z-30 bg-blue-900 text-white text-xs font-semibold rounded-full px-2 py-0.5 shadow hover:bg-blue-700"
+                  style={{ left: nodeIconPositions[id].x - 14, top: nodeIconPositions[id].y - 6 }}
+                  onClick={() => handleToggleCollapse(id)}
+                  title={`${hiddenCounts[id]} hidden node${hiddenCounts[id] !== 1 ? 's' : ''}: click to expand`}
                 >
-                  <button
-                    className="w-full text-left px-3 py-2 rounded hover:bg-red-50 text-red-600"
-                    onClick={handleDeleteEdgeMenu}
+                  +{hiddenCounts[id]}
+                </button>
+              ))}
+              {/* Focus mode breadcrumbs: the path from the root to the focused node */}
+              {activeFocus && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 bg-white/95 border border-gray-200 rounded-full shadow px-3 py-1 text-sm max-w-[60%]">
+                  <button className="text-blue-600 hover:underline shrink-0" onClick={() => setFocus(null)}>Full map</button>
+                  {[...getAncestorIds(activeFocus.nodeId, edges), activeFocus.nodeId].map(id => (
+                    <React.Fragment key={id}>
+                      <span className="text-gray-400">›</span>
+                      {id === activeFocus.nodeId
+                        ? <span className="font-semibold text-gray-800 truncate">{nodes.find(n => n.id === id)?.label}</span>
+                        : <button className="text-blue-600 hover:underline truncate" onClick={() => setFocus({ ...activeFocus, nodeId: id })}>{nodes.find(n => n.id === id)?.label}</button>}
+                    </React.Fragment>
+                  ))}
+                  <select
+                    className="ml-2 border rounded px-1 text-xs shrink-0"
+                    value={activeFocus.hops}
+                    onChange={e => setFocus({ ...activeFocus, hops: Number(e.target.value) })}
+                    title="How far from the focused node to show"
                   >
-                    Delete Edge
+                    {[1, 2, 3, 4].map(h => <option key={h} value={h}>{h} hop{h > 1 ? 's' : ''}</option>)}
+                  </select>
+                  <button className="text-gray-400 hover:text-gray-600 shrink-0" onClick={() => setFocus(null)} title="Exit focus">
+                    <XMarkIcon className="w-4 h-4" />
                   </button>
                 </div>
               )}
+              {suggestedLinks && (
+                <LinkSuggestionsPanel
+                  links={suggestedLinks}
+                  nodes={nodes}
+                  onAccept={handleAcceptLink}
+                  onReject={handleRejectLink}
+                  onDismiss={() => setSuggestedLinks(null)}
+                />
+              )}
+              {mergeDiff && (
+                <MergeReviewPanel
+                  diff={mergeDiff}
+                  nodes={nodes}
+                  onAccept={handleAcceptMerge}
+                  onDiscard={() => setMergeDiff(null)}
+                />
+              )}
               {suggestedNodes && (
-                <div className="absolute top-8 right-8 z-50 bg-white border border-blue-200 rounded shadow-lg p-4 flex flex-col gap-2 min-w-[260px]">
+                <div className="absolute top-8 right-8 z-50 bg-white border border-blue-200 rounded shadow-lg p-4 flex flex-col gap-2 min-w-[260px] max-w-[360px]">
                   <div className="flex items-center gap-2 mb-2">
                     <SparklesIcon className="w-5 h-5 text-blue-500" />
                     <span className="italic text-blue-700">AI-suggested children</span>
                   </div>
                   <ul className="mb-2">
                     {suggestedNodes.nodes.map(n => (
-                      <li key={n.id} className="flex items-center gap-2 italic text-gray-700">
-                        <SparklesIcon className="w-4 h-4 text-blue-400" />
-                        <span>{n.label}</span>
+                      <li key={n.id} className="flex items-start gap-2 text-gray-700 mb-1">
+                        <SparklesIcon className="w-4 h-4 text-blue-400 mt-1 shrink-0" />
+                        <span>
+                          <span className="italic">{n.label}</span>
+                          {suggestedNodes.rationales[n.id] && (
+                            <span className="block text-xs text-gray-500">{suggestedNodes.rationales[n.id]}</span>
+                          )}
+                        </span>
                       </li>
                     ))}
+                    {suggestedNodes.nodes.length === 0 && (
+                      <li className="text-sm text-gray-500">
+                        No new ideas: {suggestedNodes.parentIds.length > 1 ? 'these nodes already cover' : 'this node already covers'} what the AI suggested.
+                      </li>
+                    )}
                   </ul>
                   <div className="flex gap-2">
                     <button className="flex-1 flex items-center justify-center gap-1 px-3 py-1 bg-blue-600 text-white rounded shadow hover:bg-blue-700" onClick={handleAcceptSuggestions}>
@@ -957,7 +2212,17 @@ export default function MindMap() {
                   setAddEdgeSource(menuNode);
                   setMenuNode(null);
                 }}
-                onSuggestChildren={() => handleSuggestChildren(menuNode)}
+                onSuggestChildren={() => handleSuggestChildren([menuNode])}
+                clusters={mapClusters}
+                onMoveToCluster={clusterId => moveToCluster([menuNode], clusterId)}
+                onNewCluster={() => createCluster('New cluster', [menuNode])}
+                onStyle={changes => styleNodes(getStyleTargets(menuNode), changes)}
+                collapsed={collapsed.includes(menuNode)}
+                descendantCount={getDescendantIds(menuNode, edges).size}
+                onToggleCollapse={() => { handleToggleCollapse(menuNode); setMenuNode(null); }}
+                onFocus={() => { setFocus({ nodeId: menuNode, hops: focus?.hops ?? 2 }); setMenuNode(null); }}
+                onDuplicateBranch={() => { handleDuplicate([menuNode, ...getDescendantIds(menuNode, edges)]); setMenuNode(null); }}
+                styleCount={getStyleTargets(menuNode).length}
                 loading={suggestLoading}
                 error={suggestError}
               />
@@ -1008,6 +2273,7 @@ export default function MindMap() {
               >Add Node</button>
             </div>
           </Dialog>
+          <ShortcutsDialog open={showShortcuts} onClose={() => setShowShortcuts(false)} />
           <Dialog open={showInfo} onClose={() => setShowInfo(false)} className="fixed inset-0 z-50 flex items-center justify-center">
             <div className="fixed inset-0 bg-black bg-opacity-30" aria-hidden="true" />
             <div className="bg-white rounded shadow-lg p-6 max-w-md relative z-10">
@@ -1015,22 +2281,41 @@ export default function MindMap() {
               <Dialog.Title className="text-xl font-bold mb-2">How to use the Mind Map Editor</Dialog.Title>
               <ul className="list-disc pl-5 space-y-2 text-gray-700 mb-2">
                 <li><b>Enter or paste your thoughts</b> in the large text area on the left. This can be a stream of consciousness, notes, or any ideas you want to map out.</li>
-                <li><b>Generate Mind Map</b>: Click this button to turn your text into a visual mind map. The AI will analyze your input and create nodes and connections based on your ideas.</li>
+                <li><b>Generate Mind Map</b>: Click this button to turn your text into a visual mind map. The AI will analyze your input and create nodes and connections based on your ideas. Nodes appear as soon as the AI writes them; press <b>Cancel</b> to stop early and keep what you have.</li>
+                <li><b>Add to Current Map</b>: Adds the ideas from your new notes to the map that's already open. The AI proposes new nodes and links (and sometimes renames or merges of existing nodes); untick anything you don't want, then press <b>Accept</b>.</li>
                 <li><b>Sample Prompts</b>: Use these for inspiration or to quickly see how the mind map works. Clicking a sample will fill the text area for you.</li>
-                <li><b>Reformat</b>: If your map looks cluttered or you want to spread out the nodes, click this to automatically rearrange everything for maximum clarity and minimal edge overlap.</li>
+                <li><b>Reformat</b>: If your map looks cluttered or you want to spread out the nodes, click this to automatically rearrange everything with the map's layout. Saved maps keep your own arrangement and zoom until you reformat.</li>
+                <li><b>Layout</b> (<Squares2X2Icon className="inline w-4 h-4 align-text-bottom" />): Choose how the map is arranged: a <b>radial</b> mind map around a root, a <b>left-to-right</b> or <b>top-down</b> tree, <b>concentric</b> rings (most connected in the middle), or the <b>force-directed</b> layout. Radial and tree layouts always give the same picture for the same map. Tick "Only the selected nodes" to rearrange just part of the map, and <b>pin</b> selected nodes (dashed amber border) so layouts leave them where they are.</li>
                 <li><b>Reset</b>: Clears the current mind map and text area so you can start fresh.</li>
+                <li><b>Undo/Redo</b> (<ArrowUturnLeftIcon className="inline w-4 h-4 align-text-bottom" /> <ArrowUturnRightIcon className="inline w-4 h-4 align-text-bottom" />): Step back and forward through your edits, or press <kbd>Ctrl+Z</kbd> / <kbd>Ctrl+Shift+Z</kbd>.</li>
                 <li><b>Save Map</b> (<BookmarkIcon className="inline w-4 h-4 align-text-bottom" />): Save your current mind map for later. You can load saved maps from the dashboard.</li>
+                <li><b>Export</b>: Use the download button above the map to save it as a PNG (pick a resolution), a vector SVG, or a print-ready PDF.</li>
+                <li><b>Semantic Clustering</b>: The AI groups related nodes. Press <b>Apply to Map</b> to draw each group as a colored box; rename or dissolve groups in the "Clusters on the map" list. Clusters are saved with the map.</li>
+                <li><b>Connect the Dots</b>: The AI looks for related ideas that aren't connected yet. Each suggestion appears as a dashed orange line with its relation and confidence; accept (✓) or reject (✕) them one at a time.</li>
                 <li><b>Insight</b> (<SparklesIcon className="inline w-4 h-4 align-text-bottom" />): Get an AI-generated analysis of your mind map, including high-level insights, potential blind spots, and key patterns.</li>
+                <li><b>Keyboard</b>: Click a node, then press <kbd>Tab</kbd> to add a child, <kbd>Enter</kbd> to add a sibling, the arrow keys to move to the next node, <kbd>F2</kbd> to rename, and <kbd>Delete</kbd> to delete (undo brings it back). Press <kbd>?</kbd> for the full list.</li>
+                <li><b>Selecting several nodes</b>: <kbd>Shift</kbd>+click nodes, or hold <kbd>Shift</kbd> and drag a box around them. A toolbar appears at the bottom to delete, color, bold or mark them done, move them into a cluster, <b>duplicate</b> them (with the links between them), ask the AI for children of each, or <b>merge</b> them into one node: labels, summaries, notes, and tags are combined and all their links move to the node you keep. Each of these is one step to undo.</li>
+                <li><b>Copy &amp; paste</b>: Select nodes and press <kbd>Ctrl+C</kbd> (or <kbd>Ctrl+X</kbd> to cut), then <kbd>Ctrl+V</kbd> to paste them under the mouse, with the links between them. This also works in another map, and in other apps (you get an indented outline). You can paste an outline from anywhere, too: each line becomes a node, and indented lines become its children.</li>
+                <li><b>Live</b> (<UsersIcon className="inline w-4 h-4 align-text-bottom" />): Edit a saved map together with others at the same time. Press <b>Go live</b>, then send the <b>invite link</b>; everyone who opens it edits the same map. You see each other's mouse pointers, and nodes someone else selected glow in their color. The live map is kept on the server; when you join, its version replaces the one in your browser. Undo only undoes your own edits.</li>
+                <li><b>History</b> (<ClockIcon className="inline w-4 h-4 align-text-bottom" />): A saved map keeps its last 30 versions: one each time you save, and one just before the AI changes it (generating, merging notes, accepting suggestions, links, or clusters). Pick a <b>From</b> and a <b>To</b> version and press <b>Compare</b> to see what changed: added nodes and links are green, removed ones red, renamed ones amber. <b>Restore</b> puts an old version back (undo brings the current one back, and it is also kept in the history).</li>
+                <li><b>Search</b>: Press <kbd>Ctrl+F</kbd> to search the map's labels, summaries, and notes (small typos and abbreviations are fine). Matches are outlined in yellow; press <kbd>Enter</kbd> / <kbd>Shift+Enter</kbd> to jump between them and <kbd>Esc</kbd> to close.</li>
+                <li><b>Node details</b>: <b>Click</b> a node to open its details on the right: the AI summary, your own notes (Markdown), links, tags, and the nodes it's connected to (click one to jump there).</li>
                 <li><b>Nodes</b>: Each box in the map is a node representing an idea or topic. <b>Right-click</b> a node to:
                   <ul className="list-disc pl-5 mt-1 space-y-1">
                     <li><b>Rename</b>: Edit the label of the node.</li>
                     <li><b>Delete</b>: Remove the node and its connections.</li>
                     <li><b>Add Edge</b>: Manually connect this node to another by clicking it, then clicking the target node.</li>
                     <li><b>Suggest Children</b>: Get AI suggestions for possible subtopics or related ideas.</li>
+                    <li><b>Cluster</b>: Move the node into another cluster, out of all clusters, or into a new one.</li>
+                    <li><b>Collapse / Expand</b>: Fold away everything below the node. A <b>+N</b> badge shows how many nodes are hidden; click it to expand again. Collapsed nodes are saved with the map.</li>
+                    <li><b>Duplicate branch</b>: Copy the node and everything below it, with their links, right next to the original.</li>
+                    <li><b>Focus</b>: Show only this node and its neighbors (pick how many hops away). Use the breadcrumbs at the top to move up the map or go back to the full map.</li>
+                    <li><b>Style</b>: Pick a color, shape, size (importance), an emoji icon, bold, or mark it done (struck through). If several nodes are selected (<kbd>Ctrl</kbd>/<kbd>Shift</kbd>+click), the style applies to all of them.</li>
                   </ul>
                 </li>
+                <li><b>Color by</b>: The box in the bottom-left corner chooses what node colors mean: each node's own style, its cluster, or its first tag. The legend lists which color stands for what.</li>
                 <li><b>Add Node</b>: Right-click the background or use the Add Node button to manually add a new idea to your map.</li>
-                <li><b>Edges</b>: Lines between nodes show relationships. Right-click an edge to delete it. You can also select and press <kbd>Delete</kbd> or <kbd>Backspace</kbd>.</li>
+                <li><b>Edges</b>: Lines between nodes show relationships. Right-click an edge to set its relation (<span className="text-orange-600">causes</span>, <span className="text-green-600">supports</span>, <span className="text-red-600">contradicts</span>, <span className="text-violet-600">example of</span>, <span className="text-sky-600">part of</span>; each is drawn in its own style), write a label, or delete it. You can also select and press <kbd>Delete</kbd> or <kbd>Backspace</kbd>.</li>
               </ul>
               <div className="text-sm text-gray-500 mt-2">Tip: Try the sample prompts or use the AI features to get the most out of your mind mapping experience!</div>
             </div>
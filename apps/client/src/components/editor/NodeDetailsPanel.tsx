@@ -0,0 +1,216 @@
+//
+// NodeDetailsPanel.tsx
+//
+// This component is the side panel that opens when you click a node.
+// - Shows the AI summary of the node
+// - Lets you write your own notes (Markdown, with an Edit/Preview toggle)
+// - Lets you keep a list of links (URLs) and tags on the node
+// - Lists the connected nodes; click one to jump to it
+//
+// Learnings for beginners:
+//   - How to edit data locally and save it to the store when the user is done
+//   - How to validate a URL with the URL class
+//   - How to build a simple "chips" input for tags
+//
+
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, LinkIcon, TagIcon } from '@heroicons/react/24/outline';
+import { useMindMapStore, type MindMapNode } from '../../hooks/useMindMapStore';
+import Markdown from './Markdown';
+
+interface NodeDetailsPanelProps {
+  node: MindMapNode; // The selected node
+  onNavigate: (nodeId: string) => void; // Called when a connected node is clicked
+  onClose: () => void;
+}
+
+// --- Helper: is this a web or mailto link we can open? ---
+// Also checked before rendering: a map from a file or another browser may hold a "javascript:" link.
+function isValidUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:';
+  } catch {
+    return false;
+  }
+}
+
+// --- The notes editor (its own component, so it starts fresh for each node) ---
+function NotesEditor({ node }: { node: MindMapNode }) {
+  const { updateNode } = useMindMapStore();
+  const [notes, setNotes] = useState(node.notes ?? '');
+  // Start in edit mode when there are no notes yet
+  const [editing, setEditing] = useState(!node.notes);
+
+  // Pick up changes made elsewhere (e.g. undo)
+  useEffect(() => setNotes(node.notes ?? ''), [node.notes]);
+
+  const save = () => {
+    if (notes !== (node.notes ?? '')) updateNode(node.id, { notes: notes || undefined }, 'Edit notes');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center mb-1">
+        <span className="text-xs font-semibold text-gray-500 uppercase">Notes</span>
+        <button
+          className="ml-auto text-xs text-blue-600 hover:underline"
+          onClick={() => setEditing(e => !e)} // Leaving the textarea already saved the notes
+        >
+          {editing ? 'Preview' : 'Edit'}
+        </button>
+      </div>
+      {editing ? (
+        <textarea
+          className="w-full min-h-[140px] border rounded p-2 text-sm font-mono"
+          placeholder="Write notes… (Markdown: **bold**, *italic*, - lists, [links](https://…))"
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          onBlur={save}
+        />
+      ) : notes ? (
+        <div className="cursor-text" onDoubleClick={() => setEditing(true)} title="Double-click to edit">
+          <Markdown text={notes} />
+        </div>
+      ) : (
+        <div className="text-sm text-gray-400 italic">No notes yet.</div>
+      )}
+    </div>
+  );
+}
+
+export default function NodeDetailsPanel({ node, onNavigate, onClose }: NodeDetailsPanelProps) {
+  const { nodes, edges, updateNode } = useMindMapStore();
+  // Local state: what's typed in the "add link" and "add tag" inputs
+  const [newLink, setNewLink] = useState('');
+  const [newTag, setNewTag] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const links = node.links ?? [];
+  const tags = node.tags ?? [];
+
+  // Every node connected to this one, with the direction of the edge
+  const connected = edges
+    .filter(e => e.source === node.id || e.target === node.id)
+    .map(e => ({ id: e.source === node.id ? e.target : e.source, outgoing: e.source === node.id }))
+    .filter((c, i, all) => c.id !== node.id && all.findIndex(x => x.id === c.id) === i)
+    .map(c => ({ ...c, node: nodes.find(n => n.id === c.id) }))
+    .filter(c => c.node);
+
+  // Handler: add a link (only real http/https URLs)
+  const handleAddLink = () => {
+    const url = newLink.trim();
+    if (!url) return;
+    if (!isValidUrl(url)) {
+      setLinkError('Enter a full URL, starting with http://, https:// or mailto:');
+      return;
+    }
+    if (!links.includes(url)) updateNode(node.id, { links: [...links, url] }, 'Add link');
+    setNewLink('');
+    setLinkError(null);
+  };
+
+  // Handler: add one or more tags (comma-separated)
+  const handleAddTag = () => {
+    const added = newTag.split(',').map(t => t.trim()).filter(t => t && !tags.includes(t));
+    if (added.length) updateNode(node.id, { tags: [...tags, ...added] }, 'Add tag');
+    setNewTag('');
+  };
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 z-40 w-80 bg-white border-l border-gray-200 shadow-lg p-4 flex flex-col gap-4 overflow-y-auto">
+      <div className="flex items-start gap-2">
+        <div className="text-lg font-bold text-gray-800 break-words flex-1">{node.label}</div>
+        <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* AI summary */}
+      <div>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Summary</div>
+        {node.summary
+          ? <div className="text-sm text-gray-800">{node.summary}</div>
+          : <div className="text-sm text-gray-400 italic">No summary yet.</div>}
+      </div>
+
+      <NotesEditor key={node.id} node={node} />
+
+      {/* Links */}
+      <div>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Links</div>
+        <ul className="flex flex-col gap-1 mb-2">
+          {links.map(url => (
+            <li key={url} className="flex items-center gap-2 text-sm">
+              <LinkIcon className="w-4 h-4 text-gray-400 shrink-0" />
+              {isValidUrl(url)
+                ? <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline truncate flex-1" title={url}>{url}</a>
+                : <span className="text-gray-500 truncate flex-1" title={url}>{url}</span>}
+              <button
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => updateNode(node.id, { links: links.filter(l => l !== url) }, 'Remove link')}
+                title="Remove link"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            className="border rounded px-2 py-1 text-sm flex-1 min-w-0"
+            placeholder="https://…"
+            value={newLink}
+            onChange={e => setNewLink(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleAddLink(); }}
+          />
+          <button className="text-sm text-blue-600" onClick={handleAddLink}>Add</button>
+        </div>
+        {linkError && <div className="text-xs text-red-600 mt-1">{linkError}</div>}
+      </div>
+
+      {/* Tags */}
+      <div>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Tags</div>
+        <div className="flex flex-wrap gap-1 mb-2">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 bg-blue-50 text-blue-700 rounded-full px-2 py-0.5 text-xs">
+              <TagIcon className="w-3 h-3" />
+              {tag}
+              <button
+                className="hover:text-red-600"
+                onClick={() => updateNode(node.id, { tags: tags.filter(t => t !== tag) }, 'Remove tag')}
+                title="Remove tag"
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <input
+          className="border rounded px-2 py-1 text-sm w-full"
+          placeholder="Add a tag and press Enter"
+          value={newTag}
+          onChange={e => setNewTag(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); handleAddTag(); } }}
+          onBlur={handleAddTag}
+        />
+      </div>
+
+      {/* Connected nodes */}
+      <div>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Connected ({connected.length})</div>
+        {connected.length === 0 && <div className="text-sm text-gray-400 italic">Not connected to anything yet.</div>}
+        <ul className="flex flex-col gap-1">
+          {connected.map(c => (
+            <li key={c.id}>
+              <button className="text-left text-sm text-blue-700 hover:underline" onClick={() => onNavigate(c.id)}>
+                <span className="text-gray-400">{c.outgoing ? '→' : '←'}</span> {c.node!.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
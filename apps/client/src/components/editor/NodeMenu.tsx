@@ -2,7 +2,9 @@
 // NodeMenu.tsx
 //
 // This component shows a context menu for a node in the mind map.
-// - Lets users rename, delete, add edges, or get AI suggestions for a node.
+// - Lets users rename, delete, add edges, move the node to a cluster, or get AI suggestions for a node.
+// - Lets users collapse/expand the node's subtree, focus on the node's neighborhood, or duplicate the whole branch.
+// - Lets users change how the node looks (color, shape, size, icon, bold, done); with several nodes selected, the style applies to all of them.
 // - Appears when you right-click a node or click the menu icon.
 //
 // Learnings for beginners:
@@ -13,7 +15,10 @@
 //
 
 import React, { useState } from 'react';
-import type { MindMapNode } from '../../hooks/useMindMapStore';
+import { NODE_SHAPES, type MindMapNode, type MindMapCluster, type NodeStyle, type NodeShape, type NodeSize } from '../../hooks/useMindMapStore';
+
+// Fill colors offered in the menu (the first one is the default node color)
+export const NODE_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed', '#db2777', '#0891b2', '#4b5563'];
 
 // Define the props (inputs) this component expects
 interface NodeMenuProps {
@@ -22,17 +27,29 @@ interface NodeMenuProps {
   onDelete: () => void; // Function to call when deleting
   onAddEdge: () => void; // Function to call when adding an edge
   onSuggestChildren?: () => void; // Function to call for AI suggestions
+  clusters?: MindMapCluster[]; // Clusters the node can be moved to
+  onMoveToCluster?: (clusterId: string | null) => void; // null = no cluster
+  onNewCluster?: () => void; // Start a new cluster with just this node
+  onStyle?: (changes: Partial<NodeStyle>) => void; // Change the look (undefined resets a setting)
+  styleCount?: number; // How many nodes a style change applies to (the selection)
+  collapsed?: boolean; // Is the subtree below this node folded away?
+  descendantCount?: number; // How many nodes are below this one
+  onToggleCollapse?: () => void;
+  onFocus?: () => void; // Show only this node's neighborhood
+  onDuplicateBranch?: () => void; // Copy this node and everything below it
   loading: boolean; // Is an action in progress?
   error: string | null; // Any error to show
 }
 
 // The main component function
-export default function NodeMenu({ node, onRename, onDelete, onAddEdge, onSuggestChildren, loading, error }: NodeMenuProps) {
+export default function NodeMenu({ node, onRename, onDelete, onAddEdge, onSuggestChildren, clusters, onMoveToCluster, onNewCluster, onStyle, styleCount = 1, collapsed, descendantCount = 0, onToggleCollapse, onFocus, onDuplicateBranch, loading, error }: NodeMenuProps) {
   // Local state: are we editing the label?
   const [editing, setEditing] = useState(false);
   // Local state: the current label value
   const [label, setLabel] = useState(node.label);
 
+  const style = node.style ?? {};
+
   // Handler: save the new label
   const handleRename = () => {
     onRename(label);
@@ -63,6 +80,102 @@ export default function NodeMenu({ node, onRename, onDelete, onAddEdge, onSugges
           <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={onSuggestChildren} disabled={loading}>
             Suggest children
           </button>
+          {/* Only nodes with something below them can be collapsed */}
+          {onToggleCollapse && (collapsed || descendantCount > 0) && (
+            <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={onToggleCollapse} disabled={loading}>
+              {collapsed ? 'Expand' : `Collapse (${descendantCount})`}
+            </button>
+          )}
+          {onFocus && (
+            <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={onFocus} disabled={loading}>Focus</button>
+          )}
+          {onDuplicateBranch && (
+            <button className="text-left hover:bg-gray-100 px-2 py-1 rounded" onClick={onDuplicateBranch} disabled={loading}>
+              {descendantCount > 0 ? 'Duplicate branch' : 'Duplicate'}
+            </button>
+          )}
+          {/* Cluster picker: "" means no cluster, "new" starts a new one */}
+          {onMoveToCluster && (
+            <select
+              className="border rounded px-2 py-1 text-sm"
+              value={node.clusterId ?? ''}
+              onChange={e => {
+                if (e.target.value === 'new') onNewCluster?.();
+                else onMoveToCluster(e.target.value || null);
+              }}
+              disabled={loading}
+              title="Cluster"
+            >
+              <option value="">No cluster</option>
+              {clusters?.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              {onNewCluster && <option value="new">New cluster…</option>}
+            </select>
+          )}
+          {/* Style: applies to every selected node when this node is part of the selection */}
+          {onStyle && (
+            <div className="border-t pt-2 flex flex-col gap-2">
+              <div className="text-xs text-gray-500">{styleCount > 1 ? `Style ${styleCount} nodes` : 'Style'}</div>
+              <div className="flex gap-1 items-center">
+                {NODE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    className={`w-5 h-5 rounded-full border-2 ${style.color === color ? 'border-gray-800' : 'border-transparent'}`}
+                    style={{ background: color }}
+                    onClick={() => onStyle({ color })}
+                    title={color}
+                  />
+                ))}
+                <button className="text-xs text-gray-500 hover:underline ml-1" onClick={() => onStyle({ color: undefined })} title="Default color">
+                  Reset
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  className="border rounded px-1 py-1 text-sm flex-1"
+                  value={style.shape ?? 'roundrectangle'}
+                  onChange={e => onStyle({ shape: e.target.value === 'roundrectangle' ? undefined : e.target.value as NodeShape })}
+                  title="Shape"
+                >
+                  {NODE_SHAPES.map(shape => <option key={shape} value={shape}>{shape === 'roundrectangle' ? 'rounded' : shape}</option>)}
+                </select>
+                <select
+                  className="border rounded px-1 py-1 text-sm flex-1"
+                  value={style.size ?? 'normal'}
+                  onChange={e => onStyle({ size: e.target.value === 'normal' ? undefined : e.target.value as NodeSize })}
+                  title="Size (importance)"
+                >
+                  <option value="small">small</option>
+                  <option value="normal">normal</option>
+                  <option value="large">large</option>
+                </select>
+              </div>
+              <div className="flex gap-2 items-center">
+                <input
+                  className="border rounded px-2 py-1 text-sm w-16"
+                  placeholder="Icon"
+                  defaultValue={style.icon ?? ''}
+                  maxLength={8}
+                  onBlur={e => { if (e.target.value.trim() !== (style.icon ?? '')) onStyle({ icon: e.target.value.trim() || undefined }); }}
+                  onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                  title="An emoji shown before the label, e.g. ⭐"
+                />
+                <button
+                  className={`px-2 py-1 rounded text-sm font-bold ${style.bold ? 'bg-gray-200' : 'hover:bg-gray-100'}`}
+                  onClick={() => onStyle({ bold: style.bold ? undefined : true })}
+                  title="Bold"
+                >
+                  B
+                </button>
+                <button
+                  className={`px-2 py-1 rounded text-sm line-through ${style.done ? 'bg-gray-200' : 'hover:bg-gray-100'}`}
+                  onClick={() => onStyle({ done: style.done ? undefined : true })}
+                  title="Mark as done"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
           <button className="text-left hover:bg-gray-100 px-2 py-1 rounded text-red-600" onClick={onDelete} disabled={loading}>Delete</button>
         </>
       )}
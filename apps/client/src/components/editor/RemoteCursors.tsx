@@ -0,0 +1,56 @@
+//
+// RemoteCursors.tsx
+//
+// This component draws the mouse pointers of the other people on a live map.
+// - Cursors arrive in map coordinates, so they stay on the same spot of the map when you zoom or pan
+// - Each one has the person's color and name
+//
+// Learnings for beginners:
+//   - How to convert map ("model") coordinates to screen coordinates: position * zoom + pan
+//   - How to re-render when something outside React changes (Cytoscape's viewport)
+//
+
+import React, { useEffect, useState } from 'react';
+import type { Peer } from '../../services/collab';
+
+interface RemoteCursorsProps {
+  cy: any; // The Cytoscape instance
+  peers: Peer[];
+}
+
+export default function RemoteCursors({ cy, peers }: RemoteCursorsProps) {
+  // Bumped on every zoom/pan, just to re-render
+  const [, setViewportTick] = useState(0);
+
+  useEffect(() => {
+    if (!cy) return;
+    const onViewport = () => setViewportTick(t => t + 1);
+    cy.on('viewport', onViewport);
+    return () => {
+      cy.removeListener('viewport', onViewport);
+    };
+  }, [cy]);
+
+  if (!cy) return null;
+  const zoom = cy.zoom();
+  const pan = cy.pan();
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-30 overflow-hidden">
+      {peers.filter(p => p.cursor).map(p => (
+        <div
+          key={p.clientId}
+          className="absolute transition-transform duration-75"
+          style={{ transform: `translate(${p.cursor!.x * zoom + pan.x}px, ${p.cursor!.y * zoom + pan.y}px)` }}
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" className="drop-shadow">
+            <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11 8.5 Z" fill={p.color} stroke="white" strokeWidth="1" />
+          </svg>
+          <span className="absolute left-3 top-3 text-xs text-white rounded px-1 whitespace-nowrap" style={{ background: p.color }}>
+            {p.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
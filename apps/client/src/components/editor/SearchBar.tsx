@@ -0,0 +1,67 @@
+//
+// SearchBar.tsx
+//
+// This component is the search box of the editor (open it with Ctrl+F).
+// - Type to find nodes by label, summary, or notes (small typos are fine)
+// - Enter / Shift+Enter (or the arrows) jump to the next / previous hit
+// - Escape closes the search and removes the highlights
+//
+// Learnings for beginners:
+//   - How to handle several keys in one onKeyDown handler
+//   - How to show "3 of 12" style counters
+//
+
+import React from 'react';
+import { MagnifyingGlassIcon, ChevronUpIcon, ChevronDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { SearchHit } from '../../utils/search';
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  hits: SearchHit[]; // Best first
+  current: number; // Index of the hit we jumped to
+  onStep: (delta: 1 | -1) => void; // Next or previous hit
+  onClose: () => void;
+}
+
+export default function SearchBar({ query, onQueryChange, hits, current, onStep, onClose }: SearchBarProps) {
+  const hit = hits[current];
+
+  return (
+    <div className="absolute top-16 left-4 z-40 bg-white border border-gray-200 rounded shadow p-2 flex flex-col gap-1 w-80">
+      <div className="flex items-center gap-1">
+        <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 shrink-0" />
+        <input
+          id="map-search-input"
+          className="flex-1 min-w-0 px-1 py-0.5 text-sm outline-none"
+          placeholder="Search nodes, summaries, notes…"
+          value={query}
+          autoFocus
+          onChange={e => onQueryChange(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') { e.preventDefault(); onStep(e.shiftKey ? -1 : 1); }
+            if (e.key === 'Escape') onClose();
+          }}
+        />
+        <span className="text-xs text-gray-500 shrink-0">
+          {query.trim() ? (hits.length ? `${current + 1} of ${hits.length}` : 'No matches') : ''}
+        </span>
+        <button className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30" onClick={() => onStep(-1)} disabled={!hits.length} title="Previous (Shift+Enter)">
+          <ChevronUpIcon className="w-4 h-4" />
+        </button>
+        <button className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30" onClick={() => onStep(1)} disabled={!hits.length} title="Next (Enter)">
+          <ChevronDownIcon className="w-4 h-4" />
+        </button>
+        <button className="p-0.5 text-gray-400 hover:text-gray-600" onClick={onClose} title="Close (Esc)">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {/* Where the current hit matched, if not in its label */}
+      {hit && hit.field !== 'label' && (
+        <div className="text-xs text-gray-500 px-1">
+          <span className="font-semibold text-gray-700">{hit.label}</span> · {hit.field}: {hit.snippet}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+//
+// SelectionBar.tsx
+//
+// This component is the toolbar for bulk actions, shown while two or more nodes are selected.
+// - Select several nodes with Shift+click, or Shift+drag a box around them
+// - Delete, restyle, move into a cluster, duplicate, or ask the AI for children of each selected node
+// - Merge the selected nodes into one (labels, summaries, and edges are combined)
+// Every action is a single step in the undo history.
+//
+// Learnings for beginners:
+//   - How one toolbar can act on a whole list of items
+//   - How to ask a follow-up question (which node to keep) before running an action
+//
+
+import React, { useState } from 'react';
+import { TrashIcon, DocumentDuplicateIcon, SparklesIcon, ArrowsPointingInIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { MindMapNode, MindMapCluster, NodeStyle } from '../../hooks/useMindMapStore';
+import { NODE_COLORS } from './NodeMenu';
+
+interface SelectionBarProps {
+  nodes: MindMapNode[]; // The selected nodes
+  clusters: MindMapCluster[];
+  onDelete: () => void;
+  onStyle: (changes: Partial<NodeStyle>) => void; // undefined resets a setting
+  onMoveToCluster: (clusterId: string | null) => void; // null = no cluster
+  onNewCluster: () => void;
+  onDuplicate: () => void;
+  onSuggestChildren: () => void; // For each selected node
+  onMerge: (intoId: string) => void; // The node that stays
+  onClear: () => void; // Unselect everything
+  loading: boolean; // Is an AI request running?
+  error: string | null; // From the last AI request
+}
+
+export default function SelectionBar({ nodes, clusters, onDelete, onStyle, onMoveToCluster, onNewCluster, onDuplicate, onSuggestChildren, onMerge, onClear, loading, error }: SelectionBarProps) {
+  // Local state: the node to keep when merging (null = not merging yet)
+  const [mergeInto, setMergeInto] = useState<string | null>(null);
+  // The selection can change while the question is open
+  const keepId = nodes.some(n => n.id === mergeInto) ? mergeInto! : nodes[0]?.id;
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-30';
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 bg-white border border-gray-200 rounded shadow p-2 flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-1">
+        <span className="font-semibold text-gray-700 px-1">{nodes.length} selected</span>
+        <button className={buttonClass} onClick={onDuplicate} title="Duplicate the selected nodes">
+          <DocumentDuplicateIcon className="w-4 h-4" /> Duplicate
+        </button>
+        <button className={buttonClass} onClick={onSuggestChildren} disabled={loading} title="Ask the AI for children of each selected node">
+          <SparklesIcon className="w-4 h-4" /> Suggest children
+        </button>
+        <button className={buttonClass} onClick={() => setMergeInto(mergeInto === null ? nodes[0]?.id ?? null : null)} title="Merge the selected nodes into one">
+          <ArrowsPointingInIcon className="w-4 h-4" /> Merge
+        </button>
+        <select
+          className="border rounded px-1 py-1"
+          value=""
+          onChange={e => {
+            if (e.target.value === 'new') onNewCluster();
+            else if (e.target.value) onMoveToCluster(e.target.value === 'none' ? null : e.target.value);
+          }}
+          title="Move the selected nodes into a cluster"
+        >
+          <option value="">Cluster…</option>
+          <option value="none">No cluster</option>
+          {clusters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          <option value="new">New cluster…</option>
+        </select>
+        <button className={`${buttonClass} text-red-600`} onClick={onDelete} title="Delete the selected nodes">
+          <TrashIcon className="w-4 h-4" /> Delete
+        </button>
+        <button className="p-1 text-gray-400 hover:text-gray-600" onClick={onClear} title="Clear the selection (Esc)">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {/* Style: a short version of the node menu's style section */}
+      <div className="flex items-center gap-1">
+        {NODE_COLORS.map(color => (
+          <button key={color} className="w-5 h-5 rounded-full" style={{ background: color }} onClick={() => onStyle({ color })} title={color} />
+        ))}
+        <button className="text-xs text-gray-500 hover:underline ml-1" onClick={() => onStyle({ color: undefined })} title="Default color">Reset</button>
+        <span className="border-l h-5 mx-1" />
+        <button className="px-2 py-0.5 rounded font-bold hover:bg-gray-100" onClick={() => onStyle({ bold: true })} title="Bold">B</button>
+        <button className="px-2 py-0.5 rounded hover:bg-gray-100" onClick={() => onStyle({ bold: undefined })} title="Not bold">Plain</button>
+        <button className="px-2 py-0.5 rounded line-through hover:bg-gray-100" onClick={() => onStyle({ done: true })} title="Mark as done">Done</button>
+        <button className="px-2 py-0.5 rounded hover:bg-gray-100" onClick={() => onStyle({ done: undefined })} title="Mark as not done">Not done</button>
+      </div>
+      {/* Merging: pick the node that stays; the others are folded into it */}
+      {mergeInto !== null && keepId && (
+        <div className="flex items-center gap-2 border-t pt-2">
+          <span className="text-gray-500">Keep</span>
+          <select className="border rounded px-1 py-1 flex-1" value={keepId} onChange={e => setMergeInto(e.target.value)}>
+            {nodes.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+          </select>
+          <button className="bg-blue-600 text-white rounded px-3 py-1 font-semibold hover:bg-blue-700" onClick={() => { onMerge(keepId); setMergeInto(null); }}>
+            Merge {nodes.length} nodes
+          </button>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+//
+// ShortcutsDialog.tsx
+//
+// This component is the keyboard cheat sheet (press "?" in the editor).
+// - Lists every shortcut, grouped by what it does
+// - The shortcuts themselves are handled in MindMap.tsx
+//
+// Learnings for beginners:
+//   - How to keep a table of data next to the component that shows it
+//   - How to use the <kbd> element for keys
+//
+
+import React from 'react';
+import { Dialog } from '@headlessui/react';
+
+// Each group: a title and [keys, what they do] rows
+const SHORTCUTS: { title: string; rows: [string[], string][] }[] = [
+  {
+    title: 'Editing',
+    rows: [
+      [['Tab'], 'Add a child to the selected node'],
+      [['Enter'], 'Add a sibling (a child, for the root)'],
+      [['F2'], 'Rename the selected node'],
+      [['Delete'], 'Delete the selected nodes and edges'],
+      [['Ctrl', 'C'], 'Copy the selected nodes (with the links between them)'],
+      [['Ctrl', 'X'], 'Cut the selected nodes'],
+      [['Ctrl', 'V'], 'Paste under the mouse (also from another map, or an outline)'],
+      [['Ctrl', 'Z'], 'Undo'],
+      [['Ctrl', 'Shift', 'Z'], 'Redo'],
+    ],
+  },
+  {
+    title: 'Moving around',
+    rows: [
+      [['←', '↑', '→', '↓'], 'Select the nearest node in that direction'],
+      [['Shift', 'Click'], 'Add a node to the selection'],
+      [['Shift', 'Drag'], 'Select every node in a box'],
+      [['Esc'], 'Clear the selection'],
+      [['Ctrl', 'F'], 'Search the map'],
+      [['?'], 'Show this cheat sheet'],
+    ],
+  },
+];
+
+export default function ShortcutsDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  return (
+    <Dialog open={open} onClose={onClose} className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-black bg-opacity-30" aria-hidden="true" />
+      <div className="bg-white rounded shadow-lg p-6 max-w-md w-full relative z-10">
+        <button type="button" className="absolute top-2 right-2 text-gray-400 hover:text-gray-600" onClick={onClose}>&times;</button>
+        <Dialog.Title className="text-lg font-bold mb-4">Keyboard shortcuts</Dialog.Title>
+        {SHORTCUTS.map(group => (
+          <div key={group.title} className="mb-4">
+            <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{group.title}</div>
+            <table className="w-full text-sm">
+              <tbody>
+                {group.rows.map(([keys, action]) => (
+                  <tr key={action}>
+                    <td className="py-1 pr-4 whitespace-nowrap">
+                      {keys.map(k => <kbd key={k} className="border rounded px-1.5 py-0.5 bg-gray-50 text-xs mr-1">{k}</kbd>)}
+                    </td>
+                    <td className="py-1 text-gray-700">{action}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+        <div className="text-xs text-gray-500">Shortcuts are off while you type in a text field (e.g. the notes).</div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+//
+// VersionDiffView.tsx
+//
+// This component draws the difference between two versions of a map over the editor's canvas.
+// - Added nodes and edges are green, removed ones red and faded, renamed ones amber ("old → new")
+// - It is a separate, read-only Cytoscape graph, so nothing can be edited by accident while comparing
+// - Either version can be restored from here (if it's a snapshot rather than the current map)
+// The comparison itself is done in utils/versionDiff.ts.
+//
+// Learnings for beginners:
+//   - How to show a second, read-only graph on top of the first one
+//   - How to style elements by a data field (e.g. 'node[diff = "added"]')
+//
+
+import React from 'react';
+import CytoscapeComponent from 'react-cytoscapejs';
+import type { MapSnapshot } from '../../hooks/useMindMapStore';
+import { getEdgeId } from '../../hooks/useMindMapStore';
+import type { MapVersionDiff } from '../../utils/versionDiff';
+
+// One color per kind of change (also used in the legend)
+const DIFF_COLORS = { added: '#16a34a', removed: '#dc2626', renamed: '#f59e0b' };
+
+interface VersionDiffViewProps {
+  diff: MapVersionDiff;
+  fromLabel: string; // The older version, e.g. "Saved · 3/4/2025, 10:12:00"
+  toLabel: string; // The newer version
+  restorable: { label: string; snapshot: MapSnapshot }[]; // The compared versions that are snapshots
+  onRestore: (snapshot: MapSnapshot) => void;
+  onClose: () => void;
+}
+
+export default function VersionDiffView({ diff, fromLabel, toLabel, restorable, onRestore, onClose }: VersionDiffViewProps) {
+  // Nodes without a saved position are laid out as a tree instead
+  const allPlaced = diff.nodes.every(n => diff.positions[n.id]);
+  const elements = [
+    ...diff.nodes.map(n => ({
+      data: {
+        id: n.id,
+        label: n.diff === 'renamed' ? `${n.oldLabel} → ${n.label}` : n.label,
+        diff: n.diff ?? '',
+      },
+      ...(diff.positions[n.id] ? { position: diff.positions[n.id] } : {}),
+    })),
+    ...diff.edges.map(e => {
+      const label = e.label || e.relation || '';
+      return {
+        data: {
+          id: getEdgeId(e),
+          source: e.source,
+          target: e.target,
+          label: e.diff === 'renamed' ? `${e.oldLabel || '(none)'} → ${label || '(none)'}` : label,
+          diff: e.diff ?? '',
+        },
+      };
+    }),
+  ];
+
+  return (
+    <div className="absolute inset-0 z-50 bg-white flex flex-col">
+      {/* What is being compared, the legend, and the actions */}
+      <div className="flex flex-wrap items-center gap-3 border-b px-4 py-2 text-sm">
+        <span className="font-semibold">Comparing</span>
+        <span className="truncate max-w-[16rem]" title={fromLabel}>{fromLabel}</span>
+        <span>→</span>
+        <span className="truncate max-w-[16rem]" title={toLabel}>{toLabel}</span>
+        <span className="flex items-center gap-3 text-xs text-gray-600 ml-2">
+          {(Object.keys(DIFF_COLORS) as (keyof typeof DIFF_COLORS)[]).map(kind => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-full" style={{ background: DIFF_COLORS[kind] }} />
+              {diff.counts[kind]} {kind}
+            </span>
+          ))}
+        </span>
+        <span className="flex-1" />
+        {restorable.map(({ label, snapshot }) => (
+          <button
+            key={snapshot.id}
+            className="rounded px-3 py-1 bg-blue-600 text-white hover:bg-blue-700"
+            onClick={() => onRestore(snapshot)}
+            title="Replace the map with this version (can be undone)"
+          >
+            Restore {label}
+          </button>
+        ))}
+        <button className="rounded px-3 py-1 bg-gray-200 text-gray-700 hover:bg-gray-300" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {diff.counts.added + diff.counts.removed + diff.counts.renamed === 0 && (
+        <div className="px-4 py-2 text-sm text-gray-500">These versions have the same nodes and edges.</div>
+      )}
+      <div className="flex-1 min-h-0">
+        <CytoscapeComponent
+          elements={elements}
+          style={{ width: '100%', height: '100%' }}
+          layout={allPlaced ? { name: 'preset', fit: true, padding: 60 } : { name: 'breadthfirst', directed: true, fit: true, padding: 60 }}
+          stylesheet={[
+            {
+              selector: 'node',
+              style: {
+                'background-color': '#2563eb',
+                'label': 'data(label)',
+                'color': '#fff',
+                'text-valign': 'center',
+                'text-halign': 'center',
+                'font-size': 16,
+                'width': 120,
+                'height': 50,
+                'shape': 'roundrectangle',
+                'text-wrap': 'wrap',
+                'text-max-width': 100,
+              },
+            },
+            {
+              selector: 'node[diff = "added"]',
+              style: { 'background-color': DIFF_COLORS.added, 'border-width': 4, 'border-color': '#14532d' },
+            },
+            {
+              selector: 'node[diff = "renamed"]',
+              style: { 'background-color': DIFF_COLORS.renamed, 'border-width': 4, 'border-color': '#78350f', 'text-max-width': 160, 'width': 180 },
+            },
+            {
+              // Removed nodes are ghosts: faded, with a dashed red outline
+              selector: 'node[diff = "removed"]',
+              style: { 'background-color': '#fecaca', 'color': '#7f1d1d', 'border-width': 3, 'border-color': DIFF_COLORS.removed, 'border-style': 'dashed', 'opacity': 0.6 },
+            },
+            {
+              selector: 'edge',
+              style: {
+                'width': 3,
+                'line-color': '#a5b4fc',
+                'target-arrow-color': '#a5b4fc',
+                'target-arrow-shape': 'triangle',
+                'curve-style': 'bezier',
+                'label': 'data(label)',
+                'font-size': 12,
+                'color': '#4b5563',
+                'text-rotation': 'autorotate',
+                'text-background-color': '#ffffff',
+                'text-background-opacity': 0.85,
+                'text-background-padding': '2px',
+              },
+            },
+            {
+              selector: 'edge[diff = "added"]',
+              style: { 'line-color': DIFF_COLORS.added, 'target-arrow-color': DIFF_COLORS.added, 'width': 4 },
+            },
+            {
+              selector: 'edge[diff = "renamed"]',
+              style: { 'line-color': DIFF_COLORS.renamed, 'target-arrow-color': DIFF_COLORS.renamed, 'width': 4 },
+            },
+            {
+              selector: 'edge[diff = "removed"]',
+              style: { 'line-color': DIFF_COLORS.removed, 'target-arrow-color': DIFF_COLORS.removed, 'line-style': 'dashed', 'opacity': 0.6 },
+            },
+          ]}
+          minZoom={0.2}
+          maxZoom={2}
+          wheelSensitivity={1}
+          autoungrabify
+          boxSelectionEnabled={false}
+        />
+      </div>
+    </div>
+  );
+}
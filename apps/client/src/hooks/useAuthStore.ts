@@ -0,0 +1,95 @@
+//
+// useAuthStore.ts
+//
+// This file keeps track of who is signed in, using a small Zustand store.
+// - Sign up / sign in send an email and password to /api/auth and get back a token
+// - The token is kept in localStorage (see services/api.ts) and sent with every API request
+// - On start-up a saved token is checked with /api/auth/me; an expired one signs you out
+// - Maps saved on this browser before there were accounts go to whoever signs in there first
+//
+// Learnings for beginners:
+//   - How to keep "who is signed in" in one place that every page can read
+//   - Why the app starts in a "checking" state instead of "signed out"
+//
+
+import { create } from 'zustand';
+import { apiFetch, getAuthToken, readApiError, setAuthToken, setUnauthorizedHandler } from '../services/api';
+import { migrateLegacyLocalMaps, setLocalMapOwner } from '../services/mapStorage';
+import { useMindMapStore } from './useMindMapStore';
+
+// What the client knows about a user
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+// "checking" = we have a saved token but don't know yet if it's still valid
+export type AuthStatus = 'checking' | 'signed-in' | 'signed-out';
+
+interface AuthState {
+  user: AuthUser | null;
+  status: AuthStatus;
+  login: (email: string, password: string) => Promise<void>; // Throws an ApiError with a message to show
+  signup: (email: string, password: string) => Promise<void>; // Same
+  logout: () => void;
+  restore: () => Promise<void>; // Check the saved token (call once when the app starts)
+}
+
+// --- Helper: give the maps saved on this browser before there were accounts to whoever signs in ---
+// Runs in the background; if the copy fails, the maps stay in localStorage and we try again next time.
+async function claimLegacyMaps() {
+  try {
+    const moved = await migrateLegacyLocalMaps();
+    if (moved.length) useMindMapStore.setState(state => ({ version: state.version + 1 }));
+  } catch {}
+}
+
+export const useAuthStore = create<AuthState>((set) => {
+  // --- Helper: send the email and password to /api/auth/login or /api/auth/signup ---
+  const signIn = async (path: 'login' | 'signup', email: string, password: string) => {
+    const res = await apiFetch(`/api/auth/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+    if (!res.ok) throw await readApiError(res);
+    const data: { token: string; user: AuthUser } = await res.json();
+    setAuthToken(data.token);
+    setLocalMapOwner(data.user.id);
+    set({ user: data.user, status: 'signed-in' });
+    claimLegacyMaps();
+  };
+
+  return {
+    user: null,
+    status: getAuthToken() ? 'checking' : 'signed-out',
+    login: (email, password) => signIn('login', email, password),
+    signup: (email, password) => signIn('signup', email, password),
+    logout: () => {
+      setAuthToken(null);
+      setLocalMapOwner(null);
+      set({ user: null, status: 'signed-out' });
+      // The open map was the previous user's
+      useMindMapStore.getState().reset();
+      useMindMapStore.getState().setSelectedMapId(null);
+    },
+    restore: async () => {
+      if (!getAuthToken()) return;
+      try {
+        const res = await apiFetch('/api/auth/me');
+        if (!res.ok) throw await readApiError(res);
+        const data: { user: AuthUser } = await res.json();
+        setLocalMapOwner(data.user.id);
+        set({ user: data.user, status: 'signed-in' });
+        claimLegacyMaps();
+      } catch {
+        // Expired, or the server can't be reached: sign in again
+        setAuthToken(null);
+        set({ user: null, status: 'signed-out' });
+      }
+    },
+  };
+});
+
+// Any request the server turns down for a bad token signs us out (the protected pages then show the sign-in form)
+setUnauthorizedHandler(() => useAuthStore.getState().logout());
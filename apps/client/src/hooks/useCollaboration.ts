@@ -0,0 +1,166 @@
+//
+// useCollaboration.ts
+//
+// This hook connects the editor to the live version of a map, so several people can edit it at once.
+// - Our edits (nodes, edges, clusters, positions) are copied from the store into a shared Yjs document
+// - Everyone else's edits are copied from the document back into the store
+// - Also keeps the list of the other people on the map (their names, colors, cursors, and selections)
+//
+// When you join, the live copy on the server wins over the map in your browser, unless the live
+// copy is still empty: then your map becomes the live copy.
+// Undo only covers your own edits; someone else's edits never end up in your history.
+//
+// Learnings for beginners:
+//   - How to write your own React hook that owns a connection (open in useEffect, close in its cleanup)
+//   - How to subscribe to a Zustand store outside of rendering
+//   - How to turn "before and after" lists into set/delete operations
+//
+
+import { useEffect, useRef, useState } from 'react';
+import type * as Y from 'yjs';
+import { useMindMapStore, getEdgeId, CLUSTER_COLORS, type MindMapCluster, type MindMapEdge, type MindMapNode, type NodePosition } from './useMindMapStore';
+import { connectCollab, REMOTE_ORIGIN, type CollabSession, type CollabStatus, type Peer, type Presence } from '../services/collab';
+
+// Our name and color are remembered between visits
+const IDENTITY_KEY = 'synaptia:collab-identity';
+
+// --- Helper: our name and color (a random color the first time) ---
+export function loadIdentity(): Pick<Presence, 'name' | 'color'> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(IDENTITY_KEY) ?? '');
+    if (typeof saved?.name === 'string' && typeof saved?.color === 'string') return saved;
+  } catch {}
+  const identity = {
+    name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+    color: CLUSTER_COLORS[Math.floor(Math.random() * CLUSTER_COLORS.length)],
+  };
+  localStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+  return identity;
+}
+
+function saveIdentity(identity: Pick<Presence, 'name' | 'color'>) {
+  localStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+}
+
+// --- Helper: write the difference between two lists into a Y.Map (keyed by id) ---
+// The store never changes items in place, so an item that isn't the same object has changed.
+function writeList<T>(target: Y.Map<T>, before: T[], after: T[], key: (item: T) => string) {
+  const old = new Map(before.map(item => [key(item), item]));
+  after.forEach(item => {
+    const id = key(item);
+    if (old.get(id) !== item) target.set(id, item);
+    old.delete(id);
+  });
+  old.forEach((_item, id) => target.delete(id));
+}
+
+// --- Helper: the items of a Y.Map, keeping the order they already have in the store ---
+function readList<T>(source: Y.Map<T>, current: T[], key: (item: T) => string) {
+  const incoming = new Map(source.entries());
+  const kept = current.filter(item => incoming.has(key(item))).map(item => {
+    const next = incoming.get(key(item))!;
+    incoming.delete(key(item));
+    return next;
+  });
+  return [...kept, ...incoming.values()];
+}
+
+// `mapId` is the map's name; `ownerId` is the user it belongs to (not always us: see invite links)
+export function useCollaboration(mapId: string | null, ownerId: string | null) {
+  const [status, setStatus] = useState<CollabStatus | 'off'>('off');
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [identity, setIdentity] = useState(loadIdentity);
+  const sessionRef = useRef<CollabSession | null>(null);
+
+  useEffect(() => {
+    if (!mapId || !ownerId) return;
+    let applyingRemote = false;
+    let synced = false;
+
+    // --- Document -> store ---
+    const adoptDoc = (doc: Y.Doc) => {
+      const state = useMindMapStore.getState();
+      const positions: Record<string, NodePosition> = { ...state.positions };
+      doc.getMap<NodePosition>('positions').forEach((pos, id) => { positions[id] = pos; });
+      applyingRemote = true;
+      state.applyRemoteChange({
+        nodes: readList(doc.getMap<MindMapNode>('nodes'), state.nodes, n => n.id),
+        edges: readList(doc.getMap<MindMapEdge>('edges'), state.edges, getEdgeId),
+        clusters: readList(doc.getMap<MindMapCluster>('clusters'), state.clusters, c => c.id),
+        positions,
+      });
+      applyingRemote = false;
+    };
+
+    // --- Store -> document ---
+    const writeDoc = (doc: Y.Doc, before: Pick<ReturnType<typeof useMindMapStore.getState>, 'nodes' | 'edges' | 'clusters' | 'positions'>) => {
+      const state = useMindMapStore.getState();
+      doc.transact(() => {
+        writeList(doc.getMap<MindMapNode>('nodes'), before.nodes, state.nodes, n => n.id);
+        writeList(doc.getMap<MindMapEdge>('edges'), before.edges, state.edges, getEdgeId);
+        writeList(doc.getMap<MindMapCluster>('clusters'), before.clusters, state.clusters, c => c.id);
+        // Positions of deleted nodes stay (so undo puts them back), so only changed ones are written
+        const target = doc.getMap<NodePosition>('positions');
+        Object.entries(state.positions).forEach(([id, pos]) => {
+          const old = before.positions[id];
+          if (!old || old.x !== pos.x || old.y !== pos.y) target.set(id, pos);
+        });
+      });
+    };
+
+    const session = connectCollab(ownerId, mapId, { ...identity, cursor: null, selection: [] }, {
+      onStatus: setStatus,
+      onPeers: setPeers,
+      onSynced: () => {
+        if (synced) return;
+        synced = true;
+        const { nodes } = useMindMapStore.getState();
+        if (session.doc.getMap('nodes').size === 0 && nodes.length > 0) {
+          // A new live map: ours is the first version
+          writeDoc(session.doc, { nodes: [], edges: [], clusters: [], positions: {} });
+        } else {
+          adoptDoc(session.doc);
+          // The history was for the map we had before joining
+          useMindMapStore.getState().clearHistory();
+        }
+      },
+    });
+    sessionRef.current = session;
+
+    session.doc.on('update', (_update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE_ORIGIN && synced) adoptDoc(session.doc);
+    });
+
+    const unsubscribe = useMindMapStore.subscribe((state, prev) => {
+      // Our own copies of remote edits, edits before the first sync, and loading another map aren't sent
+      if (applyingRemote || !synced || state.selectedMapId !== mapId) return;
+      if (state.nodes === prev.nodes && state.edges === prev.edges && state.clusters === prev.clusters && state.positions === prev.positions) return;
+      writeDoc(session.doc, prev);
+    });
+
+    return () => {
+      unsubscribe();
+      session.close();
+      sessionRef.current = null;
+      setStatus('off');
+      setPeers([]);
+    };
+  }, [mapId, ownerId]);
+
+  return {
+    status,
+    peers,
+    identity,
+    // Change our name or color (remembered for next time)
+    setIdentity: (changes: Partial<Pick<Presence, 'name' | 'color'>>) => {
+      const next = { ...identity, ...changes };
+      setIdentity(next);
+      saveIdentity(next);
+      sessionRef.current?.setPresence(changes);
+    },
+    // Our mouse position and selection, for the others to see
+    setPresence: (changes: Partial<Pick<Presence, 'cursor' | 'selection'>>) => {
+      sessionRef.current?.setPresence(changes);
+    },
+  };
+}
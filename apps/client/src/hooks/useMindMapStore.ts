@@ -4,36 +4,104 @@
 // This file creates a global state store for the mind map app using Zustand.
 // - Zustand is a small, simple state management library for React.
 // - This store holds all the nodes, edges, and UI state for the mind map.
-// - It also handles saving/loading maps to localStorage.
+// - It also handles saving/loading maps (to localStorage or the server, see services/mapStorage.ts).
+// - Every edit to the map is recorded so it can be undone and redone.
+// - Saved maps also keep a version history ("snapshots"): one per save and one before each AI change.
 //
 // Learnings for beginners:
 //   - How to define TypeScript interfaces for your data
 //   - How to create a Zustand store
 //   - How to use localStorage for persistence
 //   - How to write functions to update state
+//   - How to implement undo/redo with a history of commands
 //
 
 import { create } from 'zustand';
+import { localMapKeys, mapStorage } from '../services/mapStorage';
+import { rewireEdges } from '../utils/mapDiff';
+import { copyNodes, withNewIds } from '../utils/clipboard';
 
 // --- TypeScript interfaces for our data ---
+export const NODE_SHAPES = ['roundrectangle', 'ellipse', 'rectangle', 'diamond', 'hexagon'] as const;
+export type NodeShape = typeof NODE_SHAPES[number];
+export type NodeSize = 'small' | 'normal' | 'large';
+
+// How a single node is drawn. Anything left out uses the default look.
+export interface NodeStyle {
+  color?: string; // Fill color, e.g. "#16a34a"
+  shape?: NodeShape;
+  size?: NodeSize; // Bigger = more important
+  icon?: string; // An emoji shown before the label
+  bold?: boolean;
+  done?: boolean; // Drawn struck through and faded
+}
+
 export interface MindMapNode {
   id: string; // Unique ID for the node
   label: string; // The text shown in the node
   summary?: string; // Optional summary (from AI)
   aiSuggested?: boolean; // Was this node suggested by AI?
+  clusterId?: string; // The cluster (group box on the canvas) this node belongs to
+  notes?: string; // The user's own notes (Markdown)
+  links?: string[]; // Related URLs
+  tags?: string[]; // Free-form tags, e.g. "todo"
+  style?: NodeStyle; // Custom look (color, shape, size, icon...)
 }
 
+// The kinds of relationship an edge can have. An edge without one is a plain branch.
+export const EDGE_RELATIONS = ['causes', 'supports', 'contradicts', 'example-of', 'part-of'] as const;
+export type EdgeRelation = typeof EDGE_RELATIONS[number];
+
 export interface MindMapEdge {
   id?: string; // Optional unique ID for the edge
   source: string; // ID of the source node
   target: string; // ID of the target node
+  relation?: EdgeRelation; // What kind of link this is (changes how the edge is drawn)
+  label?: string; // How the two ideas relate, e.g. "depends on" (shown on the edge)
+}
+
+// A named, colored group of nodes, drawn as a box around them on the canvas
+export interface MindMapCluster {
+  id: string;
+  name: string;
+  color: string; // CSS color, e.g. "#f59e0b"
+}
+
+// Colors handed out to new clusters, in order
+export const CLUSTER_COLORS = ['#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#06b6d4', '#ef4444', '#84cc16', '#6366f1'];
+
+// What node fill colors stand for: each node's own color, its cluster, or its first tag
+export type MapColorBy = 'node' | 'cluster' | 'tag';
+
+// Where a node sits on the canvas (Cytoscape model coordinates)
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// The camera: how far we're zoomed in and where we've panned to
+export interface MapViewport {
+  zoom: number;
+  pan: { x: number; y: number };
 }
 
+// The name of the layout algorithm used to arrange the map
+// (fcose = force-directed; radial and the trees are computed in utils/layouts.ts)
+export const MAP_LAYOUTS = ['radial', 'tree-lr', 'tree-td', 'concentric', 'fcose'] as const;
+export type MapLayout = typeof MAP_LAYOUTS[number];
+
 export interface MindMap {
   id: string;
   name: string;
   nodes: MindMapNode[];
   edges: MindMapEdge[];
+  clusters?: MindMapCluster[];
+  positions?: Record<string, NodePosition>;
+  viewport?: MapViewport;
+  layout?: MapLayout;
+  colorBy?: MapColorBy;
+  collapsed?: string[];
+  pinned?: string[];
   created: number;
   modified: number;
 }
@@ -43,136 +111,436 @@ export interface SavedMap {
   createdAt: number;
   nodes: MindMapNode[];
   edges: MindMapEdge[];
+  clusters?: MindMapCluster[]; // Groups of nodes (see MindMapNode.clusterId)
+  positions?: Record<string, NodePosition>; // Node positions by node id
+  viewport?: MapViewport; // Zoom/pan when the map was saved
+  layout?: MapLayout; // Layout used by "Reformat"
+  colorBy?: MapColorBy; // What node colors stand for (see ColorLegend)
+  collapsed?: string[]; // Ids of nodes whose subtrees are folded away
+  pinned?: string[]; // Ids of nodes that layouts leave where they are
 }
 
+// One version of a saved map in its history
+export interface MapSnapshot {
+  id: string;
+  createdAt: number;
+  reason: string; // Why it was taken, e.g. "Saved" or "Before AI: Merge notes"
+  nodes: MindMapNode[];
+  edges: MindMapEdge[];
+  clusters?: MindMapCluster[];
+  positions?: Record<string, NodePosition>;
+}
+
+// The parts of the state that make up the map itself (what undo/redo restores)
+export type MapDocument = Pick<MindMapState, 'nodes' | 'edges' | 'clusters'>;
+
+// One recorded edit ("command"): the changed fields before and after it ran
+export interface HistoryEntry {
+  label: string; // Shown in the undo/redo button tooltips, e.g. "Delete node"
+  before: Partial<MapDocument>;
+  after: Partial<MapDocument>;
+}
+
+// How many edits we remember
+const MAX_HISTORY = 100;
+
 // --- The shape of our global state ---
 interface MindMapState {
   nodes: MindMapNode[];
   edges: MindMapEdge[];
+  clusters: MindMapCluster[];
+  positions: Record<string, NodePosition>;
+  viewport: MapViewport | null;
+  layout: MapLayout;
+  colorBy: MapColorBy;
+  collapsed: string[]; // Ids of collapsed nodes (view state: saved with the map, but not undoable)
+  pinned: string[]; // Ids of pinned nodes (same)
   loading: boolean;
   error: string | null;
   setNodes: (nodes: MindMapNode[]) => void;
   setEdges: (edges: MindMapEdge[]) => void;
+  setPositions: (positions: Record<string, NodePosition>) => void;
+  setViewport: (viewport: MapViewport | null) => void;
+  setLayout: (layout: MapLayout) => void;
+  setColorBy: (colorBy: MapColorBy) => void;
+  setCollapsed: (collapsed: string[]) => void;
+  setPinned: (pinned: string[]) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   reset: () => void;
   addNodes: (newNodes: MindMapNode[]) => void;
   addEdges: (newEdges: MindMapEdge[]) => void;
   renameNode: (id: string, label: string) => void;
+  updateNode: (id: string, changes: Partial<Omit<MindMapNode, 'id'>>, label?: string) => void;
+  styleNodes: (ids: string[], changes: Partial<NodeStyle>) => void;
   deleteNode: (id: string) => void;
+  deleteNodes: (ids: string[], edgeIds?: string[], label?: string) => void;
+  duplicateNodes: (ids: string[]) => Record<string, string>; // Returns the id of each copy, by original id
+  mergeNodes: (ids: string[]) => void; // Everything is merged into the first node
+  deleteEdges: (ids: string[]) => void;
+  updateEdge: (id: string, changes: Partial<Pick<MindMapEdge, 'relation' | 'label'>>) => void;
+  applyClusters: (groups: { name: string; nodeIds: string[] }[]) => void;
+  createCluster: (name: string, nodeIds: string[]) => void;
+  renameCluster: (id: string, name: string) => void;
+  dissolveCluster: (id: string) => void;
+  moveToCluster: (nodeIds: string[], clusterId: string | null) => void;
+  applyChange: (label: string, change: (state: MindMapState) => Partial<MapDocument>) => void;
+  applyRemoteChange: (change: Partial<MapDocument> & { positions?: Record<string, NodePosition> }) => void;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  batchStart: MapDocument | null; // Map contents when beginBatch() was called
+  beginBatch: () => void;
+  endBatch: (label: string) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
   selectedMapId: string | null;
-  saveMap: (name: string) => void;
-  loadMap: (name: string) => void;
-  deleteMap: (name: string) => void;
-  listMaps: () => SavedMap[];
-  listSavedMaps: () => { name: string, createdAt: number }[];
-  renameMap: (oldName: string, newName: string) => void;
+  saveMap: (name: string) => Promise<void>;
+  loadMap: (name: string) => Promise<void>;
+  deleteMap: (name: string) => Promise<void>;
+  listMaps: () => Promise<SavedMap[]>;
+  listSavedMaps: () => Promise<{ name: string, createdAt: number }[]>;
+  renameMap: (oldName: string, newName: string) => Promise<void>;
+  getSavedMap: (name: string) => Promise<SavedMap | undefined>;
+  importMap: (map: SavedMap) => Promise<string>;
+  listSnapshots: (name: string) => Promise<MapSnapshot[]>;
+  snapshotMap: (reason: string) => Promise<void>; // Adds the current map to the open saved map's history
+  restoreSnapshot: (snapshot: MapSnapshot) => Promise<void>;
   setSelectedMapId: (id: string | null) => void;
 }
 
-// --- Helper: get all maps from localStorage ---
-function getAllMaps(): SavedMap[] {
-  const maps: SavedMap[] = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key && key.startsWith('mindmaps:')) {
-      try {
-        const map = JSON.parse(localStorage.getItem(key)!);
-        if (
-          map &&
-          map.name &&
-          map.nodes &&
-          map.edges &&
-          typeof map.createdAt === 'number' &&
-          !isNaN(map.createdAt)
-        ) {
-          maps.push(map);
-        }
-      } catch {}
-    }
-  }
-  // Sort by most recent
-  return maps.sort((a, b) => b.createdAt - a.createdAt);
+// --- Helper: the id Cytoscape uses for an edge (edges from the AI have no id) ---
+export function getEdgeId(edge: MindMapEdge) {
+  return edge.id || `${edge.source}__${edge.target}`;
+}
+
+// --- Helper: keep only the positions of nodes that still exist ---
+function pickPositions(positions: Record<string, NodePosition>, nodes: MindMapNode[]) {
+  const picked: Record<string, NodePosition> = {};
+  nodes.forEach(n => { if (positions[n.id]) picked[n.id] = positions[n.id]; });
+  return picked;
+}
+
+// --- Helper: drop clusters that no longer have any nodes ---
+function withoutEmptyClusters(clusters: MindMapCluster[], nodes: MindMapNode[]) {
+  return clusters.filter(c => nodes.some(n => n.clusterId === c.id));
+}
+
+// --- Helper: add the current map to a saved map's history ---
+// Nothing is added if the nodes, edges, and clusters are the same as in the newest snapshot.
+// The history is a safety net, so a failed snapshot never stops the save or AI change it belongs to.
+async function addSnapshot(name: string, reason: string, state: MindMapState) {
+  const snapshot: MapSnapshot = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    reason,
+    nodes: state.nodes,
+    edges: state.edges,
+    clusters: withoutEmptyClusters(state.clusters, state.nodes),
+    positions: pickPositions(state.positions, state.nodes),
+  };
+  const contents = (s: MapSnapshot) => JSON.stringify([s.nodes, s.edges, s.clusters ?? []]);
+  try {
+    const [newest] = await mapStorage.listSnapshots(name);
+    if (newest && contents(newest) === contents(snapshot)) return;
+    await mapStorage.addSnapshot(name, snapshot);
+  } catch {}
+}
+
+// --- Helper: the first palette color not used yet (or the next one in the cycle) ---
+function nextClusterColor(clusters: MindMapCluster[]) {
+  return CLUSTER_COLORS.find(color => !clusters.some(c => c.color === color)) ?? CLUSTER_COLORS[clusters.length % CLUSTER_COLORS.length];
 }
 
 // --- The Zustand store itself ---
-export const useMindMapStore = create<MindMapState & { version: number; cleanupInvalidMaps: () => void }>((set, get) => ({
-  // --- State variables ---
-  nodes: [],
-  edges: [],
-  loading: false,
-  error: null,
-  version: 0, // Used to force updates when maps change
-
-  // --- State update functions ---
-  setNodes: (nodes) => set({ nodes }),
-  setEdges: (edges) => set({ edges }),
-  setLoading: (loading) => set({ loading }),
-  setError: (error) => set({ error }),
-  reset: () => set({ nodes: [], edges: [], loading: false, error: null }),
-  addNodes: (newNodes) => set((state) => ({ nodes: [...state.nodes, ...newNodes] })),
-  addEdges: (newEdges) => set((state) => ({ edges: [...state.edges, ...newEdges] })),
-  renameNode: (id, label) => set((state) => ({ nodes: state.nodes.map(n => n.id === id ? { ...n, label } : n) })),
-  deleteNode: (id) => set((state) => ({
-    nodes: state.nodes.filter(n => n.id !== id),
-    edges: state.edges.filter(e => e.source !== id && e.target !== id),
-  })),
-  selectedMapId: null,
-
-  // --- Persistence: save/load/delete maps in localStorage ---
-  saveMap: (name) => {
-    const now = Date.now();
-    const map: SavedMap = {
-      name,
-      createdAt: now,
-      nodes: get().nodes,
-      edges: get().edges,
-    };
-    localStorage.setItem(`mindmaps:${name}`, JSON.stringify(map));
-    set({ selectedMapId: name, version: get().version + 1 });
-  },
-  loadMap: (name) => {
-    const raw = localStorage.getItem(`mindmaps:${name}`);
-    if (!raw) return;
-    const map: SavedMap = JSON.parse(raw);
-    set({ nodes: map.nodes, edges: map.edges, selectedMapId: name });
-  },
-  deleteMap: (name) => {
-    localStorage.removeItem(`mindmaps:${name}`);
-    if (get().selectedMapId === name) set({ selectedMapId: null, nodes: [], edges: [], version: get().version + 1 });
-    else set({ version: get().version + 1 });
-  },
-  listMaps: () => getAllMaps(),
-  listSavedMaps: () => getAllMaps().map(m => ({ name: m.name, createdAt: m.createdAt })),
-  renameMap: (oldName, newName) => {
-    const raw = localStorage.getItem(`mindmaps:${oldName}`);
-    if (!raw) return;
-    const map: SavedMap = JSON.parse(raw);
-    map.name = newName;
-    localStorage.setItem(`mindmaps:${newName}`, JSON.stringify(map));
-    localStorage.removeItem(`mindmaps:${oldName}`);
-    if (get().selectedMapId === oldName) set({ selectedMapId: newName, version: get().version + 1 });
-    else set({ version: get().version + 1 });
-  },
-  setSelectedMapId: (id) => set({ selectedMapId: id }),
-
-  // --- Helper: clean up invalid maps in localStorage ---
-  cleanupInvalidMaps: () => {
-    const keysToDelete: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('mindmaps:')) {
+export const useMindMapStore = create<MindMapState & { version: number; cleanupInvalidMaps: () => void }>((set, get) => {
+  // --- Helper: run an edit as one undoable step ---
+  // `change` returns only the fields it modifies; we remember their old and new values.
+  // Inside a batch, edits are applied right away but recorded together by endBatch().
+  const commit = (label: string, change: (state: MindMapState) => Partial<MapDocument>) => {
+    const state = get();
+    const after = change(state);
+    if (state.batchStart) {
+      set(after);
+      return;
+    }
+    const before: Partial<MapDocument> = {};
+    (Object.keys(after) as (keyof MapDocument)[]).forEach(key => {
+      (before as any)[key] = state[key];
+    });
+    set({
+      ...after,
+      past: [...state.past, { label, before, after }].slice(-MAX_HISTORY),
+      future: [],
+    });
+  };
+
+  return {
+    // --- State variables ---
+    nodes: [],
+    edges: [],
+    clusters: [],
+    positions: {},
+    viewport: null,
+    layout: 'fcose',
+    colorBy: 'node',
+    collapsed: [],
+    pinned: [],
+    loading: false,
+    error: null,
+    version: 0, // Used to force updates when maps change
+
+    // --- State update functions ---
+    // Edits to nodes/edges go through commit() so they can be undone
+    setNodes: (nodes) => commit('Edit nodes', () => ({ nodes })),
+    setEdges: (edges) => commit('Edit edges', () => ({ edges })),
+    setPositions: (positions) => set({ positions }),
+    setViewport: (viewport) => set({ viewport }),
+    setLayout: (layout) => set({ layout }),
+    setColorBy: (colorBy) => set({ colorBy }),
+    setCollapsed: (collapsed) => set({ collapsed }),
+    setPinned: (pinned) => set({ pinned }),
+    setLoading: (loading) => set({ loading }),
+    setError: (error) => set({ error }),
+    reset: () => set({ nodes: [], edges: [], clusters: [], positions: {}, viewport: null, collapsed: [], pinned: [], loading: false, error: null, past: [], future: [] }),
+    addNodes: (newNodes) => commit(newNodes.length === 1 ? 'Add node' : 'Add nodes', (state) => ({ nodes: [...state.nodes, ...newNodes] })),
+    addEdges: (newEdges) => commit(newEdges.length === 1 ? 'Add edge' : 'Add edges', (state) => ({ edges: [...state.edges, ...newEdges] })),
+    renameNode: (id, label) => commit('Rename node', (state) => ({ nodes: state.nodes.map(n => n.id === id ? { ...n, label } : n) })),
+    // Change any other fields of a node (notes, links, tags...) as one undoable step
+    updateNode: (id, changes, label = 'Edit node') => commit(label, (state) => ({
+      nodes: state.nodes.map(n => (n.id === id ? { ...n, ...changes } : n)),
+    })),
+    // Change the look of one or more nodes at once (undefined removes a setting)
+    styleNodes: (ids, changes) => commit(ids.length === 1 ? 'Style node' : 'Style nodes', (state) => ({
+      nodes: state.nodes.map(n => {
+        if (!ids.includes(n.id)) return n;
+        const style: NodeStyle = { ...n.style, ...changes };
+        (Object.keys(style) as (keyof NodeStyle)[]).forEach(key => { if (style[key] === undefined) delete style[key]; });
+        return { ...n, style: Object.keys(style).length ? style : undefined };
+      }),
+    })),
+    // Positions of deleted nodes are kept, so undo puts the node back where it was
+    deleteNode: (id) => commit('Delete node', (state) => ({
+      nodes: state.nodes.filter(n => n.id !== id),
+      edges: state.edges.filter(e => e.source !== id && e.target !== id),
+    })),
+    // Several nodes (and, optionally, other selected edges) as one undoable step
+    deleteNodes: (ids, edgeIds = [], label = ids.length === 1 ? 'Delete node' : 'Delete nodes') => commit(label, (state) => ({
+      nodes: state.nodes.filter(n => !ids.includes(n.id)),
+      edges: state.edges.filter(e => !ids.includes(e.source) && !ids.includes(e.target) && !edgeIds.includes(getEdgeId(e))),
+    })),
+    // Copies keep their label, look, and cluster, and the edges between the copied nodes.
+    // Positions aren't part of the document, so the caller places the copies.
+    duplicateNodes: (ids) => {
+      const { nodes, edges } = get();
+      const copy = withNewIds(copyNodes(ids, nodes, edges, {}));
+      commit(ids.length === 1 ? 'Duplicate node' : 'Duplicate nodes', (state) => ({
+        nodes: [...state.nodes, ...copy.nodes],
+        edges: [...state.edges, ...copy.edges],
+      }));
+      return copy.idMap;
+    },
+    // Labels, summaries, notes, links, and tags are combined; edges move to the surviving node
+    mergeNodes: (ids) => {
+      const [intoId, ...fromIds] = ids;
+      if (!fromIds.length) return;
+      commit('Merge nodes', (state) => {
+        const merged = ids.map(id => state.nodes.find(n => n.id === id)).filter((n): n is MindMapNode => !!n);
+        const unique = <T,>(values: (T | undefined)[]) => values.filter((v): v is T => !!v).filter((v, i, all) => all.indexOf(v) === i);
+        const survivor: MindMapNode = { ...merged[0], label: unique(merged.map(n => n.label)).join(' / ') };
+        const summary = unique(merged.map(n => n.summary)).join(' ');
+        const notes = unique(merged.map(n => n.notes)).join('\n\n');
+        const links = unique(merged.flatMap(n => n.links ?? []));
+        const tags = unique(merged.flatMap(n => n.tags ?? []));
+        if (summary) survivor.summary = summary;
+        if (notes) survivor.notes = notes;
+        if (links.length) survivor.links = links;
+        if (tags.length) survivor.tags = tags;
+        const nodes = state.nodes
+          .filter(n => !fromIds.includes(n.id))
+          .map(n => (n.id === intoId ? survivor : n));
+        return { nodes, edges: rewireEdges(state.edges, fromIds, intoId), clusters: withoutEmptyClusters(state.clusters, nodes) };
+      });
+    },
+    deleteEdges: (ids) => commit(ids.length === 1 ? 'Delete edge' : 'Delete edges', (state) => ({
+      edges: state.edges.filter(e => !ids.includes(getEdgeId(e))),
+    })),
+    updateEdge: (id, changes) => commit('Edit edge', (state) => ({
+      edges: state.edges.map(e => (getEdgeId(e) === id ? { ...e, ...changes } : e)),
+    })),
+    applyChange: (label, change) => commit(label, change),
+    // Edits made by someone else on a live map (see useCollaboration): shown, but not in our undo history
+    applyRemoteChange: (change) => set(change),
+
+    // --- Clusters ---
+    // Replace all clusters with new groups (e.g. from the AI). A node only joins its first group.
+    applyClusters: (groups) => commit('Apply clusters', (state) => {
+      const clusters: MindMapCluster[] = [];
+      const clusterOf: Record<string, string> = {};
+      groups.forEach(group => {
+        const nodeIds = group.nodeIds.filter(id => state.nodes.some(n => n.id === id) && !clusterOf[id]);
+        if (!nodeIds.length) return;
+        const cluster = { id: crypto.randomUUID(), name: group.name, color: nextClusterColor(clusters) };
+        clusters.push(cluster);
+        nodeIds.forEach(id => { clusterOf[id] = cluster.id; });
+      });
+      return {
+        clusters,
+        nodes: state.nodes.map(({ clusterId, ...n }) => (clusterOf[n.id] ? { ...n, clusterId: clusterOf[n.id] } : n)),
+      };
+    }),
+    createCluster: (name, nodeIds) => commit('Create cluster', (state) => {
+      const cluster = { id: crypto.randomUUID(), name, color: nextClusterColor(state.clusters) };
+      const nodes = state.nodes.map(n => (nodeIds.includes(n.id) ? { ...n, clusterId: cluster.id } : n));
+      return { nodes, clusters: withoutEmptyClusters([...state.clusters, cluster], nodes) };
+    }),
+    renameCluster: (id, name) => commit('Rename cluster', (state) => ({
+      clusters: state.clusters.map(c => (c.id === id ? { ...c, name } : c)),
+    })),
+    // The nodes stay on the map; only the group goes away
+    dissolveCluster: (id) => commit('Dissolve cluster', (state) => ({
+      clusters: state.clusters.filter(c => c.id !== id),
+      nodes: state.nodes.map(({ clusterId, ...n }) => (clusterId && clusterId !== id ? { ...n, clusterId } : n)),
+    })),
+    // Move nodes into a cluster (or out of all clusters with null)
+    moveToCluster: (nodeIds, clusterId) => commit('Move to cluster', (state) => {
+      const nodes = state.nodes.map(({ clusterId: current, ...n }) => {
+        const next = nodeIds.includes(n.id) ? clusterId : current;
+        return next ? { ...n, clusterId: next } : n;
+      });
+      return { nodes, clusters: withoutEmptyClusters(state.clusters, nodes) };
+    }),
+
+    // --- Undo/redo history ---
+    past: [],
+    future: [],
+    // Batches group many edits (e.g. a streamed map) into one undo step
+    batchStart: null,
+    beginBatch: () => {
+      if (get().batchStart) return;
+      const { nodes, edges, clusters } = get();
+      set({ batchStart: { nodes, edges, clusters } });
+    },
+    endBatch: (label) => {
+      const { batchStart: before, nodes, edges, clusters, past } = get();
+      if (!before) return;
+      set({ batchStart: null });
+      if (before.nodes === nodes && before.edges === edges && before.clusters === clusters) return;
+      set({
+        past: [...past, { label, before, after: { nodes, edges, clusters } }].slice(-MAX_HISTORY),
+        future: [],
+      });
+    },
+    undo: () => {
+      const { past, future } = get();
+      const entry = past[past.length - 1];
+      if (!entry) return;
+      set({ ...entry.before, past: past.slice(0, -1), future: [entry, ...future] });
+    },
+    redo: () => {
+      const { past, future } = get();
+      const entry = future[0];
+      if (!entry) return;
+      set({ ...entry.after, past: [...past, entry], future: future.slice(1) });
+    },
+    clearHistory: () => set({ past: [], future: [] }),
+    selectedMapId: null,
+
+    // --- Persistence: save/load/delete maps (localStorage or server) ---
+    saveMap: async (name) => {
+      const now = Date.now();
+      const map: SavedMap = {
+        name,
+        createdAt: now,
+        nodes: get().nodes,
+        edges: get().edges,
+        clusters: withoutEmptyClusters(get().clusters, get().nodes),
+        positions: pickPositions(get().positions, get().nodes),
+        collapsed: get().collapsed.filter(id => get().nodes.some(n => n.id === id)),
+        pinned: get().pinned.filter(id => get().nodes.some(n => n.id === id)),
+        viewport: get().viewport ?? undefined,
+        layout: get().layout,
+        colorBy: get().colorBy,
+      };
+      await mapStorage.save(map);
+      await addSnapshot(name, 'Saved', get());
+      set({ selectedMapId: name, version: get().version + 1 });
+    },
+    loadMap: async (name) => {
+      const map = await mapStorage.get(name);
+      if (!map) return;
+      set({
+        nodes: map.nodes,
+        edges: map.edges,
+        clusters: map.clusters ?? [],
+        positions: map.positions ?? {},
+        collapsed: map.collapsed ?? [],
+        pinned: map.pinned ?? [],
+        viewport: map.viewport ?? null,
+        layout: map.layout ?? 'fcose',
+        colorBy: map.colorBy ?? 'node',
+        selectedMapId: name,
+        past: [],
+        future: [],
+      });
+    },
+    deleteMap: async (name) => {
+      await mapStorage.remove(name);
+      if (get().selectedMapId === name) set({ selectedMapId: null, nodes: [], edges: [], clusters: [], positions: {}, viewport: null, collapsed: [], pinned: [], past: [], future: [], version: get().version + 1 });
+      else set({ version: get().version + 1 });
+    },
+    listMaps: () => mapStorage.list(),
+    listSavedMaps: async () => (await mapStorage.list()).map(m => ({ name: m.name, createdAt: m.createdAt })),
+    renameMap: async (oldName, newName) => {
+      if (!newName.trim() || newName === oldName) return;
+      const map = await mapStorage.get(oldName);
+      if (!map) return;
+      await mapStorage.save({ ...map, name: newName });
+      // The history moves with the map (added oldest first, so it stays newest first)
+      const snapshots = await mapStorage.listSnapshots(oldName);
+      for (const snapshot of [...snapshots].reverse()) await mapStorage.addSnapshot(newName, snapshot);
+      await mapStorage.remove(oldName);
+      if (get().selectedMapId === oldName) set({ selectedMapId: newName, version: get().version + 1 });
+      else set({ version: get().version + 1 });
+    },
+    getSavedMap: (name) => mapStorage.get(name),
+    // Save an imported map, adding " (2)", " (3)"... if the name is already taken
+    importMap: async (map) => {
+      const taken = new Set((await mapStorage.list()).map(m => m.name));
+      let name = map.name;
+      for (let i = 2; taken.has(name); i++) name = `${map.name} (${i})`;
+      await mapStorage.save({ ...map, name });
+      set({ version: get().version + 1 });
+      return name;
+    },
+    listSnapshots: (name) => mapStorage.listSnapshots(name),
+    snapshotMap: async (reason) => {
+      const name = get().selectedMapId;
+      if (name) await addSnapshot(name, reason, get());
+    },
+    // Bring back an old version as one undoable step (the current one is kept in the history first)
+    restoreSnapshot: async (snapshot) => {
+      await get().snapshotMap('Before restore');
+      commit('Restore version', () => ({ nodes: snapshot.nodes, edges: snapshot.edges, clusters: snapshot.clusters ?? [] }));
+      set({ positions: { ...get().positions, ...snapshot.positions } });
+    },
+    setSelectedMapId: (id) => set({ selectedMapId: id }),
+
+    // --- Helper: clean up the signed-in user's invalid maps in localStorage ---
+    cleanupInvalidMaps: () => {
+      const keysToDelete: string[] = [];
+      for (const key of localMapKeys()) {
         try {
           const map = JSON.parse(localStorage.getItem(key)!);
           if (!map || typeof map.createdAt !== 'number' || isNaN(map.createdAt)) {
             keysToDelete.push(key);
           }
         } catch {
-          keysToDelete.push(key!);
+          keysToDelete.push(key);
         }
       }
-    }
-    keysToDelete.forEach(key => localStorage.removeItem(key));
-    set({ version: get().version + 1 });
-  },
-})); 
\ No newline at end of file
+      keysToDelete.forEach(key => localStorage.removeItem(key));
+      set({ version: get().version + 1 });
+    },
+  };
+}); 
\ No newline at end of file
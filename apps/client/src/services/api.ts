@@ -0,0 +1,100 @@
+//
+// api.ts
+//
+// Shared settings and helpers for talking to the backend server.
+// - API_URL comes from VITE_API_URL in .env (defaults to localhost)
+// - Turns error responses into friendly messages
+// - Reads streamed (NDJSON) responses line by line
+// - Sends the sign-in token with every request (apiFetch), see hooks/useAuthStore.ts
+//
+
+// The API URL for talking to the backend (set in .env or defaults to localhost)
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+
+// Friendly messages for the error codes the server sends (see server/src/errors.ts)
+const ERROR_MESSAGES: Record<string, string> = {
+  LLM_NOT_CONFIGURED: 'The AI service is not set up on the server (check the API key or LLM_PROVIDER).',
+  LLM_UNAVAILABLE: 'The AI service could not be reached. Please try again in a moment.',
+  LLM_RATE_LIMITED: 'The AI service is busy right now. Wait a few seconds and try again.',
+  LLM_TIMEOUT: 'The AI took too long to answer. Try again, or try a lower detail level.',
+  LLM_ABORTED: 'The request was cancelled.',
+  LLM_INVALID_OUTPUT: "The AI's answer couldn't be understood, even after retrying. Please try again.",
+  UNAUTHORIZED: 'Your sign-in has expired. Please sign in again.',
+};
+
+// An error from the API, with the server's error code (if it sent one)
+export class ApiError extends Error {
+  code?: string;
+  status: number;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// --- The sign-in token (kept in localStorage, so a reload doesn't sign you out) ---
+const TOKEN_KEY = 'synaptia:auth-token';
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null) {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
+
+// Called when the server turns a token down (it expired, or the server's secret changed)
+let onUnauthorized: (() => void) | null = null;
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
+}
+
+// --- fetch() for our API: adds the server address and the sign-in token ---
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  const res = await fetch(`${API_URL}${path}`, { ...init, headers });
+  if (res.status === 401 && token) onUnauthorized?.();
+  return res;
+}
+
+// --- Turn an error body from the server ({ error, code }) into an ApiError ---
+export function toApiError(body: any, status: number): ApiError {
+  const code: string | undefined = body?.code;
+  const message = (code && ERROR_MESSAGES[code]) || body?.error || `Request failed (${status})`;
+  return new ApiError(message, status, code);
+}
+
+// --- Turn a failed response into an ApiError with a message the user can act on ---
+export async function readApiError(res: Response): Promise<ApiError> {
+  let body: any = null;
+  try {
+    body = await res.json();
+  } catch {}
+  return toApiError(body, res.status);
+}
+
+// --- Read a streamed NDJSON response, calling onEvent for each line as it arrives ---
+export async function readNdjson(body: ReadableStream<Uint8Array>, onEvent: (event: any) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onEvent(JSON.parse(line));
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
@@ -0,0 +1,166 @@
+//
+// collab.ts
+//
+// This file is the connection to a live (collaborative) map on the server.
+// - Opens a WebSocket to /api/collab/<owner id>/<map name> and keeps a Yjs document in sync over it
+//   (with the sign-in token in the URL, since a browser can't add headers to a WebSocket)
+// - Sends our "presence" (name, color, mouse position, selected nodes) and tells us about everyone else's
+// - Reconnects on its own when the connection drops; edits made meanwhile are sent on reconnect
+//   (but not when the server turns us away: that won't change by trying again)
+// - Shares a map with someone by email (only the owner and those people may join it)
+// The server side is apps/server/src/services/collab.service.ts.
+//
+// Learnings for beginners:
+//   - How to use the browser's WebSocket API (binary and text messages)
+//   - How Yjs sends only the changes ("updates") instead of the whole document
+//   - How to throttle messages that change very often (the mouse position)
+//
+
+import * as Y from 'yjs';
+import { API_URL, apiFetch, getAuthToken, readApiError } from './api';
+import type { NodePosition } from '../hooks/useMindMapStore';
+
+// Someone else editing the same map
+export interface Peer {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: NodePosition | null; // In map coordinates; null = not over the map
+  selection: string[]; // Ids of the nodes they have selected
+}
+
+export type Presence = Omit<Peer, 'clientId'>;
+
+// "denied" = the server won't let us in (not signed in, or the map isn't shared with us)
+export type CollabStatus = 'connecting' | 'live' | 'offline' | 'denied';
+
+export interface CollabHandlers {
+  onStatus: (status: CollabStatus) => void;
+  onPeers: (peers: Peer[]) => void;
+  onSynced: () => void; // The server's document has arrived (after every (re)connect)
+}
+
+export interface CollabSession {
+  doc: Y.Doc;
+  setPresence: (changes: Partial<Presence>) => void;
+  close: () => void;
+}
+
+// Updates from the server are applied with this origin, so we don't send them back
+export const REMOTE_ORIGIN = 'remote';
+
+// Send presence at most this often, and wait this long before reconnecting
+const PRESENCE_INTERVAL_MS = 50;
+const RECONNECT_DELAY_MS = 2000;
+
+// Close codes that mean "you may not join" (policy violation, and 4000 + the HTTP status)
+const DENIED_CLOSE_CODES = [1008, 4001, 4003];
+
+// --- Helper: the WebSocket address for a map (http -> ws, https -> wss) ---
+function collabUrl(ownerId: string, mapId: string) {
+  const token = encodeURIComponent(getAuthToken() ?? '');
+  return `${API_URL.replace(/^http/, 'ws')}/api/collab/${encodeURIComponent(ownerId)}/${encodeURIComponent(mapId)}?token=${token}`;
+}
+
+// --- The emails one of our maps is shared with ---
+export async function listShares(mapId: string): Promise<string[]> {
+  const res = await apiFetch(`/api/maps/${encodeURIComponent(mapId)}/shares`);
+  if (!res.ok) throw await readApiError(res);
+  return (await res.json()).emails;
+}
+
+// --- Let someone join one of our maps live (returns everyone it's shared with now) ---
+export async function shareMap(mapId: string, email: string): Promise<string[]> {
+  const res = await apiFetch(`/api/maps/${encodeURIComponent(mapId)}/shares`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email }),
+  });
+  if (!res.ok) throw await readApiError(res);
+  return (await res.json()).emails;
+}
+
+// --- Join the live version of a map (maps are named per user, so the owner is needed too) ---
+export function connectCollab(ownerId: string, mapId: string, presence: Presence, handlers: CollabHandlers): CollabSession {
+  const doc = new Y.Doc();
+  const peers = new Map<string, Peer>();
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let everOpened = false; // The server turns people away before the connection opens
+
+  const sendPresence = () => {
+    presenceTimer = null;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'presence', ...presence }));
+  };
+
+  // Our own edits go to the server as they happen
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== REMOTE_ORIGIN && socket?.readyState === WebSocket.OPEN) socket.send(update);
+  });
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    const ws = new WebSocket(collabUrl(ownerId, mapId));
+    ws.binaryType = 'arraybuffer';
+    socket = ws;
+
+    ws.onopen = () => {
+      everOpened = true;
+    };
+
+    ws.onmessage = (event) => {
+      // Binary: a Yjs update (the first one is the whole document)
+      if (event.data instanceof ArrayBuffer) {
+        Y.applyUpdate(doc, new Uint8Array(event.data), REMOTE_ORIGIN);
+        return;
+      }
+      const message = JSON.parse(event.data);
+      if (message.type === 'welcome') {
+        peers.clear();
+        message.peers.forEach((p: Peer) => peers.set(p.clientId, p));
+        // Anything we edited while offline, then who we are
+        ws.send(Y.encodeStateAsUpdate(doc));
+        sendPresence();
+        handlers.onStatus('live');
+        handlers.onSynced();
+      } else if (message.type === 'presence') {
+        peers.set(message.peer.clientId, message.peer);
+      } else if (message.type === 'leave') {
+        peers.delete(message.clientId);
+      }
+      handlers.onPeers(Array.from(peers.values()));
+    };
+
+    ws.onclose = (event) => {
+      if (closed) return;
+      peers.clear();
+      handlers.onPeers([]);
+      // Never got in at all, or told to go away: stop instead of knocking every 2 seconds
+      if (!everOpened || DENIED_CLOSE_CODES.includes(event.code)) {
+        handlers.onStatus('denied');
+        return;
+      }
+      handlers.onStatus('offline');
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    doc,
+    setPresence: (changes) => {
+      Object.assign(presence, changes);
+      if (!presenceTimer) presenceTimer = setTimeout(sendPresence, PRESENCE_INTERVAL_MS);
+    },
+    close: () => {
+      closed = true;
+      if (presenceTimer) clearTimeout(presenceTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      doc.destroy();
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+//
+// mapStorage.test.ts
+//
+// Tests for moving the maps saved before there were accounts into the signed-in user's storage.
+// - Old maps live under "mindmaps:<name>", account maps under "mindmaps:<user id>:<name>"
+// - Uses the localStorage backend, so the whole move happens inside jsdom's localStorage
+//
+// Learnings for beginners:
+//   - How to test code that uses localStorage (jsdom gives every test file its own)
+//   - How to check that a one-time step really only happens once
+//
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { localMapStorage, migrateLegacyLocalMaps, setLocalMapOwner, type MapStorage } from './mapStorage';
+import type { MapSnapshot, SavedMap } from '../hooks/useMindMapStore';
+
+const ME = '11111111-2222-4333-8444-555555555555';
+const SOMEONE_ELSE = '99999999-8888-4777-8666-555555555555';
+
+// --- Helper: a small saved map ---
+const savedMap = (name: string, createdAt = 1): SavedMap => ({
+  name,
+  createdAt,
+  nodes: [{ id: 'a', label: name }],
+  edges: [],
+});
+
+const snapshot = (reason: string, createdAt: number): MapSnapshot => ({ id: reason, createdAt, reason, nodes: [], edges: [] });
+
+beforeEach(() => {
+  localStorage.clear();
+  setLocalMapOwner(ME);
+});
+
+describe('migrateLegacyLocalMaps', () => {
+  it('moves old maps and their history to the signed-in user', async () => {
+    localStorage.setItem('mindmaps:Trip', JSON.stringify(savedMap('Trip')));
+    localStorage.setItem('mindmap-snapshots:Trip', JSON.stringify([snapshot('Newer', 2), snapshot('Older', 1)]));
+
+    expect(await migrateLegacyLocalMaps(localMapStorage)).toEqual(['Trip']);
+    expect(await localMapStorage.get('Trip')).toEqual(savedMap('Trip'));
+    expect((await localMapStorage.listSnapshots('Trip')).map(s => s.reason)).toEqual(['Newer', 'Older']);
+    expect(localStorage.getItem('mindmaps:Trip')).toBeNull();
+    expect(localStorage.getItem('mindmap-snapshots:Trip')).toBeNull();
+  });
+
+  it('only does it once', async () => {
+    localStorage.setItem('mindmaps:Trip', JSON.stringify(savedMap('Trip')));
+    await migrateLegacyLocalMaps(localMapStorage);
+    expect(await migrateLegacyLocalMaps(localMapStorage)).toEqual([]);
+    expect((await localMapStorage.list()).map(m => m.name)).toEqual(['Trip']);
+  });
+
+  it('leaves account maps alone, including other accounts on the same browser', async () => {
+    localStorage.setItem(`mindmaps:${SOMEONE_ELSE}:Theirs`, JSON.stringify(savedMap('Theirs')));
+    await localMapStorage.save(savedMap('Mine'));
+
+    expect(await migrateLegacyLocalMaps(localMapStorage)).toEqual([]);
+    expect(localStorage.getItem(`mindmaps:${SOMEONE_ELSE}:Theirs`)).not.toBeNull();
+    expect((await localMapStorage.list()).map(m => m.name)).toEqual(['Mine']);
+  });
+
+  it('renames a map whose name is already taken', async () => {
+    await localMapStorage.save(savedMap('Trip', 5));
+    localStorage.setItem('mindmaps:Trip', JSON.stringify(savedMap('Trip', 1)));
+
+    expect(await migrateLegacyLocalMaps(localMapStorage)).toEqual(['Trip (2)']);
+    expect((await localMapStorage.get('Trip'))?.createdAt).toBe(5);
+    expect((await localMapStorage.get('Trip (2)'))?.createdAt).toBe(1);
+  });
+
+  it('drops broken entries', async () => {
+    localStorage.setItem('mindmaps:Broken', '{not json');
+    localStorage.setItem('mindmaps:No date', JSON.stringify({ name: 'No date', nodes: [], edges: [] }));
+
+    expect(await migrateLegacyLocalMaps(localMapStorage)).toEqual([]);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('keeps the old maps when they cannot be copied, to try again later', async () => {
+    localStorage.setItem('mindmaps:Trip', JSON.stringify(savedMap('Trip')));
+    const offline: MapStorage = {
+      ...localMapStorage,
+      save: async () => { throw new Error('Storage error (503)'); },
+    };
+
+    await expect(migrateLegacyLocalMaps(offline)).rejects.toThrow('Storage error (503)');
+    expect(localStorage.getItem('mindmaps:Trip')).not.toBeNull();
+  });
+});
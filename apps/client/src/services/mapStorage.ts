@@ -0,0 +1,255 @@
+//
+// mapStorage.ts
+//
+// This file decides WHERE saved mind maps live.
+// - "server" keeps maps on the Express server via /api/maps/:id, per account (the default)
+// - "local" keeps maps in the browser's localStorage, separately for each account that signs in there
+// - Pick one with VITE_MAP_STORAGE in .env
+// - Each map's version history ("snapshots") lives next to it, in the same backend
+//
+// Learnings for beginners:
+//   - How to hide two implementations behind one interface
+//   - How to call a REST API with fetch (GET/PUT/DELETE)
+//   - How to convert between two shapes of the same data
+//
+
+import type { MapSnapshot, MindMap, SavedMap } from '../hooks/useMindMapStore';
+import { apiFetch } from './api';
+
+// Every storage backend supports the same operations
+export interface MapStorage {
+  list: () => Promise<SavedMap[]>;
+  get: (name: string) => Promise<SavedMap | undefined>;
+  save: (map: SavedMap) => Promise<void>;
+  remove: (name: string) => Promise<void>; // Also removes the map's snapshots
+  listSnapshots: (name: string) => Promise<MapSnapshot[]>; // Newest first
+  addSnapshot: (name: string, snapshot: MapSnapshot) => Promise<void>;
+}
+
+// How many snapshots we keep per map (the server keeps the same number)
+export const MAX_SNAPSHOTS = 30;
+
+// --- Helper: is this a usable saved map? ---
+function isValidMap(map: any): map is SavedMap {
+  return Boolean(
+    map &&
+    map.name &&
+    map.nodes &&
+    map.edges &&
+    typeof map.createdAt === 'number' &&
+    !isNaN(map.createdAt)
+  );
+}
+
+// --- Browser storage: one localStorage key per map ("mindmaps:<user id>:<name>") ---
+// Snapshots go in a second key per map ("mindmap-snapshots:<user id>:<name>", newest first).
+// The user id keeps two accounts signed in on the same browser from seeing each other's maps.
+let localOwner: string | null = null;
+
+// Called by the auth store whenever someone signs in or out
+export function setLocalMapOwner(userId: string | null) {
+  localOwner = userId;
+}
+
+// --- Helper: the localStorage key for one of the signed-in user's maps (or its snapshots) ---
+function localKey(prefix: 'mindmaps' | 'mindmap-snapshots', name: string) {
+  if (!localOwner) throw new Error('Please sign in');
+  return `${prefix}:${localOwner}:${name}`;
+}
+
+// --- Helper: the localStorage keys of all the signed-in user's maps (none when signed out) ---
+export function localMapKeys(): string[] {
+  const keys: string[] = [];
+  if (!localOwner) return keys;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(`mindmaps:${localOwner}:`)) keys.push(key);
+  }
+  return keys;
+}
+
+export const localMapStorage: MapStorage = {
+  list: async () => {
+    const maps: SavedMap[] = [];
+    for (const key of localMapKeys()) {
+      try {
+        const map = JSON.parse(localStorage.getItem(key)!);
+        if (isValidMap(map)) maps.push(map);
+      } catch {}
+    }
+    // Sort by most recent
+    return maps.sort((a, b) => b.createdAt - a.createdAt);
+  },
+  get: async (name) => {
+    const raw = localStorage.getItem(localKey('mindmaps', name));
+    return raw ? JSON.parse(raw) : undefined;
+  },
+  save: async (map) => {
+    localStorage.setItem(localKey('mindmaps', map.name), JSON.stringify(map));
+  },
+  remove: async (name) => {
+    localStorage.removeItem(localKey('mindmaps', name));
+    localStorage.removeItem(localKey('mindmap-snapshots', name));
+  },
+  listSnapshots: async (name) => {
+    try {
+      const snapshots = JSON.parse(localStorage.getItem(localKey('mindmap-snapshots', name)) ?? '[]');
+      return Array.isArray(snapshots) ? snapshots : [];
+    } catch {
+      return [];
+    }
+  },
+  addSnapshot: async (name, snapshot) => {
+    const snapshots = [snapshot, ...(await localMapStorage.listSnapshots(name))];
+    // The browser only has a few MB: if it's full, drop the oldest snapshots until it fits
+    for (let keep = MAX_SNAPSHOTS; keep > 0; keep = Math.floor(keep / 2)) {
+      try {
+        localStorage.setItem(localKey('mindmap-snapshots', name), JSON.stringify(snapshots.slice(0, keep)));
+        return;
+      } catch {}
+    }
+  },
+};
+
+// --- Helpers: the server stores MindMap documents, the app uses SavedMap ---
+// The map name doubles as its id, just like the localStorage key does.
+export function toMindMap(map: SavedMap): MindMap {
+  return {
+    id: map.name,
+    name: map.name,
+    nodes: map.nodes,
+    edges: map.edges,
+    clusters: map.clusters,
+    positions: map.positions,
+    viewport: map.viewport,
+    layout: map.layout,
+    colorBy: map.colorBy,
+    collapsed: map.collapsed,
+    pinned: map.pinned,
+    created: map.createdAt,
+    modified: Date.now(),
+  };
+}
+
+export function fromMindMap(map: MindMap): SavedMap {
+  return {
+    name: map.name,
+    createdAt: map.created,
+    nodes: map.nodes,
+    edges: map.edges,
+    clusters: map.clusters,
+    positions: map.positions,
+    viewport: map.viewport,
+    layout: map.layout,
+    colorBy: map.colorBy,
+    collapsed: map.collapsed,
+    pinned: map.pinned,
+  };
+}
+
+// --- Helper: throw a readable error for a failed request ---
+async function checkResponse(res: Response) {
+  if (res.ok) return;
+  let message = `Storage error (${res.status})`;
+  try {
+    const body = await res.json();
+    if (body?.error) message = body.error;
+  } catch {}
+  throw new Error(message);
+}
+
+// --- Server storage: maps live behind the /api/maps/:id routes ---
+export const serverMapStorage: MapStorage = {
+  list: async () => {
+    const res = await apiFetch(`/api/maps`);
+    await checkResponse(res);
+    const data: { maps: MindMap[] } = await res.json();
+    return data.maps.map(fromMindMap);
+  },
+  get: async (name) => {
+    const res = await apiFetch(`/api/maps/${encodeURIComponent(name)}`);
+    if (res.status === 404) return undefined;
+    await checkResponse(res);
+    return fromMindMap(await res.json());
+  },
+  save: async (map) => {
+    const res = await apiFetch(`/api/maps/${encodeURIComponent(map.name)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toMindMap(map)),
+    });
+    await checkResponse(res);
+  },
+  remove: async (name) => {
+    const res = await apiFetch(`/api/maps/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    if (res.status === 404) return;
+    await checkResponse(res);
+  },
+  listSnapshots: async (name) => {
+    const res = await apiFetch(`/api/maps/${encodeURIComponent(name)}/snapshots`);
+    await checkResponse(res);
+    const data: { snapshots: MapSnapshot[] } = await res.json();
+    return data.snapshots;
+  },
+  addSnapshot: async (name, snapshot) => {
+    const res = await apiFetch(`/api/maps/${encodeURIComponent(name)}/snapshots`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(snapshot),
+    });
+    await checkResponse(res);
+  },
+};
+
+// The backend the app uses, chosen by VITE_MAP_STORAGE (the server, unless "local" is asked for)
+export const mapStorage: MapStorage =
+  import.meta.env.VITE_MAP_STORAGE === 'local' ? localMapStorage : serverMapStorage;
+
+// --- Maps saved before there were accounts ("mindmaps:<name>" and "mindmap-snapshots:<name>") ---
+// Whoever signs in first on this browser gets them, in the backend the app uses.
+// Each one is removed from localStorage once it's copied, so this only happens once.
+// Account keys always start with a user id (a UUID), which is how we tell the two apart.
+const ACCOUNT_KEY = /^mindmaps:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}:/i;
+
+// --- Helper: the localStorage keys of the maps saved before there were accounts ---
+function legacyMapKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith('mindmaps:') && !ACCOUNT_KEY.test(key)) keys.push(key);
+  }
+  return keys;
+}
+
+// Copy them (with their snapshots) into the signed-in user's storage; returns the names they got.
+// A name that's already taken gets " (2)", " (3)"... like an imported map.
+export async function migrateLegacyLocalMaps(storage: MapStorage = mapStorage): Promise<string[]> {
+  const keys = legacyMapKeys();
+  if (!keys.length) return [];
+  const taken = new Set((await storage.list()).map(m => m.name));
+  const moved: string[] = [];
+  for (const key of keys) {
+    const snapshotsKey = key.replace(/^mindmaps:/, 'mindmap-snapshots:');
+    let map: unknown;
+    let snapshots: unknown;
+    try {
+      map = JSON.parse(localStorage.getItem(key)!);
+      snapshots = JSON.parse(localStorage.getItem(snapshotsKey) ?? '[]');
+    } catch {}
+    if (isValidMap(map)) {
+      let name = map.name;
+      for (let i = 2; taken.has(name); i++) name = `${map.name} (${i})`;
+      await storage.save({ ...map, name });
+      // Added oldest first, so the history stays newest first
+      if (Array.isArray(snapshots)) {
+        for (const snapshot of [...snapshots].reverse()) await storage.addSnapshot(name, snapshot);
+      }
+      taken.add(name);
+      moved.push(name);
+    }
+    // Broken entries can't be used by anyone, so they go too
+    localStorage.removeItem(key);
+    localStorage.removeItem(snapshotsKey);
+  }
+  return moved;
+}
@@ -0,0 +1,8 @@
+//
+// cytoscape-svg.d.ts
+//
+// This file tells TypeScript that the 'cytoscape-svg' plugin exists.
+// - The plugin adds cy.svg(options), which returns the graph as an SVG string.
+// - Declaring the module like this lets you import and use it in TypeScript without errors.
+//
+declare module 'cytoscape-svg';
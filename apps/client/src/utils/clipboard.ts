@@ -0,0 +1,135 @@
+//
+// clipboard.ts
+//
+// This file turns selected nodes into clipboard data and back (copy, cut, paste, duplicate).
+// - A copy holds the nodes, the edges between them, and where they sit relative to each other
+// - It goes on the clipboard twice: as our own JSON (so it can be pasted into another map),
+//   and as a plain-text outline (so it can be pasted into any other app)
+// - Plain-text outlines from other apps can be pasted too (see fromMarkdown in mapFormats.ts)
+// - Pasted nodes always get new ids, so the same branch can be pasted many times
+//
+// Learnings for beginners:
+//   - How to put several formats on the clipboard at once (clipboardData.setData)
+//   - How to give copied items fresh ids and keep the links between them
+//
+
+import type { MindMapEdge, MindMapNode, NodePosition } from '../hooks/useMindMapStore';
+import { buildForest, fromMarkdown } from './mapFormats';
+import { pickRoot, treePositions } from './layouts';
+
+// The clipboard type for our own data (browsers keep custom types between their own pages)
+export const CLIPBOARD_MIME = 'application/x-synaptia-nodes';
+const CLIPBOARD_FORMAT = 'synaptia-nodes';
+
+// Nodes on the clipboard
+export interface CopiedNodes {
+  nodes: MindMapNode[];
+  edges: MindMapEdge[]; // Only edges between copied nodes
+  positions: Record<string, NodePosition>; // Relative to the middle of the copied nodes
+}
+
+// --- Copy some nodes, the edges between them, and their positions ---
+export function copyNodes(ids: string[], nodes: MindMapNode[], edges: MindMapEdge[], positions: Record<string, NodePosition>): CopiedNodes {
+  const copied = nodes.filter(n => ids.includes(n.id));
+  const inside = new Set(copied.map(n => n.id));
+  const placed = copied.filter(n => positions[n.id]);
+  // The middle of the copied nodes, so a paste can put that middle under the mouse
+  const center = placed.length
+    ? {
+      x: placed.reduce((sum, n) => sum + positions[n.id].x, 0) / placed.length,
+      y: placed.reduce((sum, n) => sum + positions[n.id].y, 0) / placed.length,
+    }
+    : { x: 0, y: 0 };
+  const relative: Record<string, NodePosition> = {};
+  placed.forEach(n => { relative[n.id] = { x: positions[n.id].x - center.x, y: positions[n.id].y - center.y }; });
+  return {
+    nodes: copied,
+    edges: edges.filter(e => inside.has(e.source) && inside.has(e.target)),
+    positions: relative,
+  };
+}
+
+// --- Give every copied node and edge a new id ---
+// Ids keep their shape: AI-suggested nodes stay `${parent}__ai__${uuid}` and edges with an id
+// stay `${source}__${target}__${uuid}`, pointing at the new ids.
+export function withNewIds(copied: CopiedNodes): CopiedNodes & { idMap: Record<string, string> } {
+  const idMap: Record<string, string> = {};
+  copied.nodes.forEach(n => { idMap[n.id] = crypto.randomUUID(); });
+  // Second pass, once every node has its new id: AI nodes are named after their (new) parent
+  copied.nodes.forEach(n => {
+    const parent = n.id.match(/^(.*)__ai__/)?.[1];
+    if (parent && idMap[parent]) idMap[n.id] = `${idMap[parent]}__ai__${idMap[n.id]}`;
+  });
+  const positions: Record<string, NodePosition> = {};
+  Object.entries(copied.positions).forEach(([id, pos]) => { if (idMap[id]) positions[idMap[id]] = pos; });
+  return {
+    idMap,
+    nodes: copied.nodes.map(n => ({ ...n, id: idMap[n.id] })),
+    edges: copied.edges.map(e => {
+      const source = idMap[e.source];
+      const target = idMap[e.target];
+      // Edges without an id get theirs from source and target (see getEdgeId), so they're new already
+      return e.id ? { ...e, id: `${source}__${target}__${crypto.randomUUID()}`, source, target } : { ...e, source, target };
+    }),
+    positions,
+  };
+}
+
+// --- Our own clipboard format ---
+export function serializeCopied(copied: CopiedNodes) {
+  return JSON.stringify({ format: CLIPBOARD_FORMAT, ...copied });
+}
+
+function parseCopied(text: string): CopiedNodes | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.format !== CLIPBOARD_FORMAT || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) return null;
+    const nodes: MindMapNode[] = data.nodes.filter((n: any) => typeof n?.id === 'string' && typeof n?.label === 'string');
+    const ids = new Set(nodes.map(n => n.id));
+    return {
+      nodes,
+      edges: data.edges.filter((e: any) => ids.has(e?.source) && ids.has(e?.target)),
+      positions: data.positions && typeof data.positions === 'object' ? data.positions : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+// --- The copied nodes as an indented outline, for pasting into other apps ---
+export function toOutline(copied: CopiedNodes) {
+  const lines: string[] = [];
+  const write = (item: ReturnType<typeof buildForest>[number], depth: number) => {
+    lines.push(`${'  '.repeat(depth)}- ${item.node.label.replace(/\s*\n\s*/g, ' ').trim()}`);
+    item.children.forEach(child => write(child, depth + 1));
+  };
+  buildForest(copied.nodes, copied.edges).forEach(root => write(root, 0));
+  return lines.join('\n');
+}
+
+// --- Read an outline someone pasted (Markdown bullets, or just indented lines) ---
+function fromOutline(text: string): CopiedNodes | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  // Without any bullets, every line is an item and its indentation says where it goes
+  const hasBullets = lines.some(line => /^\s*(?:[-*+]|\d+[.)])\s+/.test(line));
+  const outline = hasBullets ? text : lines.map(line => line.replace(/^(\s*)(.*)$/, '$1- $2')).join('\n');
+  const { nodes, edges } = fromMarkdown(outline);
+  if (!nodes.length) return null;
+  // Lay the outline out as a small left-to-right tree, centered on (0, 0)
+  const ids = nodes.map(n => n.id);
+  const tree = treePositions(ids, edges, pickRoot(ids, edges), 'lr');
+  const center = {
+    x: ids.reduce((sum, id) => sum + tree[id].x, 0) / ids.length,
+    y: ids.reduce((sum, id) => sum + tree[id].y, 0) / ids.length,
+  };
+  const positions: Record<string, NodePosition> = {};
+  ids.forEach(id => { positions[id] = { x: tree[id].x - center.x, y: tree[id].y - center.y }; });
+  return { nodes, edges, positions };
+}
+
+// --- Whatever was pasted: our own format first, then a plain-text outline ---
+export function readClipboard(data: DataTransfer): CopiedNodes | null {
+  const own = data.getData(CLIPBOARD_MIME);
+  const text = data.getData('text/plain');
+  return (own && parseCopied(own)) || (text.trim() ? fromOutline(text) : null);
+}
@@ -0,0 +1,85 @@
+//
+// exportMap.ts
+//
+// This file turns the rendered mind map into files the user can download.
+// - PNG: a bitmap at a chosen resolution (Cytoscape's built-in cy.png)
+// - SVG: a true vector image (via the cytoscape-svg plugin)
+// - PDF: a print-ready A4 page with the map centred on it (via jsPDF)
+//
+// All exports are drawn by Cytoscape itself, so they keep the current stylesheet
+// (AI-suggested nodes, circular edges, etc.) exactly as you see it on screen.
+//
+// Learnings for beginners:
+//   - How to create a file in the browser and trigger a download
+//   - How to work with Blobs and object URLs
+//   - How to build a PDF document in JavaScript
+//
+
+import type Cytoscape from 'cytoscape';
+import { jsPDF } from 'jspdf';
+
+// Export formats offered in the editor
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+// Background colour for exported images (the canvas itself is transparent)
+const BACKGROUND = '#ffffff';
+
+// --- Helper: turn a map name into a safe file name ---
+export function toFileName(name: string | null, extension: string) {
+  const base = (name || 'mind-map').trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'mind-map';
+  return `${base}.${extension}`;
+}
+
+// --- Helper: make the browser download a Blob as a file ---
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before freeing the memory
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// --- PNG: the whole map, `scale` times the on-screen size ---
+export function exportPng(cy: Cytoscape.Core, fileName: string, scale = 2) {
+  const blob = cy.png({ output: 'blob', full: true, scale, bg: BACKGROUND });
+  downloadBlob(blob, fileName);
+}
+
+// --- SVG: the whole map as vector graphics ---
+export function exportSvg(cy: Cytoscape.Core, fileName: string) {
+  const svg: string = (cy as any).svg({ full: true, scale: 1, bg: BACKGROUND });
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), fileName);
+}
+
+// --- PDF: one A4 page (landscape or portrait, whichever fits the map better) ---
+export function exportPdf(cy: Cytoscape.Core, fileName: string, title?: string) {
+  // Render at 3x so the map stays sharp when printed
+  const dataUrl = cy.png({ output: 'base64uri', full: true, scale: 3, bg: BACKGROUND });
+  const { w, h } = cy.elements().boundingBox({});
+  const orientation = w >= h ? 'landscape' : 'portrait';
+  const pdf = new jsPDF({ orientation, unit: 'mm', format: 'a4' });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const titleSpace = title ? 12 : 0;
+  if (title) {
+    pdf.setFontSize(16);
+    pdf.text(title, margin, margin);
+  }
+
+  // Fit the image inside the margins while keeping its aspect ratio
+  const maxWidth = pageWidth - margin * 2;
+  const maxHeight = pageHeight - margin * 2 - titleSpace;
+  const ratio = Math.min(maxWidth / w, maxHeight / h);
+  const imgWidth = w * ratio;
+  const imgHeight = h * ratio;
+  const x = (pageWidth - imgWidth) / 2;
+  const y = margin + titleSpace + (maxHeight - imgHeight) / 2;
+  pdf.addImage(dataUrl, 'PNG', x, y, imgWidth, imgHeight);
+  pdf.save(fileName);
+}
@@ -0,0 +1,164 @@
+//
+// layouts.ts
+//
+// This file computes node positions for the hierarchical layouts:
+// - "radial": the root in the middle, each level on a ring around it
+// - "tree-lr" / "tree-td": a tree growing left-to-right or top-down
+// The results only depend on the map (no randomness), so the same map always gets the same picture.
+// The force and concentric layouts come with Cytoscape and are run in MindMap.tsx.
+//
+// Learnings for beginners:
+//   - How to turn a graph (which may have cycles) into a tree with breadth-first search
+//   - How to place a tree by counting the leaves below each node
+//   - How to use polar coordinates (angle + radius) for a circular layout
+//
+
+import type { NodePosition } from '../hooks/useMindMapStore';
+
+type Edge = { source: string; target: string };
+
+// Spacing between levels and between neighbors, in canvas units (nodes are 120x50)
+const LEVEL_GAP_X = 220;
+const LEVEL_GAP_Y = 130;
+const SIBLING_GAP_X = 160;
+const SIBLING_GAP_Y = 80;
+const RING_GAP = 220;
+
+// --- Pick a good root: a node nothing points to, with as much below it as possible ---
+export function pickRoot(nodeIds: string[], edges: Edge[]) {
+  const ids = new Set(nodeIds);
+  const inner = edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target);
+  const sizeBelow = (id: string) => {
+    const seen = new Set([id]);
+    const queue = [id];
+    while (queue.length) {
+      const current = queue.shift()!;
+      inner.forEach(e => {
+        if (e.source === current && !seen.has(e.target)) { seen.add(e.target); queue.push(e.target); }
+      });
+    }
+    return seen.size;
+  };
+  const tops = nodeIds.filter(id => !inner.some(e => e.target === id));
+  const candidates = tops.length ? tops : nodeIds;
+  let best = candidates[0];
+  let bestSize = -1;
+  candidates.forEach(id => {
+    const size = sizeBelow(id);
+    if (size > bestSize) { best = id; bestSize = size; }
+  });
+  return best;
+}
+
+// --- Turn the graph into trees (a "forest") with breadth-first search ---
+// Edges are followed forwards (source to target) first. Nodes that only point *into* the tree
+// (e.g. a parent of the chosen root) are hung below the node they point to afterwards.
+// Nodes the root can't reach at all start trees of their own.
+function buildForest(nodeIds: string[], edges: Edge[], rootId: string) {
+  const ids = new Set(nodeIds);
+  const inner = edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target);
+  const children = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  const visited = new Set<string>();
+  const roots: string[] = [];
+
+  // Add everything reachable forwards from `start` below it
+  const expand = (start: string) => {
+    const queue = [start];
+    while (queue.length) {
+      const current = queue.shift()!;
+      inner.forEach(e => {
+        if (e.source === current && !visited.has(e.target)) {
+          visited.add(e.target);
+          children.get(current)!.push(e.target);
+          queue.push(e.target);
+        }
+      });
+    }
+  };
+
+  const grow = (root: string) => {
+    roots.push(root);
+    visited.add(root);
+    expand(root);
+    for (let added = true; added;) {
+      added = false;
+      inner.forEach(e => {
+        if (visited.has(e.target) && !visited.has(e.source)) {
+          visited.add(e.source);
+          children.get(e.target)!.push(e.source);
+          expand(e.source);
+          added = true;
+        }
+      });
+    }
+  };
+
+  grow(ids.has(rootId) ? rootId : pickRoot(nodeIds, edges));
+  while (visited.size < ids.size) {
+    const rest = nodeIds.filter(id => !visited.has(id));
+    grow(pickRoot(rest, edges));
+  }
+  return { roots, children };
+}
+
+// --- A tree growing left-to-right ('lr') or top-down ('td') ---
+export function treePositions(nodeIds: string[], edges: Edge[], rootId: string, direction: 'lr' | 'td') {
+  const { roots, children } = buildForest(nodeIds, edges, rootId);
+  const positions: Record<string, NodePosition> = {};
+  let slot = 0; // The next free place for a leaf, counted across the tree's breadth
+
+  // Leaves take the next slot; a parent sits in the middle of its children
+  const place = (id: string, depth: number): number => {
+    const kids = children.get(id) ?? [];
+    let breadth: number;
+    if (kids.length === 0) {
+      breadth = slot++;
+    } else {
+      const spots = kids.map(k => place(k, depth + 1));
+      breadth = (spots[0] + spots[spots.length - 1]) / 2;
+    }
+    positions[id] = direction === 'lr'
+      ? { x: depth * LEVEL_GAP_X, y: breadth * SIBLING_GAP_Y }
+      : { x: breadth * SIBLING_GAP_X, y: depth * LEVEL_GAP_Y };
+    return breadth;
+  };
+
+  roots.forEach(root => {
+    place(root, 0);
+    slot += 1; // A gap between separate trees
+  });
+  return positions;
+}
+
+// --- The root in the center, each level on a ring further out ---
+// Every subtree gets a slice of the circle as wide as its share of the leaves.
+export function radialPositions(nodeIds: string[], edges: Edge[], rootId: string) {
+  const { roots, children } = buildForest(nodeIds, edges, rootId);
+  // Separate trees hang off the main root, like extra branches
+  const [main, ...others] = roots;
+  children.set(main, [...(children.get(main) ?? []), ...others]);
+
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) ?? [];
+    const count = kids.length ? kids.reduce((sum, k) => sum + countLeaves(k), 0) : 1;
+    leafCounts.set(id, count);
+    return count;
+  };
+  countLeaves(main);
+
+  const positions: Record<string, NodePosition> = {};
+  const place = (id: string, depth: number, start: number, end: number) => {
+    const angle = (start + end) / 2;
+    const radius = depth * RING_GAP;
+    positions[id] = { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    let from = start;
+    (children.get(id) ?? []).forEach(k => {
+      const span = ((end - start) * leafCounts.get(k)!) / leafCounts.get(id)!;
+      place(k, depth + 1, from, from + span);
+      from += span;
+    });
+  };
+  place(main, 0, 0, 2 * Math.PI);
+  return positions;
+}
@@ -0,0 +1,55 @@
+//
+// mapDiff.test.ts
+//
+// Tests for moving edges when nodes are merged (rewireEdges), and for merges in an AI diff.
+//
+// Learnings for beginners:
+//   - How to test a pure function: plain data in, plain data out
+//
+
+import { describe, expect, it } from 'vitest';
+import { applyMapDiff, rewireEdges } from './mapDiff';
+
+describe('rewireEdges', () => {
+  it('moves the edges of the merged nodes to the node they were merged into', () => {
+    const edges = [{ source: 'a', target: 'b' }, { source: 'c', target: 'd', label: 'kept' }];
+    expect(rewireEdges(edges, ['b'], 'x')).toEqual([{ source: 'a', target: 'x' }, { source: 'c', target: 'd', label: 'kept' }]);
+  });
+
+  it('drops the loops and repeats the merge created', () => {
+    const edges = [
+      { source: 'a', target: 'b' }, // Becomes a -> a
+      { source: 'c', target: 'a' },
+      { source: 'c', target: 'b' }, // Becomes c -> a, which is already there
+      { source: 'b', target: 'd' }, // Becomes a -> d, which is already there
+      { source: 'a', target: 'd' },
+      { source: 'b', target: 'e' },
+      { source: 'b', target: 'e', label: 'again' }, // Both become a -> e: only the first stays
+    ];
+    expect(rewireEdges(edges, ['b'], 'a')).toEqual([
+      { source: 'c', target: 'a' },
+      { source: 'a', target: 'd' },
+      { source: 'a', target: 'e' },
+    ]);
+  });
+
+  it('leaves loops and repeats elsewhere in the map alone', () => {
+    const edges = [
+      { source: 'p', target: 'p' },
+      { id: 'e1', source: 'p', target: 'q' },
+      { id: 'e2', source: 'p', target: 'q', relation: 'causes' as const },
+      { source: 'b', target: 'a' },
+    ];
+    expect(rewireEdges(edges, ['b'], 'x')).toEqual([...edges.slice(0, 3), { source: 'x', target: 'a' }]);
+  });
+});
+
+describe('applyMapDiff', () => {
+  it('merges nodes without touching unrelated edges', () => {
+    const nodes = [{ id: 'a', label: 'A', summary: 'one' }, { id: 'b', label: 'B', summary: 'two' }, { id: 'c', label: 'C' }];
+    const edges = [{ source: 'c', target: 'c' }, { source: 'b', target: 'c' }];
+    const result = applyMapDiff(nodes, edges, { nodes: [], edges: [], renames: [], merges: [{ from: 'b', into: 'a' }] });
+    expect(result.nodes).toEqual([{ id: 'a', label: 'A', summary: 'one two' }, { id: 'c', label: 'C' }]);
+    expect(result.edges).toEqual([{ source: 'c', target: 'c' }, { source: 'a', target: 'c' }]);
+  });
+});
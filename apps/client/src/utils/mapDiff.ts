@@ -0,0 +1,88 @@
+//
+// mapDiff.ts
+//
+// This file applies a "diff" to a mind map: the changes the AI proposes when
+// new notes are merged into a map that already exists.
+// - New nodes and edges are added (new nodes are marked as AI-suggested)
+// - Renames change the label of existing nodes
+// - Merges remove one node and move its edges to another (also used by "Merge nodes" in the editor)
+//
+// Learnings for beginners:
+//   - How to describe a set of changes as plain data
+//   - How to update arrays without changing the originals (map/filter)
+//
+
+import type { MindMapNode, MindMapEdge, NodePosition } from '../hooks/useMindMapStore';
+
+// The changes returned by POST /api/maps/merge-notes
+export interface MapDiff {
+  nodes: { id: string; label: string; summary?: string }[];
+  edges: Pick<MindMapEdge, 'source' | 'target' | 'relation' | 'label'>[];
+  renames: { id: string; label: string; reason?: string }[];
+  merges: { from: string; into: string; reason?: string }[];
+}
+
+// --- Is there anything in this diff at all? ---
+export function isEmptyDiff(diff: MapDiff) {
+  return !diff.nodes.length && !diff.edges.length && !diff.renames.length && !diff.merges.length;
+}
+
+// --- Apply a diff to the map, returning the new nodes and edges ---
+export function applyMapDiff(nodes: MindMapNode[], edges: MindMapEdge[], diff: MapDiff) {
+  const labels = new Map(diff.renames.map(r => [r.id, r.label]));
+  let nextNodes: MindMapNode[] = [
+    ...nodes.map(n => (labels.has(n.id) ? { ...n, label: labels.get(n.id)! } : n)),
+    ...diff.nodes.map(n => ({ ...n, aiSuggested: true })),
+  ];
+  let nextEdges: MindMapEdge[] = [...edges, ...diff.edges];
+
+  diff.merges.forEach(({ from, into }) => {
+    const fromNode = nextNodes.find(n => n.id === from);
+    const intoNode = nextNodes.find(n => n.id === into);
+    if (!fromNode || !intoNode) return;
+    // Keep both summaries if they differ
+    const summary = [intoNode.summary, fromNode.summary].filter(Boolean).filter((s, i, all) => all.indexOf(s) === i).join(' ');
+    nextNodes = nextNodes
+      .filter(n => n.id !== from)
+      .map(n => (n.id === into ? { ...n, ...(summary ? { summary } : {}) } : n));
+    nextEdges = rewireEdges(nextEdges, [from], into);
+  });
+
+  return { nodes: nextNodes, edges: nextEdges };
+}
+
+// --- Move the edges of merged nodes (`from`) over to the node they were merged into ---
+// A moved edge that would now loop back to the same node, or repeat another edge, is dropped.
+// Edges that didn't touch a merged node are kept as they are (even loops or repeats made elsewhere).
+export function rewireEdges(edges: MindMapEdge[], from: string[], into: string) {
+  const moves = (e: MindMapEdge) => from.includes(e.source) || from.includes(e.target);
+  const seen = new Set(edges.filter(e => !moves(e)).map(e => `${e.source}|${e.target}`));
+  return edges.flatMap(e => {
+    if (!moves(e)) return [e];
+    const moved = { ...e, source: from.includes(e.source) ? into : e.source, target: from.includes(e.target) ? into : e.target };
+    const key = `${moved.source}|${moved.target}`;
+    if (moved.source === moved.target || seen.has(key)) return [];
+    seen.add(key);
+    return [moved];
+  });
+}
+
+// --- Where to put the new nodes: around the node they're connected to ---
+// `around` places the n-th child of a node (e.g. a spiral); unconnected nodes go around (0, 0).
+export function placeDiffNodes(
+  diff: MapDiff,
+  positions: Record<string, NodePosition>,
+  around: (index: number) => NodePosition,
+) {
+  const placed: Record<string, NodePosition> = { ...positions };
+  const childCount: Record<string, number> = {};
+  diff.nodes.forEach(node => {
+    const edge = diff.edges.find(e => (e.target === node.id && placed[e.source]) || (e.source === node.id && placed[e.target]));
+    const anchorId = edge ? (edge.target === node.id ? edge.source : edge.target) : '';
+    const anchor = placed[anchorId] ?? { x: 0, y: 0 };
+    childCount[anchorId] = (childCount[anchorId] ?? 0) + 1;
+    const offset = around(childCount[anchorId]);
+    placed[node.id] = { x: anchor.x + offset.x, y: anchor.y + offset.y };
+  });
+  return placed;
+}
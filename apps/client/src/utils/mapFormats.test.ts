@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+//
+// mapFormats.test.ts
+//
+// Round-trip tests for the file formats: export a map, import the file, and get the same map back.
+// - Runs in jsdom, because the OPML and FreeMind code uses the browser's DOMParser and XMLSerializer
+// - The test map has everything the outline formats have no place of their own for:
+//   several roots, cross-links, a cycle, edge relations and labels, notes, links, tags, styles, clusters
+//
+// Learnings for beginners:
+//   - How to pick a test environment for one file with a comment at the top
+//   - Why comparing "normalized" data makes a test ignore order that doesn't matter
+//
+
+import { describe, expect, it } from 'vitest';
+import { buildForest, detectFormat, fromMarkdown, parseMap, serializeMap, MAP_FILE_FORMATS, type MapFileFormat } from './mapFormats';
+import type { MindMapEdge, SavedMap } from '../hooks/useMindMapStore';
+
+const MAP: SavedMap = {
+  name: 'Trip & "plans" <2025>',
+  createdAt: 1700000000000,
+  nodes: [
+    { id: 'root', label: 'Trip', summary: 'Where & when', clusterId: 'c1', style: { color: '#16a34a', shape: 'roundrectangle', bold: true } },
+    { id: 'n1', label: 'Flights <cheap>', notes: 'Line one\nLine two with **bold** and a -- dash -->', links: ['https://example.com/a?b=1&c=2', 'mailto:me@example.com'] },
+    { id: 'n2', label: 'Hotel', tags: ['todo', 'booking'], aiSuggested: true, clusterId: 'c1' },
+    { id: 'n3', label: 'Budget', style: { icon: '💰', done: true, size: 'large' } },
+    { id: 'other root', label: 'Packing list' },
+    { id: 'n4', label: 'Passport' },
+  ],
+  edges: [
+    { id: 'e1', source: 'root', target: 'n1', relation: 'part-of', label: 'needs' },
+    { source: 'root', target: 'n2' },
+    { id: 'e3', source: 'n2', target: 'n3', relation: 'causes' },
+    // A second parent for n3 (one of them becomes a cross-link) and a cycle back to the root
+    { id: 'e4', source: 'n1', target: 'n3', relation: 'contradicts', label: 'too expensive' },
+    { source: 'n3', target: 'root', label: 'back' },
+    { source: 'other root', target: 'n4', relation: 'example-of' },
+  ],
+  clusters: [{ id: 'c1', name: 'Must do', color: '#f59e0b' }],
+  positions: { root: { x: 0, y: 0 }, n1: { x: 120.5, y: -40 } },
+  viewport: { zoom: 1.5, pan: { x: 10, y: 20 } },
+  layout: 'tree-lr',
+  colorBy: 'cluster',
+  collapsed: ['other root'],
+  pinned: ['root'],
+};
+
+// --- Helper: the parts of a map a round trip must keep, in an order that doesn't depend on the format ---
+function normalize(map: SavedMap) {
+  const edgeKey = (e: MindMapEdge) => `${e.source}->${e.target}`;
+  const { createdAt, ...rest } = map;
+  return {
+    ...rest,
+    nodes: [...map.nodes].sort((a, b) => a.id.localeCompare(b.id)),
+    edges: [...map.edges].sort((a, b) => edgeKey(a).localeCompare(edgeKey(b))),
+  };
+}
+
+const OUTLINE_FORMATS: MapFileFormat[] = ['markdown', 'opml', 'freemind'];
+
+describe('round trips', () => {
+  it.each(Object.keys(MAP_FILE_FORMATS) as MapFileFormat[])('%s gives back the same map', format => {
+    const file = serializeMap(MAP, format);
+    const fileName = `trip.${MAP_FILE_FORMATS[format].extension}`;
+    expect(detectFormat(fileName, file)).toBe(format);
+    expect(normalize(parseMap(file, fileName))).toEqual(normalize(MAP));
+  });
+
+  it.each(OUTLINE_FORMATS)('%s keeps a map with a single root and nothing extra', format => {
+    const map: SavedMap = {
+      name: 'Plain',
+      createdAt: 1,
+      nodes: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }],
+      edges: [{ source: 'a', target: 'b' }],
+    };
+    const fileName = `plain.${MAP_FILE_FORMATS[format].extension}`;
+    expect(normalize(parseMap(serializeMap(map, format), fileName))).toEqual(normalize(map));
+  });
+});
+
+describe('buildForest', () => {
+  it('places every node once and turns the other edges into cross-links', () => {
+    const forest = buildForest(MAP.nodes, MAP.edges);
+    // "root" has a parent through the cycle, so the real root comes first
+    expect(forest.map(item => item.node.id)).toEqual(['other root', 'root']);
+    const trip = forest[1];
+    expect(trip.children.map(item => item.node.id)).toEqual(['n1', 'n2']);
+    const [flights, hotel] = trip.children;
+    expect(flights.edge?.id).toBe('e1');
+    // Depth-first: n3 is reached from n1 first, so the edge from n2 is the cross-link
+    expect(flights.children.map(item => item.edge?.id)).toEqual(['e4']);
+    expect(hotel.links.map(e => e.id)).toEqual(['e3']);
+  });
+});
+
+describe('fromMarkdown', () => {
+  it('reads a plain outline without any of our comments', () => {
+    const map = fromMarkdown('# Ideas\n\n- One\n  - Two\n    > A summary\n  - Three\n- Four\n');
+    expect(map.name).toBe('Ideas');
+    expect(map.nodes.map(n => n.label)).toEqual(['One', 'Two', 'Three', 'Four']);
+    expect(map.nodes[1].summary).toBe('A summary');
+    const idOf = (label: string) => map.nodes.find(n => n.label === label)!.id;
+    expect(map.edges).toEqual([
+      { source: idOf('One'), target: idOf('Two') },
+      { source: idOf('One'), target: idOf('Three') },
+    ]);
+  });
+
+  it('ignores broken data in comments instead of failing the import', () => {
+    const map = fromMarkdown('- One <!-- id:a data:%E0%A4%A edge:{not-json} -->\n  - Two <!-- id:b edge:%7Bnope -->\n');
+    expect(map.nodes).toEqual([{ id: 'a', label: 'One' }, { id: 'b', label: 'Two' }]);
+    expect(map.edges).toEqual([{ source: 'a', target: 'b' }]);
+  });
+});
@@ -0,0 +1,516 @@
+//
+// mapFormats.ts
+//
+// This file converts saved mind maps to and from other file formats.
+// - JSON: our own versioned format (lossless, includes positions and zoom)
+// - Markdown: a nested bullet outline
+// - OPML: the outline format most outliners understand
+// - FreeMind (.mm): the XML format used by FreeMind and Freeplane
+//
+// Mind maps are graphs, but Markdown/OPML/FreeMind are trees. To turn a graph into a
+// tree we walk it from its roots; every node is written once, and edges that would
+// visit a node a second time (extra parents or cycles) are written as cross-links.
+// Node ids are kept (as comments/attributes), so a round trip gives back the same graph.
+// Whatever a format has no place of its own for (notes, links, tags, styles, edge relations
+// and labels, clusters, positions...) is written alongside as JSON, so nothing is lost either.
+//
+// Learnings for beginners:
+//   - How to turn a graph into a tree (depth-first search with a "visited" set)
+//   - How to build and parse XML with DOMParser and XMLSerializer
+//   - How to parse an indented outline with a stack
+//
+
+import type { MindMap, MindMapEdge, MindMapNode, SavedMap } from '../hooks/useMindMapStore';
+import { toMindMap, fromMindMap } from '../services/mapStorage';
+
+// Formats we can read and write
+export type MapFileFormat = 'json' | 'markdown' | 'opml' | 'freemind';
+
+// Details for each format (used for file names and downloads)
+export const MAP_FILE_FORMATS: Record<MapFileFormat, { label: string; extension: string; mime: string }> = {
+  json: { label: 'Synaptia JSON', extension: 'json', mime: 'application/json' },
+  markdown: { label: 'Markdown outline', extension: 'md', mime: 'text/markdown' },
+  opml: { label: 'OPML', extension: 'opml', mime: 'text/x-opml' },
+  freemind: { label: 'FreeMind (.mm)', extension: 'mm', mime: 'application/x-freemind' },
+};
+
+// Our own JSON format: a versioned wrapper around the MindMap document
+export const NATIVE_FORMAT = 'synaptia-map';
+export const NATIVE_VERSION = 1;
+
+interface NativeMapFile {
+  format: typeof NATIVE_FORMAT;
+  version: number;
+  map: MindMap;
+}
+
+// FreeMind files have exactly one root; if a map has several we add this one on top
+const FREEMIND_ROOT_ID = 'synaptia_root';
+
+// The fields the outline formats have no place of their own for (kept as JSON, see extrasOf)
+const NODE_EXTRA_FIELDS = ['aiSuggested', 'clusterId', 'notes', 'links', 'tags', 'style'] as const;
+const EDGE_EXTRA_FIELDS = ['id', 'relation', 'label'] as const;
+const MAP_EXTRA_FIELDS = ['clusters', 'positions', 'viewport', 'layout', 'colorBy', 'collapsed', 'pinned'] as const;
+
+type NodeExtras = Pick<MindMapNode, typeof NODE_EXTRA_FIELDS[number]>;
+type EdgeExtras = Pick<MindMapEdge, typeof EDGE_EXTRA_FIELDS[number]>;
+type MapExtras = Pick<SavedMap, typeof MAP_EXTRA_FIELDS[number]>;
+
+// FreeMind has no title either: the map name goes with the other map fields
+const FREEMIND_MAP_FIELDS = [...MAP_EXTRA_FIELDS, 'name'] as const;
+type FreeMindMapExtras = Pick<SavedMap, typeof FREEMIND_MAP_FIELDS[number]>;
+
+// --- Graph -> tree ---
+
+interface TreeItem {
+  node: MindMapNode;
+  edge?: MindMapEdge; // The edge from its parent (none for a root)
+  children: TreeItem[];
+  links: MindMapEdge[]; // Cross-links that start at this node
+}
+
+// Walk the graph depth-first from its roots. Each node appears once in the tree;
+// any edge that points at an already-placed node becomes a cross-link instead.
+export function buildForest(nodes: MindMapNode[], edges: MindMapEdge[]): TreeItem[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const outgoing = new Map<string, MindMapEdge[]>();
+  const hasParent = new Set<string>();
+  edges.forEach(e => {
+    if (!byId.has(e.source) || !byId.has(e.target)) return;
+    outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e]);
+    if (e.source !== e.target) hasParent.add(e.target);
+  });
+
+  const visited = new Set<string>();
+  const visit = (node: MindMapNode, edge?: MindMapEdge): TreeItem => {
+    visited.add(node.id);
+    const item: TreeItem = { node, edge, children: [], links: [] };
+    (outgoing.get(node.id) ?? []).forEach(e => {
+      if (visited.has(e.target)) item.links.push(e);
+      else item.children.push(visit(byId.get(e.target)!, e));
+    });
+    return item;
+  };
+
+  // Real roots first (nodes nobody points at), then whatever is left inside cycles
+  const roots: TreeItem[] = [];
+  nodes.filter(n => !hasParent.has(n.id)).forEach(n => { if (!visited.has(n.id)) roots.push(visit(n)); });
+  nodes.forEach(n => { if (!visited.has(n.id)) roots.push(visit(n)); });
+  return roots;
+}
+
+// --- Helper: make a fresh id for nodes that come without one ---
+function newId() {
+  return crypto.randomUUID();
+}
+
+// --- Helper: labels must stay on one line in outline formats ---
+function oneLine(text: string) {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// --- Helper: add an edge unless it's already there ---
+function pushEdge(edges: MindMapEdge[], source: string, target: string, extras: EdgeExtras = {}) {
+  if (!edges.some(e => e.source === source && e.target === target)) edges.push({ ...extras, source, target });
+}
+
+// --- Helper: the given fields of an object as JSON (null if it has none of them) ---
+function extrasOf<T extends object>(value: T | undefined, fields: readonly (keyof T)[]): string | null {
+  if (!value) return null;
+  const extras: Partial<T> = {};
+  fields.forEach(field => { if (value[field] !== undefined) extras[field] = value[field]; });
+  return Object.keys(extras).length ? JSON.stringify(extras) : null;
+}
+
+// --- Helper: read JSON written by extrasOf, keeping only the given fields (bad JSON = none) ---
+function readExtras<T extends object>(text: string | null | undefined, fields: readonly (keyof T)[]): Partial<T> {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const extras: Partial<T> = {};
+    fields.forEach(field => { if (parsed[field] !== undefined) extras[field] = parsed[field]; });
+    return extras;
+  } catch {
+    return {};
+  }
+}
+
+// ===================== JSON =====================
+
+function toJson(map: SavedMap) {
+  const file: NativeMapFile = { format: NATIVE_FORMAT, version: NATIVE_VERSION, map: toMindMap(map) };
+  return JSON.stringify(file, null, 2);
+}
+
+function fromJson(text: string): SavedMap {
+  const file = JSON.parse(text);
+  if (file?.format !== NATIVE_FORMAT || typeof file.version !== 'number') {
+    throw new Error('Not a Synaptia map file');
+  }
+  if (file.version > NATIVE_VERSION) {
+    throw new Error(`This map was saved by a newer version of Synaptia (format v${file.version})`);
+  }
+  const map = file.map;
+  if (!map || typeof map.name !== 'string' || !Array.isArray(map.nodes) || !Array.isArray(map.edges)) {
+    throw new Error('The map file is incomplete');
+  }
+  return fromMindMap({ ...map, created: typeof map.created === 'number' ? map.created : Date.now() });
+}
+
+// ===================== Markdown =====================
+// # Map name
+// <!-- map:{clusters, positions...} -->
+// - Label <!-- id:n1 data:{notes, tags...} edge:{relation, label...} -->
+//   > optional summary
+// ## Cross-links
+// - Label A → Label B <!-- link:n1 n2 edge:{...} -->
+// (The JSON is URI-encoded, so it has no spaces and can't end the comment.)
+
+const CROSS_LINKS_HEADING = '## Cross-links';
+
+// --- Helper: " key:<encoded JSON>" for a Markdown comment (empty if there's nothing to keep) ---
+function commentField(key: string, json: string | null) {
+  return json ? ` ${key}:${encodeURIComponent(json)}` : '';
+}
+
+// --- Helper: read a "key:<value>" field back out of a Markdown comment ---
+function readCommentField(comment: string, key: string) {
+  const match = comment.match(new RegExp(`(?:^|\\s)${key}:(\\S+)`));
+  try {
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null; // A broken escape: treat the field as missing
+  }
+}
+
+function toMarkdown(map: SavedMap) {
+  const lines: string[] = [`# ${oneLine(map.name)}`, ''];
+  const mapExtras = extrasOf(map, MAP_EXTRA_FIELDS);
+  if (mapExtras) lines.push(`<!--${commentField('map', mapExtras)} -->`, '');
+  const links: MindMapEdge[] = [];
+  const labelOf = new Map(map.nodes.map(n => [n.id, oneLine(n.label)]));
+  const write = (item: TreeItem, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const data = commentField('data', extrasOf(item.node, NODE_EXTRA_FIELDS)) + commentField('edge', extrasOf(item.edge, EDGE_EXTRA_FIELDS));
+    lines.push(`${indent}- ${oneLine(item.node.label)} <!-- id:${encodeURIComponent(item.node.id)}${data} -->`);
+    if (item.node.summary) lines.push(`${indent}  > ${oneLine(item.node.summary)}`);
+    links.push(...item.links);
+    item.children.forEach(child => write(child, depth + 1));
+  };
+  buildForest(map.nodes, map.edges).forEach(root => write(root, 0));
+  if (links.length) {
+    lines.push('', CROSS_LINKS_HEADING, '');
+    links.forEach(e => {
+      const data = commentField('edge', extrasOf(e, EDGE_EXTRA_FIELDS));
+      lines.push(`- ${labelOf.get(e.source)} → ${labelOf.get(e.target)} <!-- link:${encodeURIComponent(e.source)} ${encodeURIComponent(e.target)}${data} -->`);
+    });
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Parse a Markdown (or plain-text) bullet outline. Indentation decides the parent.
+export function fromMarkdown(text: string, fallbackName = 'Imported map'): SavedMap {
+  const nodes: MindMapNode[] = [];
+  const edges: MindMapEdge[] = [];
+  const stack: { indent: number; id: string }[] = [];
+  let name = fallbackName;
+  let mapExtras: Partial<MapExtras> = {};
+  let inLinks = false;
+  let last: MindMapNode | null = null;
+
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.replace(/\t/g, '  ');
+    if (!line.trim()) return;
+    const heading = line.match(/^#\s+(.*)$/);
+    if (heading && nodes.length === 0) {
+      name = heading[1].trim();
+      return;
+    }
+    const mapComment = line.match(/^\s*<!--(\s*map:\S+\s*)-->\s*$/);
+    if (mapComment && nodes.length === 0) {
+      mapExtras = readExtras<MapExtras>(readCommentField(mapComment[1], 'map'), MAP_EXTRA_FIELDS);
+      return;
+    }
+    if (line.trim() === CROSS_LINKS_HEADING) {
+      inLinks = true;
+      return;
+    }
+    if (inLinks) {
+      const link = line.match(/<!--\s*link:(\S+)\s+(\S+)([\s\S]*?)-->/);
+      if (link) {
+        const extras = readExtras<EdgeExtras>(readCommentField(link[3], 'edge'), EDGE_EXTRA_FIELDS);
+        pushEdge(edges, decodeURIComponent(link[1]), decodeURIComponent(link[2]), extras);
+      }
+      return;
+    }
+    const summary = line.match(/^\s*>\s?(.*)$/);
+    if (summary && last) {
+      last.summary = last.summary ? `${last.summary} ${summary[1].trim()}` : summary[1].trim();
+      return;
+    }
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!bullet) return;
+    const indent = bullet[1].length;
+    const comment = bullet[2].match(/<!--([\s\S]*?)-->/)?.[1] ?? '';
+    const label = bullet[2].replace(/<!--[\s\S]*?-->/g, '').trim();
+    if (!label) return;
+    const extras = readExtras<NodeExtras>(readCommentField(comment, 'data'), NODE_EXTRA_FIELDS);
+    const node: MindMapNode = { ...extras, id: readCommentField(comment, 'id') ?? newId(), label };
+    nodes.push(node);
+    last = node;
+    // Pop back up to this item's parent, then link to it
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length) {
+      pushEdge(edges, stack[stack.length - 1].id, node.id, readExtras<EdgeExtras>(readCommentField(comment, 'edge'), EDGE_EXTRA_FIELDS));
+    }
+    stack.push({ indent, id: node.id });
+  });
+
+  return { ...mapExtras, name, createdAt: Date.now(), nodes, edges };
+}
+
+// ===================== XML helpers =====================
+
+function serializeXml(doc: XMLDocument) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(doc)}\n`;
+}
+
+function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('The file is not valid XML');
+  return doc;
+}
+
+// Direct child elements with a given tag name
+function childElements(el: Element, tag: string) {
+  return Array.from(el.children).filter(child => child.tagName === tag);
+}
+
+// ===================== OPML =====================
+// <body _map="{clusters, positions...}">
+// <outline text="Label" _id="n1" _note="summary" _data="{notes, tags...}" _edge="{relation, label...}">
+//   <outline text="Other label" type="link" url="#n2" _edge="{...}"/>   (a cross-link)
+
+function toOpml(map: SavedMap) {
+  const doc = document.implementation.createDocument(null, 'opml', null);
+  const opml = doc.documentElement;
+  opml.setAttribute('version', '2.0');
+  const head = doc.createElement('head');
+  const title = doc.createElement('title');
+  title.textContent = map.name;
+  head.appendChild(title);
+  opml.appendChild(head);
+  const body = doc.createElement('body');
+  const mapExtras = extrasOf(map, MAP_EXTRA_FIELDS);
+  if (mapExtras) body.setAttribute('_map', mapExtras);
+  opml.appendChild(body);
+
+  // --- Helper: set an attribute only if there's something to keep ---
+  const setData = (el: Element, name: string, json: string | null) => { if (json) el.setAttribute(name, json); };
+
+  const labelOf = new Map(map.nodes.map(n => [n.id, n.label]));
+  const write = (item: TreeItem, parent: Element) => {
+    const outline = doc.createElement('outline');
+    outline.setAttribute('text', item.node.label);
+    outline.setAttribute('_id', item.node.id);
+    if (item.node.summary) outline.setAttribute('_note', item.node.summary);
+    setData(outline, '_data', extrasOf(item.node, NODE_EXTRA_FIELDS));
+    setData(outline, '_edge', extrasOf(item.edge, EDGE_EXTRA_FIELDS));
+    item.children.forEach(child => write(child, outline));
+    item.links.forEach(e => {
+      const link = doc.createElement('outline');
+      link.setAttribute('text', labelOf.get(e.target) ?? e.target);
+      link.setAttribute('type', 'link');
+      link.setAttribute('url', `#${e.target}`);
+      setData(link, '_edge', extrasOf(e, EDGE_EXTRA_FIELDS));
+      outline.appendChild(link);
+    });
+    parent.appendChild(outline);
+  };
+  buildForest(map.nodes, map.edges).forEach(root => write(root, body));
+  return serializeXml(doc);
+}
+
+function fromOpml(text: string, fallbackName: string): SavedMap {
+  const doc = parseXml(text);
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) throw new Error('The OPML file has no <body>');
+  const nodes: MindMapNode[] = [];
+  const edges: MindMapEdge[] = [];
+  const read = (el: Element, parentId: string | null) => {
+    const url = el.getAttribute('url') ?? '';
+    const edgeExtras = readExtras<EdgeExtras>(el.getAttribute('_edge'), EDGE_EXTRA_FIELDS);
+    if (el.getAttribute('type') === 'link' && url.startsWith('#')) {
+      if (parentId) pushEdge(edges, parentId, url.slice(1), edgeExtras);
+      return;
+    }
+    const node: MindMapNode = {
+      ...readExtras<NodeExtras>(el.getAttribute('_data'), NODE_EXTRA_FIELDS),
+      id: el.getAttribute('_id') || newId(),
+      label: el.getAttribute('text') || el.getAttribute('title') || '',
+    };
+    const note = el.getAttribute('_note');
+    if (note) node.summary = note;
+    nodes.push(node);
+    if (parentId) pushEdge(edges, parentId, node.id, edgeExtras);
+    childElements(el, 'outline').forEach(child => read(child, node.id));
+  };
+  childElements(body, 'outline').forEach(el => read(el, null));
+  const name = doc.getElementsByTagName('title')[0]?.textContent?.trim() || fallbackName;
+  const mapExtras = readExtras<MapExtras>(body.getAttribute('_map'), MAP_EXTRA_FIELDS);
+  return { ...mapExtras, name, createdAt: Date.now(), nodes, edges };
+}
+
+// ===================== FreeMind =====================
+// <map version="1.0.1">
+//   <node ID="n1" TEXT="Label">
+//     <attribute NAME="synaptia-map" VALUE="{name, clusters, positions...}"/>   (on the top node only)
+//     <attribute NAME="synaptia-data" VALUE="{notes, tags...}"/>
+//     <attribute NAME="synaptia-edge" VALUE="{relation, label...}"/>   (the edge from its parent)
+//     <richcontent TYPE="NOTE"><html><head/><body><p>summary</p></body></html></richcontent>
+//     <arrowlink DESTINATION="n2" SYNAPTIA_EDGE="{...}"/>   (a cross-link)
+
+// --- Helpers: our own data in FreeMind <attribute> elements (shown as a node's attributes in Freeplane) ---
+function addFreeMindAttribute(el: Element, name: string, json: string | null) {
+  if (!json) return;
+  const attribute = el.ownerDocument.createElement('attribute');
+  attribute.setAttribute('NAME', name);
+  attribute.setAttribute('VALUE', json);
+  el.appendChild(attribute);
+}
+
+function readFreeMindAttribute(el: Element, name: string) {
+  return childElements(el, 'attribute').find(a => a.getAttribute('NAME') === name)?.getAttribute('VALUE') ?? null;
+}
+
+function toFreeMind(map: SavedMap) {
+  const doc = document.implementation.createDocument(null, 'map', null);
+  const root = doc.documentElement;
+  root.setAttribute('version', '1.0.1');
+
+  const write = (item: TreeItem, parent: Element) => {
+    const el = doc.createElement('node');
+    el.setAttribute('ID', item.node.id);
+    el.setAttribute('TEXT', item.node.label);
+    addFreeMindAttribute(el, 'synaptia-data', extrasOf(item.node, NODE_EXTRA_FIELDS));
+    addFreeMindAttribute(el, 'synaptia-edge', extrasOf(item.edge, EDGE_EXTRA_FIELDS));
+    if (item.node.summary) {
+      const note = doc.createElement('richcontent');
+      note.setAttribute('TYPE', 'NOTE');
+      const html = doc.createElement('html');
+      html.appendChild(doc.createElement('head'));
+      const body = doc.createElement('body');
+      const p = doc.createElement('p');
+      p.textContent = item.node.summary;
+      body.appendChild(p);
+      html.appendChild(body);
+      note.appendChild(html);
+      el.appendChild(note);
+    }
+    item.links.forEach(e => {
+      const link = doc.createElement('arrowlink');
+      link.setAttribute('DESTINATION', e.target);
+      const edgeExtras = extrasOf(e, EDGE_EXTRA_FIELDS);
+      if (edgeExtras) link.setAttribute('SYNAPTIA_EDGE', edgeExtras);
+      el.appendChild(link);
+    });
+    item.children.forEach(child => write(child, el));
+    parent.appendChild(el);
+  };
+
+  const forest = buildForest(map.nodes, map.edges);
+  if (forest.length === 1) {
+    write(forest[0], root);
+  } else {
+    // Several roots: hang them under one extra node named after the map
+    const top = doc.createElement('node');
+    top.setAttribute('ID', FREEMIND_ROOT_ID);
+    top.setAttribute('TEXT', map.name);
+    forest.forEach(item => write(item, top));
+    root.appendChild(top);
+  }
+  // The map's own settings go on the top node (FreeMind has nowhere else for them)
+  const top = childElements(root, 'node')[0];
+  if (top) addFreeMindAttribute(top, 'synaptia-map', extrasOf(map, FREEMIND_MAP_FIELDS));
+  return serializeXml(doc);
+}
+
+function fromFreeMind(text: string, fallbackName: string): SavedMap {
+  const doc = parseXml(text);
+  const nodes: MindMapNode[] = [];
+  const edges: MindMapEdge[] = [];
+  const read = (el: Element, parentId: string | null) => {
+    const node: MindMapNode = {
+      ...readExtras<NodeExtras>(readFreeMindAttribute(el, 'synaptia-data'), NODE_EXTRA_FIELDS),
+      id: el.getAttribute('ID') || newId(),
+      label: el.getAttribute('TEXT') || '',
+    };
+    const note = childElements(el, 'richcontent').find(rc => rc.getAttribute('TYPE') === 'NOTE');
+    const summary = note?.textContent?.trim();
+    if (summary) node.summary = summary;
+    nodes.push(node);
+    if (parentId) {
+      pushEdge(edges, parentId, node.id, readExtras<EdgeExtras>(readFreeMindAttribute(el, 'synaptia-edge'), EDGE_EXTRA_FIELDS));
+    }
+    childElements(el, 'arrowlink').forEach(link => {
+      const target = link.getAttribute('DESTINATION');
+      if (target) pushEdge(edges, node.id, target, readExtras<EdgeExtras>(link.getAttribute('SYNAPTIA_EDGE'), EDGE_EXTRA_FIELDS));
+    });
+    childElements(el, 'node').forEach(child => read(child, node.id));
+  };
+
+  let name = fallbackName;
+  let mapExtras: Partial<FreeMindMapExtras> = {};
+  childElements(doc.documentElement, 'node').forEach(top => {
+    mapExtras = { ...mapExtras, ...readExtras<FreeMindMapExtras>(readFreeMindAttribute(top, 'synaptia-map'), FREEMIND_MAP_FIELDS) };
+    if (top.getAttribute('ID') === FREEMIND_ROOT_ID) {
+      // Our own wrapper node: its children are the real roots
+      name = top.getAttribute('TEXT') || name;
+      childElements(top, 'node').forEach(child => read(child, null));
+    } else {
+      read(top, null);
+    }
+  });
+  return { ...mapExtras, name: typeof mapExtras.name === 'string' && mapExtras.name ? mapExtras.name : name, createdAt: Date.now(), nodes, edges };
+}
+
+// ===================== Public API =====================
+
+// Convert a saved map to file contents in the given format
+export function serializeMap(map: SavedMap, format: MapFileFormat): string {
+  switch (format) {
+    case 'json': return toJson(map);
+    case 'markdown': return toMarkdown(map);
+    case 'opml': return toOpml(map);
+    case 'freemind': return toFreeMind(map);
+  }
+}
+
+// Guess a file's format from its extension (falling back to its contents)
+export function detectFormat(fileName: string, text: string): MapFileFormat {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'json') return 'json';
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') return 'markdown';
+  if (ext === 'opml') return 'opml';
+  if (ext === 'mm') return 'freemind';
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (/<opml[\s>]/.test(start)) return 'opml';
+  if (/<map[\s>]/.test(start)) return 'freemind';
+  return 'markdown';
+}
+
+// Read a map from file contents. Edges pointing at unknown nodes are dropped.
+export function parseMap(text: string, fileName: string): SavedMap {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported map';
+  const format = detectFormat(fileName, text);
+  const map =
+    format === 'json' ? fromJson(text)
+    : format === 'opml' ? fromOpml(text, fallbackName)
+    : format === 'freemind' ? fromFreeMind(text, fallbackName)
+    : fromMarkdown(text, fallbackName);
+  if (map.nodes.length === 0) throw new Error('No nodes found in the file');
+  const ids = new Set(map.nodes.map(n => n.id));
+  return { ...map, edges: map.edges.filter(e => ids.has(e.source) && ids.has(e.target)) };
+}
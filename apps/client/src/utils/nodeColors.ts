@@ -0,0 +1,47 @@
+//
+// nodeColors.ts
+//
+// This file decides the fill color of each node on the canvas.
+// - "node": every node uses its own color (set from the node menu), if any
+// - "cluster": nodes take the color of their cluster
+// - "tag": nodes take a color for their first tag
+// It also returns the legend: which color stands for which cluster or tag.
+//
+// Learnings for beginners:
+//   - How to hand out colors from a palette in a stable order
+//   - How to return a lookup function together with the data it was built from
+//
+
+import { CLUSTER_COLORS, type MapColorBy, type MindMapCluster, type MindMapNode } from '../hooks/useMindMapStore';
+
+// One row of the legend
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// --- Work out node colors and the legend for the chosen mode ---
+export function getNodeColors(nodes: MindMapNode[], clusters: MindMapCluster[], colorBy: MapColorBy) {
+  if (colorBy === 'cluster') {
+    const colors = new Map(clusters.map(c => [c.id, c.color]));
+    return {
+      legend: clusters
+        .filter(c => nodes.some(n => n.clusterId === c.id))
+        .map(c => ({ label: c.name, color: c.color })),
+      colorOf: (node: MindMapNode) => (node.clusterId ? colors.get(node.clusterId) : undefined),
+    };
+  }
+  if (colorBy === 'tag') {
+    // Tags are sorted so each keeps its color when nodes are added or moved around
+    const tags = Array.from(new Set(nodes.flatMap(n => n.tags?.slice(0, 1) ?? []))).sort();
+    const colors = new Map(tags.map((t, i) => [t, CLUSTER_COLORS[i % CLUSTER_COLORS.length]]));
+    return {
+      legend: tags.map(t => ({ label: t, color: colors.get(t)! })),
+      colorOf: (node: MindMapNode) => (node.tags?.length ? colors.get(node.tags[0]) : undefined),
+    };
+  }
+  return {
+    legend: [] as LegendEntry[],
+    colorOf: (node: MindMapNode) => node.style?.color,
+  };
+}
@@ -0,0 +1,123 @@
+//
+// search.ts
+//
+// This file finds nodes that match a search query ("fuzzy" search).
+// - Looks in node labels, summaries, and notes (a hit in the label counts most)
+// - Every word of the query must match: exactly, as part of a word, or with one typo
+// - Labels also match abbreviations, e.g. "ml" finds "Machine Learning"
+// - Results are sorted best first, with a short snippet showing where the match is
+//
+// Learnings for beginners:
+//   - How to score search results so the best ones come first
+//   - How the Levenshtein (edit) distance counts typos
+//   - How to cut a short snippet out of a long text
+//
+
+import type { MindMapNode } from '../hooks/useMindMapStore';
+
+export type SearchField = 'label' | 'summary' | 'notes';
+
+// One matching node
+export interface SearchHit {
+  nodeId: string;
+  label: string;
+  field: SearchField; // Where the best match was
+  snippet: string; // Text around the match (the label itself for label hits)
+  score: number; // Higher is better
+}
+
+// A hit in the label is worth more than one in the summary, which beats one in the notes
+const FIELD_WEIGHTS: Record<SearchField, number> = { label: 3, summary: 2, notes: 1 };
+
+// How many characters of text to show around a match
+const SNIPPET_RADIUS = 40;
+
+// --- Helper: the number of single-letter edits that turn a into b (stops early once it's over max) ---
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// --- Helper: are the letters of `query` found in `text`, in order? ("ml" in "machine learning") ---
+function isSubsequence(query: string, text: string) {
+  let i = 0;
+  for (const ch of text) if (ch === query[i]) i++;
+  return i === query.length;
+}
+
+// --- Score one query word against a text; 0 means no match ---
+function scoreWord(word: string, text: string, words: string[], allowAbbreviation: boolean) {
+  if (words.includes(word)) return 4; // A whole word
+  if (words.some(w => w.startsWith(word))) return 3; // The start of a word
+  if (text.includes(word)) return 2; // Somewhere inside a word
+  // One typo is forgiven in words long enough for that to be safe
+  if (word.length >= 4 && words.some(w => editDistance(word, w, 1) <= 1)) return 1;
+  if (allowAbbreviation && word.length >= 2 && isSubsequence(word, text.replace(/\s+/g, ''))) return 0.5;
+  return 0;
+}
+
+// --- Score a whole query against one field; 0 means not every word matched ---
+function scoreText(queryWords: string[], text: string, allowAbbreviation: boolean) {
+  const lower = text.toLowerCase();
+  const words = lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  let total = 0;
+  for (const word of queryWords) {
+    const score = scoreWord(word, lower, words, allowAbbreviation);
+    if (!score) return 0;
+    total += score;
+  }
+  return total;
+}
+
+// --- Helper: a short piece of text around the first matching word ---
+function makeSnippet(text: string, queryWords: string[]) {
+  const lower = text.toLowerCase();
+  const at = Math.max(0, Math.min(...queryWords.map(w => {
+    const i = lower.indexOf(w);
+    return i === -1 ? Infinity : i;
+  })));
+  const start = Number.isFinite(at) ? Math.max(0, at - SNIPPET_RADIUS) : 0;
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 3);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+// --- Split a query into lowercase words ---
+export function toQueryWords(query: string) {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// --- Does a short text (e.g. a map name) match the query? ---
+export function matchesText(query: string, text: string) {
+  const words = toQueryWords(query);
+  return words.length > 0 && scoreText(words, text, true) > 0;
+}
+
+// --- Find the nodes matching a query, best first ---
+export function searchNodes(nodes: MindMapNode[], query: string): SearchHit[] {
+  const queryWords = toQueryWords(query);
+  if (queryWords.length === 0) return [];
+  const hits: SearchHit[] = [];
+  nodes.forEach(node => {
+    let best: SearchHit | null = null;
+    for (const field of ['label', 'summary', 'notes'] as SearchField[]) {
+      const text = node[field];
+      if (!text) continue;
+      // Abbreviations only make sense for short texts; in long notes almost anything would match
+      const score = scoreText(queryWords, text, field === 'label') * FIELD_WEIGHTS[field];
+      if (score > (best?.score ?? 0)) {
+        best = { nodeId: node.id, label: node.label, field, snippet: field === 'label' ? node.label : makeSnippet(text, queryWords), score };
+      }
+    }
+    if (best) hits.push(best);
+  });
+  return hits.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,80 @@
+//
+// versionDiff.ts
+//
+// This file compares two versions of a map (see the version history in HistoryPanel.tsx).
+// - Nodes are matched by id: new ids were added, missing ids were removed, a changed label is a rename
+// - Edges are matched by the two nodes they connect: a changed label or relation counts as a rename too
+// - The result holds everything from both versions, each item marked, so it can be drawn as one map
+//
+// Learnings for beginners:
+//   - How to compare two lists quickly with a Map keyed by id
+//   - How to merge two versions into one list without losing the removed items
+//
+
+import type { MapSnapshot, MindMapCluster, MindMapEdge, MindMapNode, NodePosition } from '../hooks/useMindMapStore';
+
+// What happened to a node or edge between the two versions (unchanged items have none)
+export type DiffStatus = 'added' | 'removed' | 'renamed';
+
+// The parts of a version that are compared
+export type MapContents = Pick<MapSnapshot, 'nodes' | 'edges' | 'clusters' | 'positions'>;
+
+export interface DiffNode extends MindMapNode {
+  diff?: DiffStatus;
+  oldLabel?: string; // Renamed nodes: the label in the older version
+}
+
+export interface DiffEdge extends MindMapEdge {
+  diff?: DiffStatus;
+  oldLabel?: string; // Renamed edges: the label (or relation) in the older version
+}
+
+export interface MapVersionDiff {
+  nodes: DiffNode[]; // Every node of the newer version, then the removed ones
+  edges: DiffEdge[]; // The same for edges
+  clusters: MindMapCluster[];
+  positions: Record<string, NodePosition>; // Removed nodes keep their old position
+  counts: Record<DiffStatus, number>; // Nodes and edges together
+}
+
+// --- Helper: edges are the same edge if they connect the same two nodes ---
+function edgeKey(edge: MindMapEdge) {
+  return `${edge.source}__${edge.target}`;
+}
+
+// --- Compare an older version (`from`) with a newer one (`to`) ---
+export function diffMaps(from: MapContents, to: MapContents): MapVersionDiff {
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, renamed: 0 };
+  const mark = <T extends object>(item: T, diff: DiffStatus): T & { diff: DiffStatus } => {
+    counts[diff]++;
+    return { ...item, diff };
+  };
+
+  const oldNodes = new Map(from.nodes.map(n => [n.id, n]));
+  const nodes: DiffNode[] = to.nodes.map(n => {
+    const old = oldNodes.get(n.id);
+    oldNodes.delete(n.id);
+    if (!old) return mark(n, 'added');
+    if (old.label !== n.label) return { ...mark(n, 'renamed'), oldLabel: old.label };
+    return n;
+  });
+  oldNodes.forEach(n => nodes.push(mark(n, 'removed')));
+
+  const oldEdges = new Map(from.edges.map(e => [edgeKey(e), e]));
+  const edges: DiffEdge[] = to.edges.map(e => {
+    const old = oldEdges.get(edgeKey(e));
+    oldEdges.delete(edgeKey(e));
+    if (!old) return mark(e, 'added');
+    if ((old.label ?? '') !== (e.label ?? '') || (old.relation ?? '') !== (e.relation ?? '')) {
+      return { ...mark(e, 'renamed'), oldLabel: old.label || old.relation || '' };
+    }
+    return e;
+  });
+  oldEdges.forEach(e => edges.push(mark(e, 'removed')));
+
+  // Clusters of both versions (a removed node may still point at an old one)
+  const clusters = [...(to.clusters ?? [])];
+  (from.clusters ?? []).forEach(c => { if (!clusters.some(k => k.id === c.id)) clusters.push(c); });
+
+  return { nodes, edges, clusters, positions: { ...from.positions, ...to.positions }, counts };
+}
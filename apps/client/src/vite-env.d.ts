@@ -5,4 +5,10 @@
 //
 // This file tells TypeScript about special types provided by Vite.
 // - The reference directive includes type definitions for Vite's environment variables and features.
-// - You usually don't need to edit this file. 
\ No newline at end of file
+// - You usually don't need to edit this file. 
+
+// Environment variables the app reads (see .env)
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_MAP_STORAGE?: 'local' | 'server';
+}
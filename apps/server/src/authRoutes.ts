@@ -0,0 +1,72 @@
+//
+// authRoutes.ts
+//
+// This file defines the API endpoints for user accounts (mounted on /api/auth).
+// - Sign up and sign in with an email and a password; both return a token for the Authorization header
+// - Sign-up can be closed, or limited to a list of emails (see isSignupAllowed)
+// - "Who am I?" for a client that already has a token
+// Everything runs on this server: no outside identity provider is needed.
+//
+// Learnings for beginners:
+//   - How to create accounts and sign users in without ever storing a password
+//   - Why a failed sign-in never says whether the email or the password was wrong
+//
+
+import { Router } from 'express';
+import { randomUUID } from 'crypto';
+import { CredentialsSchema } from './schemas';
+import { createUser, getUserByEmail } from './services/db.service';
+import { hashPassword, isSignupAllowed, requireAuth, signToken, toPublicUser, verifyPassword } from './services/auth.service';
+
+const router = Router();
+
+// --- POST /api/auth/signup ---
+// Create an account: { email, password } -> 201 { token, user }
+// (403 if sign-up is closed for this email, 409 if the email is taken)
+router.post('/signup', async (req, res) => {
+  const parsed = CredentialsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid email or password', details: parsed.error });
+  }
+  if (!isSignupAllowed(parsed.data.email)) {
+    return res.status(403).json({ error: 'Sign-up is closed on this server' });
+  }
+  try {
+    const user = {
+      id: randomUUID(),
+      email: parsed.data.email,
+      passwordHash: await hashPassword(parsed.data.password),
+      created: Date.now(),
+    };
+    if (!(await createUser(user))) return res.status(409).json({ error: 'An account with this email already exists' });
+    res.status(201).json({ token: signToken(user), user: toPublicUser(user) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- POST /api/auth/login ---
+// Sign in: { email, password } -> { token, user } (401 if either is wrong)
+router.post('/login', async (req, res) => {
+  const parsed = CredentialsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(401).json({ error: 'Wrong email or password' });
+  }
+  try {
+    const user = await getUserByEmail(parsed.data.email);
+    if (!user || !(await verifyPassword(parsed.data.password, user.passwordHash))) {
+      return res.status(401).json({ error: 'Wrong email or password' });
+    }
+    res.json({ token: signToken(user), user: toPublicUser(user) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- GET /api/auth/me ---
+// The signed-in user: { user } (401 if the token is missing or no longer valid)
+router.get('/me', requireAuth, (req, res) => {
+  res.json({ user: toPublicUser(req.user!) });
+});
+
+export default router;
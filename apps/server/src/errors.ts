@@ -0,0 +1,62 @@
+//
+// errors.ts
+//
+// Typed errors the API can send back to the client.
+// - Each error has a stable `code` the client can switch on
+// - Each code maps to an HTTP status code
+//
+// Learnings for beginners:
+//   - How to make your own Error subclass
+//   - Why machine-readable error codes beat parsing error messages
+//
+
+// Everything that can go wrong when talking to the LLM
+export type LlmErrorCode =
+  | 'LLM_NOT_CONFIGURED' // Missing/invalid API key or unknown provider
+  | 'LLM_UNAVAILABLE' // Network error or the provider is down
+  | 'LLM_RATE_LIMITED' // Too many requests / quota exceeded
+  | 'LLM_TIMEOUT' // The provider took too long
+  | 'LLM_ABORTED' // The request was cancelled
+  | 'LLM_INVALID_OUTPUT'; // The reply wasn't valid JSON for the schema, even after repair retries
+
+// HTTP status for each error code
+const STATUS_BY_CODE: Record<LlmErrorCode, number> = {
+  LLM_NOT_CONFIGURED: 503,
+  LLM_UNAVAILABLE: 503,
+  LLM_RATE_LIMITED: 429,
+  LLM_TIMEOUT: 504,
+  LLM_ABORTED: 499,
+  LLM_INVALID_OUTPUT: 502,
+};
+
+export class LlmError extends Error {
+  code: LlmErrorCode;
+  details?: unknown;
+
+  constructor(code: LlmErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status() {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+// --- Turn any error thrown by a provider into an LlmError ---
+export function toLlmError(err: unknown): LlmError {
+  if (err instanceof LlmError) return err;
+  const e = err as any;
+  const message = e instanceof Error ? e.message : String(err);
+  const name: string = e?.name || e?.constructor?.name || '';
+  const status: number | undefined = typeof e?.status === 'number' ? e.status : undefined;
+  if (name === 'AbortError' || /UserAbort/.test(name)) return new LlmError('LLM_ABORTED', 'The request was cancelled');
+  if (/Timeout/.test(name)) return new LlmError('LLM_TIMEOUT', 'The AI service took too long to respond');
+  if (status === 429) return new LlmError('LLM_RATE_LIMITED', 'The AI service is rate limited', message);
+  if (status === 401 || status === 403 || /api key|LLM_PROVIDER/i.test(message)) {
+    return new LlmError('LLM_NOT_CONFIGURED', 'The AI service is not configured correctly', message);
+  }
+  return new LlmError('LLM_UNAVAILABLE', 'The AI service is unavailable', message);
+}
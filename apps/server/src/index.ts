@@ -4,27 +4,48 @@
 // This is the main entry point for the backend server.
 // - Uses Express (a popular Node.js web framework)
 // - Sets up middleware for CORS and JSON parsing
-// - Connects the API routes for mind maps
+// - Connects the API routes for user accounts and mind maps (maps need a signed-in user)
+// - Accepts WebSocket connections for live (collaborative) maps on the same port
 //
 // Learnings for beginners:
 //   - How to set up an Express server
 //   - How to use middleware (cors, express.json)
 //   - How to connect routers for different API endpoints
+//   - How a WebSocket server can share the HTTP server with Express
 //
 
 import 'dotenv/config'; // Loads environment variables from .env
 import express from 'express'; // Import Express
 import cors from 'cors'; // Import CORS middleware
 import mapsRouter from './routes'; // Import the mind map API routes
+import authRouter from './authRoutes'; // Sign up, sign in, and "who am I"
+import { requireAuth } from './services/auth.service'; // Rejects requests without a valid sign-in token
+import { getProvider } from './services/providers'; // The configured LLM provider
+import { attachCollabServer } from './services/collab.service'; // Live maps over WebSockets
 
 const app = express();
-app.use(cors()); // Allow requests from any origin (for development)
-app.use(express.json()); // Parse incoming JSON requests
+// Only the client's origin may call the API from a browser (CORS_ORIGIN in .env, comma-separated;
+// defaults to the Vite dev server)
+app.use(cors({ origin: (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',').map(o => o.trim()) }));
+app.use(express.json({ limit: '5mb' })); // Parse incoming JSON requests (saved maps can be large)
 
-// All routes starting with /api/maps go to mapsRouter
-app.use('/api/maps', mapsRouter);
+// Accounts: /api/auth/signup, /api/auth/login, /api/auth/me
+app.use('/api/auth', authRouter);
+
+// All routes starting with /api/maps go to mapsRouter, for signed-in users only
+// (this includes the AI routes, so nobody else can spend the LLM quota)
+app.use('/api/maps', requireAuth, mapsRouter);
 
 const PORT = process.env.PORT || 4000;
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server listening on port ${PORT}`);
-}); 
\ No newline at end of file
+  // Show which LLM we talk to (or why it cannot be used)
+  try {
+    console.log(`LLM provider: ${getProvider().name}`);
+  } catch (err) {
+    console.warn(`LLM provider not available: ${err instanceof Error ? err.message : err}`);
+  }
+}); 
+
+// WebSockets on /api/collab/:id (see services/collab.service.ts)
+attachCollabServer(server);
@@ -0,0 +1,327 @@
+//
+// routes.test.ts
+//
+// End-to-end tests for map generation with the offline mock LLM (LLM_PROVIDER=mock).
+// - Runs the real /api/maps router behind requireAuth, on a free port, and calls it with fetch
+// - Covers a plain request, a bad reply that the repair retry fixes (or can't), and streaming
+// - Covers saving, loading, listing and deleting maps, their version history, and that one user can't touch another's
+// - Keeps every data file and fixture in a temporary folder
+//
+// Learnings for beginners:
+//   - How to test an Express router over real HTTP without starting the whole server
+//   - How to read an NDJSON stream line by line in a test
+//
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+
+let tmpDir: string;
+let fixturesDir: string;
+let server: http.Server;
+let baseUrl: string;
+const tokens: Record<'me' | 'other', string> = { me: '', other: '' };
+
+beforeAll(async () => {
+  // The services read these when they're first imported
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'routes-test-'));
+  fixturesDir = path.join(tmpDir, 'fixtures');
+  await fs.mkdir(fixturesDir);
+  process.env.LLM_PROVIDER = 'mock';
+  process.env.MOCK_LLM_FIXTURES = fixturesDir;
+  process.env.MAPS_DB_PATH = path.join(tmpDir, 'maps.json');
+  process.env.MAP_SNAPSHOTS_PATH = path.join(tmpDir, 'snapshots.json');
+  process.env.USERS_DB_PATH = path.join(tmpDir, 'users.json');
+  process.env.MAP_SHARES_PATH = path.join(tmpDir, 'shares.json');
+  process.env.COLLAB_DATA_PATH = path.join(tmpDir, 'collab');
+  process.env.JWT_SECRET = 'test-secret';
+
+  const { default: mapsRouter } = await import('./routes');
+  const { requireAuth, signToken } = await import('./services/auth.service');
+  const { createUser } = await import('./services/db.service');
+
+  for (const name of ['me', 'other'] as const) {
+    const user = { id: `${name}-id`, email: `${name}@example.com`, passwordHash: 'unused', created: Date.now() };
+    await createUser(user);
+    tokens[name] = signToken(user);
+  }
+
+  // The same setup as index.ts
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+  app.use('/api/maps', requireAuth, mapsRouter);
+  server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/maps`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+// Each test starts with the built-in fixtures
+afterEach(async () => {
+  for (const file of await fs.readdir(fixturesDir)) await fs.rm(path.join(fixturesDir, file));
+});
+
+// --- Helper: call a maps route as one of the signed-in users (with an optional JSON body) ---
+function request(method: string, route: string, body?: object, as: keyof typeof tokens = 'me') {
+  return fetch(`${baseUrl}${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${tokens[as]}` },
+    body: body && JSON.stringify(body),
+  });
+}
+
+const post = (route: string, body: object) => request('POST', route, body);
+
+// --- Helper: a small map to save ---
+const mindMap = (name: string) => ({
+  id: name,
+  name,
+  nodes: [{ id: 'a', label: name }],
+  edges: [],
+  created: 1,
+  modified: 1,
+});
+
+// --- Helper: a small snapshot to add to a map's history ---
+const snapshot = (reason: string) => ({ id: reason, createdAt: Date.now(), reason, nodes: [], edges: [] });
+
+// --- Helper: all the events of an NDJSON response ---
+async function readEvents(res: Response) {
+  const text = await res.text();
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+const NOTES = 'We are planning a trip. Flights are expensive this year. The hotel needs booking soon.';
+
+describe('POST /api/maps', () => {
+  it('needs a signed-in user', async () => {
+    const res = await fetch(baseUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+    expect(res.status).toBe(401);
+  });
+
+  it('turns notes into a map', async () => {
+    const res = await post('', { text: NOTES, detailLevel: 2 });
+    expect(res.status).toBe(200);
+    const map = await res.json();
+    expect(map.nodes[0]).toMatchObject({ id: 'n0' });
+    expect(map.nodes.map((n: any) => n.summary)).toContain('Flights are expensive this year');
+    expect(map.edges).toContainEqual({ source: 'n0', target: 'n1' });
+  });
+
+  it('repairs a reply in the wrong format by asking again', async () => {
+    await fs.writeFile(path.join(fixturesDir, 'map.json'), 'Here is your map: {"nodes": "not a list"}');
+    await fs.writeFile(path.join(fixturesDir, 'map.repair.json'), JSON.stringify({
+      nodes: [{ id: 'a', label: 'Fixed' }, { id: 'b', label: 'Child' }],
+      edges: [{ source: 'a', target: 'b' }],
+    }));
+    const res = await post('', { text: NOTES });
+    expect(res.status).toBe(200);
+    expect((await res.json()).nodes.map((n: any) => n.label)).toEqual(['Fixed', 'Child']);
+  });
+
+  it('gives up with LLM_INVALID_OUTPUT when the repairs stay broken', async () => {
+    await fs.writeFile(path.join(fixturesDir, 'map.json'), 'No JSON here');
+    const res = await post('', { text: NOTES });
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ code: 'LLM_INVALID_OUTPUT' });
+  });
+
+  it('maps long notes in chunks and merges them', async () => {
+    const paragraph = Array.from({ length: 40 }, (_, i) => `Topic ${i} has several interesting details worth noting here.`).join(' ');
+    const res = await post('', { text: Array(5).fill(paragraph).join('\n\n') });
+    expect(res.status).toBe(200);
+    const map = await res.json();
+    expect(map.nodes.length).toBeGreaterThan(1);
+    const ids = new Set(map.nodes.map((n: any) => n.id));
+    map.edges.forEach((e: any) => expect(ids.has(e.source) && ids.has(e.target)).toBe(true));
+  });
+});
+
+describe('POST /api/maps/stream', () => {
+  it('streams nodes, then edges once both ends are known, then done', async () => {
+    const res = await post('/stream', { text: NOTES, detailLevel: 2 });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+    const events = await readEvents(res);
+    expect(events[events.length - 1]).toEqual({ type: 'done' });
+    const sent = new Set<string>();
+    events.forEach(event => {
+      if (event.type === 'node') sent.add(event.node.id);
+      if (event.type === 'edge') expect(sent.has(event.edge.source) && sent.has(event.edge.target)).toBe(true);
+    });
+    expect(sent.size).toBeGreaterThan(1);
+    expect(events.some(e => e.type === 'edge')).toBe(true);
+  });
+
+  it('reports progress for long notes', async () => {
+    const paragraph = Array.from({ length: 40 }, (_, i) => `Topic ${i} has several interesting details worth noting here.`).join(' ');
+    const events = await readEvents(await post('/stream', { text: Array(5).fill(paragraph).join('\n\n') }));
+    const progress = events.filter(e => e.type === 'progress');
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[0]).toEqual({ type: 'progress', part: 1, parts: progress.length });
+    expect(events[events.length - 1]).toEqual({ type: 'done' });
+  });
+
+  it('sends an edge the model repeats only once', async () => {
+    await fs.writeFile(path.join(fixturesDir, 'map-stream.json'), [
+      { type: 'node', id: 'a', label: 'Trip' },
+      { type: 'edge', source: 'a', target: 'b' },
+      { type: 'node', id: 'b', label: 'Flights' },
+      { type: 'edge', source: 'a', target: 'b' },
+      { type: 'edge', source: 'b', target: 'a' },
+    ].map(line => JSON.stringify(line)).join('\n'));
+    const events = await readEvents(await post('/stream', { text: NOTES }));
+    expect(events.filter(e => e.type === 'edge').map(e => e.edge)).toEqual([
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'a' },
+    ]);
+    expect(events[events.length - 1]).toEqual({ type: 'done' });
+  });
+
+  it('sends an error event when the reply cannot be used', async () => {
+    await fs.writeFile(path.join(fixturesDir, 'map-stream.json'), 'Sorry, I cannot help with that.');
+    const events = await readEvents(await post('/stream', { text: NOTES }));
+    expect(events[events.length - 1]).toMatchObject({ type: 'error', code: 'LLM_INVALID_OUTPUT' });
+  });
+});
+
+describe('saved maps', () => {
+  it('lists what was saved', async () => {
+    await request('PUT', '/Listed', mindMap('Listed'));
+    const res = await request('GET', '');
+    expect(res.status).toBe(200);
+    expect((await res.json()).maps).toContainEqual(expect.objectContaining({ id: 'Listed', ownerId: 'me-id' }));
+  });
+
+  it('answers 404 for a map that was never saved', async () => {
+    expect((await request('GET', '/Nowhere')).status).toBe(404);
+  });
+
+  it('creates a map with POST, but only once', async () => {
+    const created = await request('POST', '/Created', mindMap('Created'));
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ id: 'Created', ownerId: 'me-id' });
+    expect((await request('POST', '/Created', mindMap('Created'))).status).toBe(409);
+  });
+
+  it('answers PUT with 201 for a new map and 200 when it replaces one', async () => {
+    expect((await request('PUT', '/Replaced', mindMap('Replaced'))).status).toBe(201);
+    const replaced = await request('PUT', '/Replaced', { ...mindMap('Replaced'), nodes: [] });
+    expect(replaced.status).toBe(200);
+    expect((await replaced.json()).nodes).toEqual([]);
+    expect((await (await request('GET', '/Replaced')).json()).nodes).toEqual([]);
+  });
+
+  it('deletes a map once (204), then answers 404', async () => {
+    await request('PUT', '/Deleted', mindMap('Deleted'));
+    expect((await request('DELETE', '/Deleted')).status).toBe(204);
+    expect((await request('GET', '/Deleted')).status).toBe(404);
+    expect((await request('DELETE', '/Deleted')).status).toBe(404);
+  });
+
+  it('turns down a map that fails validation', async () => {
+    expect((await request('PUT', '/Broken', { name: 'Broken', nodes: 'not a list' })).status).toBe(400);
+    expect((await request('POST', '/Broken', { ...mindMap('Broken'), created: 'yesterday' })).status).toBe(400);
+    expect((await request('GET', '/Broken')).status).toBe(404);
+  });
+
+  it("won't save a map under the name of an AI route", async () => {
+    for (const id of ['stream', 'insight', 'merge-notes']) {
+      const res = await request('PUT', `/${id}`, mindMap(id));
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('reserved');
+    }
+    // POST /insight is still the AI route, not a new map
+    expect((await post('/insight', mindMap('insight'))).status).not.toBe(201);
+  });
+});
+
+describe('map snapshots', () => {
+  it("lists a map's history newest first, keeping only the last 30", async () => {
+    await request('PUT', '/History', mindMap('History'));
+    for (let i = 1; i <= 32; i++) {
+      expect((await request('POST', '/History/snapshots', snapshot(`Version ${i}`))).status).toBe(201);
+    }
+    const res = await request('GET', '/History/snapshots');
+    expect(res.status).toBe(200);
+    const reasons = (await res.json()).snapshots.map((s: any) => s.reason);
+    expect(reasons).toHaveLength(30);
+    expect(reasons[0]).toBe('Version 32');
+    expect(reasons[29]).toBe('Version 3');
+  });
+
+  it('answers 404 when adding to a map that was never saved', async () => {
+    expect((await request('POST', '/Nowhere/snapshots', snapshot('Saved'))).status).toBe(404);
+  });
+
+  it('turns down a snapshot that fails validation', async () => {
+    await request('PUT', '/Checked', mindMap('Checked'));
+    expect((await request('POST', '/Checked/snapshots', { reason: 'No id or nodes' })).status).toBe(400);
+  });
+
+  it('deletes the history along with the map', async () => {
+    await request('PUT', '/Forgotten', mindMap('Forgotten'));
+    await request('POST', '/Forgotten/snapshots', snapshot('Saved'));
+    expect((await request('DELETE', '/Forgotten')).status).toBe(204);
+    // A new map with the same name starts with no history
+    await request('PUT', '/Forgotten', mindMap('Forgotten'));
+    expect(await (await request('GET', '/Forgotten/snapshots')).json()).toEqual({ snapshots: [] });
+  });
+});
+
+describe('one user and another', () => {
+  // "other" has a map called Plans, with a version and a share; "me" has nothing yet
+  beforeAll(async () => {
+    expect((await request('PUT', '/Plans', mindMap('Plans'), 'other')).status).toBe(201);
+    expect((await request('POST', '/Plans/snapshots', snapshot('Saved'), 'other')).status).toBe(201);
+    expect((await request('POST', '/Plans/shares', { email: 'friend@example.com' }, 'other')).status).toBe(201);
+  });
+
+  // --- Helper: check that other's map, history and shares are all still there, unchanged ---
+  async function expectOthersPlansUntouched() {
+    const map = await request('GET', '/Plans', undefined, 'other');
+    expect(map.status).toBe(200);
+    expect(await map.json()).toMatchObject({ ownerId: 'other-id', nodes: [{ id: 'a', label: 'Plans' }] });
+    const snapshots = await (await request('GET', '/Plans/snapshots', undefined, 'other')).json();
+    expect(snapshots.snapshots.map((s: any) => s.reason)).toEqual(['Saved']);
+    expect(await (await request('GET', '/Plans/shares', undefined, 'other')).json()).toEqual({ emails: ['friend@example.com'] });
+  }
+
+  it("doesn't list the other user's maps", async () => {
+    const res = await request('GET', '');
+    expect(res.status).toBe(200);
+    expect((await res.json()).maps.map((m: any) => m.name)).not.toContain('Plans');
+  });
+
+  it("can't open the other user's map, its history or its shares", async () => {
+    expect((await request('GET', '/Plans')).status).toBe(404);
+    expect(await (await request('GET', '/Plans/snapshots')).json()).toEqual({ snapshots: [] });
+    expect(await (await request('GET', '/Plans/shares')).json()).toEqual({ emails: [] });
+  });
+
+  it("can't delete the other user's map", async () => {
+    expect((await request('DELETE', '/Plans')).status).toBe(404);
+    await expectOthersPlansUntouched();
+  });
+
+  it("can't add to the other user's history or shares", async () => {
+    expect((await request('POST', '/Plans/snapshots', snapshot('Sneaky'))).status).toBe(404);
+    expect((await request('POST', '/Plans/shares', { email: 'me@example.com' })).status).toBe(201); // Shares my own "Plans"
+    await expectOthersPlansUntouched();
+  });
+
+  it('saving a map with the same name makes a separate map', async () => {
+    const res = await request('PUT', '/Plans', { ...mindMap('Plans'), nodes: [], ownerId: 'other-id' });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ ownerId: 'me-id', nodes: [] });
+    await expectOthersPlansUntouched();
+  });
+});
@@ -5,6 +5,8 @@
 // - Uses Express Router to organize endpoints
 // - Uses Zod for input validation
 // - Calls LLM (AI) service functions to process requests
+// - Saves, loads, and deletes maps through the db service
+// - Every route needs a signed-in user (see requireAuth in index.ts); saved maps are the user's own
 //
 // Learnings for beginners:
 //   - How to define API endpoints in Express
@@ -13,57 +15,141 @@
 //   - How to structure RESTful APIs
 //
 
-import { Router } from 'express';
-import { z } from 'zod';
-import { getMindMapFromText, suggestChildren, getMapInsight, getSemanticClusters } from './services/llm.service';
+import { Router, type Response } from 'express';
+import { getMindMapFromText, streamMindMapFromText, streamMindMapFromChunks, getMapDiffFromText, suggestChildren, suggestLinks, getMapInsight, getSemanticClusters } from './services/llm.service';
+import { listMaps, getMap, createMap, saveMap, deleteMap, listSnapshots, addSnapshot, deleteSnapshots, listShares, addShare, deleteShares } from './services/db.service';
+import { deleteCollabState } from './services/collab.service';
+import { MapSnapshotSchema, MindMapSchema, ShareSchema } from './schemas';
+import { toLlmError } from './errors';
+import { chunkText, countWords, MAX_INPUT_WORDS } from './utils/chunkText';
 
 const router = Router();
 
-// --- Zod schema for validating the mind map response ---
-const MindMapResponseSchema = z.object({
-  nodes: z.array(z.object({
-    id: z.string(),
-    label: z.string(),
-    summary: z.string().optional(),
-  })),
-  edges: z.array(z.object({
-    source: z.string(),
-    target: z.string(),
-  })),
-});
+// --- Helper: send an LLM failure with its error code (the client shows a message per code) ---
+function sendLlmError(res: Response, err: unknown) {
+  const llmError = toLlmError(err);
+  res.status(llmError.status).json({ error: llmError.message, code: llmError.code, details: llmError.details });
+}
+
+// Sent back when the notes are too long to map at all
+const TOO_LONG_ERROR = `Text is too long (max ${MAX_INPUT_WORDS} words)`;
 
 // --- POST /api/maps ---
-// Generate a mind map from user text
+// Generate a mind map from user text (long text is mapped in chunks and merged)
 router.post('/', async (req, res) => {
   const { text, detailLevel } = req.body;
   if (!text || typeof text !== 'string') {
     return res.status(400).json({ error: 'Missing or invalid text' });
   }
+  if (countWords(text) > MAX_INPUT_WORDS) {
+    return res.status(400).json({ error: TOO_LONG_ERROR });
+  }
   try {
-    const result = await getMindMapFromText(text, detailLevel ?? 3);
-    const parsed = MindMapResponseSchema.safeParse(result);
-    if (!parsed.success) {
-      return res.status(500).json({ error: 'Invalid response from LLM', details: parsed.error });
+    // The result is already validated against MindMapResponseSchema
+    res.json(await getMindMapFromText(text, detailLevel ?? 3));
+  } catch (err) {
+    sendLlmError(res, err);
+  }
+});
+
+// --- POST /api/maps/stream ---
+// Generate a mind map from user text, streamed as NDJSON (one JSON event per line):
+//   {"type":"node","node":{...}}  {"type":"edge","edge":{...}}  then {"type":"done"} or {"type":"error",...}
+// Long text is split into chunks; {"type":"progress","part":2,"parts":5} is sent before each one.
+// If the client disconnects (e.g. presses Cancel), the upstream LLM request is aborted.
+router.post('/stream', async (req, res) => {
+  const { text, detailLevel } = req.body;
+  if (!text || typeof text !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid text' });
+  }
+  if (countWords(text) > MAX_INPUT_WORDS) {
+    return res.status(400).json({ error: TOO_LONG_ERROR });
+  }
+  const chunks = chunkText(text);
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+  const send = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+  try {
+    const events = chunks.length > 1
+      ? streamMindMapFromChunks(chunks, detailLevel ?? 3, controller.signal)
+      : streamMindMapFromText(text, detailLevel ?? 3, controller.signal);
+    for await (const event of events) {
+      send(event);
     }
-    res.json(parsed.data);
+    send({ type: 'done' });
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      const llmError = toLlmError(err);
+      send({ type: 'error', error: llmError.message, code: llmError.code, details: llmError.details });
+    }
+  }
+  res.end();
+});
+
+// --- POST /api/maps/merge-notes ---
+// Merge new notes into an existing map. Nothing is changed on the server: the response
+// is a diff the user reviews first: { diff: { nodes, edges, renames, merges } }
+router.post('/merge-notes', async (req, res) => {
+  const { nodes, edges, text, detailLevel } = req.body;
+  if (!Array.isArray(nodes) || !Array.isArray(edges) || !text || typeof text !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid nodes/edges/text' });
+  }
+  if (countWords(text) > MAX_INPUT_WORDS) {
+    return res.status(400).json({ error: TOO_LONG_ERROR });
+  }
+  try {
+    const diff = await getMapDiffFromText(nodes, edges, text, detailLevel ?? 3);
+    res.json({ diff });
   } catch (err) {
-    res.status(500).json({ error: 'LLM error', details: err instanceof Error ? err.message : err });
+    sendLlmError(res, err);
   }
 });
 
+// --- Helper: keep only the strings of an optional string array from the request ---
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+}
+
 // --- POST /api/maps/suggest-children ---
-// Get AI suggestions for children of a node
+// Get AI suggestions for children of a node.
+// Optional context: path (labels root → parent), children (existing child labels), summary, sourceText
 router.post('/suggest-children', async (req, res) => {
-  const { text, parentId, detailLevel } = req.body;
+  const { text, parentId, detailLevel, path, children, summary, sourceText } = req.body;
   if (!text || typeof text !== 'string' || !parentId || typeof parentId !== 'string') {
     return res.status(400).json({ error: 'Missing or invalid text/parentId' });
   }
   try {
-    const suggestions = await suggestChildren(text, detailLevel ?? 3);
-    // suggestions: [{ label: string }]
+    const suggestions = await suggestChildren(text, detailLevel ?? 3, {
+      path: stringList(path),
+      children: stringList(children),
+      summary: typeof summary === 'string' ? summary : undefined,
+      sourceText: typeof sourceText === 'string' ? sourceText : undefined,
+    });
+    // suggestions: [{ label: string, rationale: string }]
     res.json({ suggestions });
   } catch (err) {
-    res.status(500).json({ error: 'LLM error', details: err instanceof Error ? err.message : err });
+    sendLlmError(res, err);
+  }
+});
+
+// --- POST /api/maps/suggest-links ---
+// Get AI suggestions for missing cross-links between existing nodes
+router.post('/suggest-links', async (req, res) => {
+  const { nodes, edges, detailLevel } = req.body;
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    return res.status(400).json({ error: 'Missing or invalid nodes/edges' });
+  }
+  try {
+    const links = await suggestLinks(nodes, edges, detailLevel ?? 3);
+    // links: [{ source, target, label, confidence (0-1) }], most confident first
+    res.json({ links });
+  } catch (err) {
+    sendLlmError(res, err);
   }
 });
 
@@ -78,7 +164,7 @@ router.post('/insight', async (req, res) => {
     const insight = await getMapInsight(nodes, edges, summaries, detailLevel ?? 3);
     res.json({ insight });
   } catch (err) {
-    res.status(500).json({ error: 'LLM error', details: err instanceof Error ? err.message : err });
+    sendLlmError(res, err);
   }
 });
 
@@ -93,7 +179,138 @@ router.post('/semantic-clusters', async (req, res) => {
     const clusters = await getSemanticClusters(nodes, edges, detailLevel ?? 3);
     res.json({ clusters });
   } catch (err) {
-    res.status(500).json({ error: 'LLM error', details: err instanceof Error ? err.message : err });
+    sendLlmError(res, err);
+  }
+});
+
+// --- Saved map storage (CRUD) ---
+// These routes use a :id parameter, so they must stay below the fixed AI
+// routes above (otherwise POST /insight would be treated as a map id).
+// For the same reason a map can't be saved under one of their names.
+const RESERVED_IDS = new Set(['stream', 'merge-notes', 'suggest-children', 'suggest-links', 'insight', 'semantic-clusters']);
+
+// --- GET /api/maps ---
+// List the signed-in user's saved maps
+router.get('/', async (req, res) => {
+  try {
+    res.json({ maps: await listMaps(req.user!.id) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- GET /api/maps/:id ---
+// Load a single saved map
+router.get('/:id', async (req, res) => {
+  try {
+    const map = await getMap(req.user!.id, req.params.id);
+    if (!map) return res.status(404).json({ error: 'Map not found' });
+    res.json(map);
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- POST /api/maps/:id ---
+// Create a new saved map (409 if the id is already taken)
+router.post('/:id', async (req, res) => {
+  if (RESERVED_IDS.has(req.params.id)) {
+    return res.status(400).json({ error: `"${req.params.id}" is a reserved name, please pick another name for the map` });
+  }
+  const parsed = MindMapSchema.safeParse({ ...req.body, id: req.params.id });
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid map', details: parsed.error });
+  }
+  try {
+    const created = await createMap(req.user!.id, parsed.data);
+    if (!created) return res.status(409).json({ error: 'Map already exists' });
+    res.status(201).json({ ...parsed.data, ownerId: req.user!.id });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- PUT /api/maps/:id ---
+// Create or replace a saved map
+router.put('/:id', async (req, res) => {
+  if (RESERVED_IDS.has(req.params.id)) {
+    return res.status(400).json({ error: `"${req.params.id}" is a reserved name, please pick another name for the map` });
+  }
+  const parsed = MindMapSchema.safeParse({ ...req.body, id: req.params.id });
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid map', details: parsed.error });
+  }
+  try {
+    const existed = await saveMap(req.user!.id, parsed.data);
+    res.status(existed ? 200 : 201).json(await getMap(req.user!.id, parsed.data.id));
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- DELETE /api/maps/:id ---
+// Delete a saved map
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deleteMap(req.user!.id, req.params.id);
+    if (!deleted) return res.status(404).json({ error: 'Map not found' });
+    await deleteCollabState(req.user!.id, req.params.id); // Or opening it live would bring it back
+    await deleteSnapshots(req.user!.id, req.params.id);
+    await deleteShares(req.user!.id, req.params.id);
+    res.status(204).end();
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- GET /api/maps/:id/snapshots ---
+// A map's version history, newest first: { snapshots: [...] }
+router.get('/:id/snapshots', async (req, res) => {
+  try {
+    res.json({ snapshots: await listSnapshots(req.user!.id, req.params.id) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- POST /api/maps/:id/snapshots ---
+// Add a version to a map's history (only the last few are kept)
+router.post('/:id/snapshots', async (req, res) => {
+  const parsed = MapSnapshotSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid snapshot', details: parsed.error });
+  }
+  try {
+    if (!(await getMap(req.user!.id, req.params.id))) return res.status(404).json({ error: 'Map not found' });
+    await addSnapshot(req.user!.id, req.params.id, parsed.data);
+    res.status(201).json(parsed.data);
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- GET /api/maps/:id/shares ---
+// Who may open one of your maps live: { emails: [...] }
+router.get('/:id/shares', async (req, res) => {
+  try {
+    res.json({ emails: await listShares(req.user!.id, req.params.id) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
+  }
+});
+
+// --- POST /api/maps/:id/shares ---
+// Invite someone to one of your maps: { email } -> 201 { emails: [...] }
+// The map doesn't have to be saved on the server: live maps are shared by name.
+router.post('/:id/shares', async (req, res) => {
+  const parsed = ShareSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid email', details: parsed.error });
+  }
+  try {
+    res.status(201).json({ emails: await addShare(req.user!.id, req.params.id, parsed.data.email) });
+  } catch (err) {
+    res.status(500).json({ error: 'Storage error', details: err instanceof Error ? err.message : err });
   }
 });
 
@@ -0,0 +1,31 @@
+//
+// schemas.test.ts
+//
+// Tests for the parts of the request schemas that keep bad data out of saved maps.
+//
+// Learnings for beginners:
+//   - How to test a Zod schema with safeParse (no server needed)
+//
+
+import { describe, expect, it } from 'vitest';
+import { MindMapNodeSchema } from './schemas';
+
+// --- Helper: does a node with these links pass validation? ---
+const accepts = (links: string[]) => MindMapNodeSchema.safeParse({ id: 'n1', label: 'Idea', links }).success;
+
+describe('node links', () => {
+  it('accepts web and mailto links', () => {
+    expect(accepts(['https://example.com/page?q=1', 'http://example.com', 'mailto:someone@example.com'])).toBe(true);
+  });
+
+  it('rejects links that would run script when clicked', () => {
+    expect(accepts(['javascript:alert(1)'])).toBe(false);
+    expect(accepts(['JavaScript:alert(1)'])).toBe(false);
+    expect(accepts(['data:text/html,<script>alert(1)</script>'])).toBe(false);
+  });
+
+  it('rejects text that is not a full URL', () => {
+    expect(accepts(['example.com'])).toBe(false);
+    expect(accepts(['/relative/path'])).toBe(false);
+  });
+});
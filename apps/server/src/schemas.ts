@@ -0,0 +1,194 @@
+//
+// schemas.ts
+//
+// This file holds the Zod schemas shared by the API routes and services.
+// - Describes the shape of mind maps (nodes, edges, saved documents)
+// - Exports TypeScript types inferred from the schemas
+//
+// Learnings for beginners:
+//   - How to describe data once with Zod and reuse it everywhere
+//   - How to get TypeScript types for free with z.infer
+//
+
+import { z } from 'zod';
+
+// --- How a single node is drawn (everything optional; missing = the default look) ---
+export const NodeStyleSchema = z.object({
+  color: z.string().optional(), // Fill color, e.g. "#16a34a"
+  shape: z.enum(['roundrectangle', 'ellipse', 'rectangle', 'diamond', 'hexagon']).optional(),
+  size: z.enum(['small', 'normal', 'large']).optional(), // Bigger = more important
+  icon: z.string().max(8).optional(), // An emoji shown before the label
+  bold: z.boolean().optional(),
+  done: z.boolean().optional(), // Drawn struck through
+});
+
+// --- A link on a node: a full web or mailto URL (never "javascript:", it would run when clicked) ---
+// (The refine runs even when .url() fails, so it checks the text rather than parsing it again.)
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+export const NodeLinkSchema = z.string().url('Links must be full URLs').refine(
+  link => SAFE_LINK.test(link),
+  'Links must start with http://, https:// or mailto:',
+);
+
+// --- A single node (idea) in the mind map ---
+export const MindMapNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  summary: z.string().optional(),
+  aiSuggested: z.boolean().optional(),
+  clusterId: z.string().optional(),
+  notes: z.string().optional(),
+  links: z.array(NodeLinkSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  style: NodeStyleSchema.optional(),
+});
+
+// --- A named group of nodes (drawn as a colored box on the canvas) ---
+export const MindMapClusterSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+});
+
+// --- The kinds of relationship an edge can have (no relation = a plain branch) ---
+export const EDGE_RELATIONS = ['causes', 'supports', 'contradicts', 'example-of', 'part-of'] as const;
+
+// --- A connection between two nodes ---
+export const MindMapEdgeSchema = z.object({
+  id: z.string().optional(),
+  source: z.string(),
+  target: z.string(),
+  // An unknown relation from the LLM is dropped instead of failing the whole map
+  relation: z.enum(EDGE_RELATIONS).optional().catch(undefined),
+  label: z.string().optional(), // How the two ideas relate, e.g. "depends on"
+});
+
+// --- The shape the LLM must return when generating a map ---
+export const MindMapResponseSchema = z.object({
+  nodes: z.array(MindMapNodeSchema.pick({ id: true, label: true, summary: true })),
+  edges: z.array(MindMapEdgeSchema.pick({ source: true, target: true, relation: true, label: true })),
+});
+
+// --- What the LLM must return when merging new notes into an existing map ---
+// Only the changes: new nodes/edges, plus renames and merges of nodes that already exist.
+export const MapDiffResponseSchema = z.object({
+  nodes: z.array(MindMapNodeSchema.pick({ id: true, label: true, summary: true })).default([]),
+  edges: z.array(MindMapEdgeSchema.pick({ source: true, target: true, relation: true, label: true })).default([]),
+  renames: z.array(z.object({
+    id: z.string(),
+    label: z.string().min(1),
+    reason: z.string().optional(),
+  })).default([]),
+  merges: z.array(z.object({
+    from: z.string(), // This node goes away...
+    into: z.string(), // ...and its edges move to this one
+    reason: z.string().optional(),
+  })).default([]),
+});
+
+// --- What the LLM must return for child suggestions ---
+export const SuggestionsResponseSchema = z.array(z.object({
+  label: z.string().min(1),
+  rationale: z.string(), // One short sentence: why this child belongs here
+}));
+
+// --- What the LLM must return for cross-link suggestions ---
+// Confidence may come back as 0-1 or as a percentage; the service turns it into 0-1.
+export const LinkSuggestionsResponseSchema = z.array(z.object({
+  source: z.coerce.string(),
+  target: z.coerce.string(),
+  label: z.string().min(1),
+  confidence: z.coerce.number().min(0).max(100),
+}));
+
+// --- What the LLM must return for a map insight ---
+export const InsightResponseSchema = z.object({
+  insight: z.string(),
+  blindSpot: z.string(),
+  clusters: z.string(),
+});
+
+// --- What the LLM must return for semantic clustering ---
+export const ClustersResponseSchema = z.array(z.object({
+  name: z.string().min(1),
+  nodeIds: z.array(z.coerce.string()),
+}));
+
+// --- Where a node sits on the canvas ---
+export const NodePositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+// --- The zoom/pan of the canvas when the map was saved ---
+export const MapViewportSchema = z.object({
+  zoom: z.number().positive(),
+  pan: NodePositionSchema,
+});
+
+// --- A saved mind map document (what we persist on the server) ---
+export const MindMapSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  nodes: z.array(MindMapNodeSchema),
+  edges: z.array(MindMapEdgeSchema),
+  clusters: z.array(MindMapClusterSchema).optional(),
+  positions: z.record(NodePositionSchema).optional(),
+  viewport: MapViewportSchema.optional(),
+  layout: z.enum(['radial', 'tree-lr', 'tree-td', 'concentric', 'fcose']).optional(),
+  colorBy: z.enum(['node', 'cluster', 'tag']).optional(), // What node colors stand for
+  collapsed: z.array(z.string()).optional(), // Ids of nodes whose subtrees are folded away
+  pinned: z.array(z.string()).optional(), // Ids of nodes that layouts leave where they are
+  ownerId: z.string().optional(), // The user the map belongs to (always set by the server, never by the client)
+  created: z.number(),
+  modified: z.number(),
+});
+
+// --- One version of a map in its history (GET/POST /api/maps/:id/snapshots) ---
+export const MapSnapshotSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.number(),
+  reason: z.string().max(100), // Why it was taken, e.g. "Saved" or "Before AI: Merge notes"
+  nodes: z.array(MindMapNodeSchema),
+  edges: z.array(MindMapEdgeSchema),
+  clusters: z.array(MindMapClusterSchema).optional(),
+  positions: z.record(NodePositionSchema).optional(),
+});
+
+// --- Email and password (POST /api/auth/signup and /api/auth/login) ---
+export const CredentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(200),
+  password: z.string().min(8, 'Passwords need at least 8 characters').max(200),
+});
+
+// --- Who to share a map with (POST /api/maps/:id/shares) ---
+export const ShareSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter an email address').max(200),
+});
+
+// --- A user account, as stored on the server (the password hash is never sent to the client) ---
+export const UserSchema = z.object({
+  id: z.string().min(1),
+  email: z.string(),
+  passwordHash: z.string(), // "scrypt$<salt>$<hash>", see services/auth.service.ts
+  created: z.number(),
+});
+
+// --- What a collaborator tells the others about themselves (WebSocket /api/collab/:id) ---
+// Bad values are replaced rather than rejected: presence is cosmetic, it shouldn't drop a connection.
+export const CollabPresenceSchema = z.object({
+  type: z.literal('presence'),
+  name: z.string().max(40).catch('Guest'),
+  color: z.string().max(20).catch('#6366f1'),
+  cursor: NodePositionSchema.nullable().catch(null), // Mouse position in map coordinates; null = not over the map
+  selection: z.array(z.string()).max(1000).catch([]), // Ids of the selected nodes
+});
+
+export type MindMapResponse = z.infer<typeof MindMapResponseSchema>;
+export type MapDiffResponse = z.infer<typeof MapDiffResponseSchema>;
+export type MindMapNode = z.infer<typeof MindMapNodeSchema>;
+export type MindMapEdge = z.infer<typeof MindMapEdgeSchema>;
+export type MindMap = z.infer<typeof MindMapSchema>;
+export type MapSnapshot = z.infer<typeof MapSnapshotSchema>;
+export type User = z.infer<typeof UserSchema>;
+export type CollabPresence = z.infer<typeof CollabPresenceSchema>;
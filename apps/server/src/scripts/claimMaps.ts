@@ -0,0 +1,37 @@
+//
+// claimMaps.ts
+//
+// A one-off upgrade step: give the maps saved before there were accounts to one user.
+// - Run it once, after that user has signed up:  pnpm --filter server claim-maps you@example.com
+// - Moves every map without an owner (and its version history) to that user
+// - Reads the same .env as the server, so it works on the same data files
+//
+// Learnings for beginners:
+//   - How to write a small command-line script with process.argv and exit codes
+//   - Why a data migration is an explicit step rather than a side effect of signing up
+//
+
+import 'dotenv/config';
+import { claimUnownedMaps, getUserByEmail } from '../services/db.service';
+
+async function main() {
+  const email = process.argv[2];
+  if (!email) {
+    console.error('Usage: pnpm --filter server claim-maps <email of the account that gets the maps>');
+    process.exit(1);
+  }
+  const user = await getUserByEmail(email);
+  if (!user) {
+    console.error(`No account with the email ${email}: sign up first, then run this again.`);
+    process.exit(1);
+  }
+  const claimed = await claimUnownedMaps(user.id);
+  console.log(claimed.length
+    ? `Gave ${claimed.length} map(s) to ${user.email}: ${claimed.join(', ')}`
+    : 'There are no maps without an owner.');
+}
+
+main().catch(err => {
+  console.error('Could not claim the maps:', err);
+  process.exit(1);
+});
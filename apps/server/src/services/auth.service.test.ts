@@ -0,0 +1,34 @@
+//
+// auth.service.test.ts
+//
+// Tests for the sign-up switches in .env (DISABLE_SIGNUP and SIGNUP_ALLOWED_EMAILS).
+//
+// Learnings for beginners:
+//   - How to change environment variables in a test and put them back afterwards
+//
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { isSignupAllowed } from './auth.service';
+
+afterEach(() => {
+  delete process.env.DISABLE_SIGNUP;
+  delete process.env.SIGNUP_ALLOWED_EMAILS;
+});
+
+describe('isSignupAllowed', () => {
+  it('lets anyone sign up by default', () => {
+    expect(isSignupAllowed('someone@example.com')).toBe(true);
+  });
+
+  it('lets nobody sign up when sign-up is disabled', () => {
+    process.env.DISABLE_SIGNUP = 'true';
+    expect(isSignupAllowed('someone@example.com')).toBe(false);
+  });
+
+  it('only lets the listed emails sign up', () => {
+    process.env.SIGNUP_ALLOWED_EMAILS = 'Me@Example.com, friend@example.com';
+    expect(isSignupAllowed('me@example.com')).toBe(true);
+    expect(isSignupAllowed('friend@example.com')).toBe(true);
+    expect(isSignupAllowed('someone@example.com')).toBe(false);
+  });
+});
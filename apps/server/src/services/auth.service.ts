@@ -0,0 +1,110 @@
+//
+// auth.service.ts
+//
+// This file handles user accounts: passwords, sign-in tokens, and the "must be signed in" check.
+// - Passwords are never stored: only a salted scrypt hash of them
+// - Signing in returns a JWT (a signed token with the user's id) that the client sends back
+//   in the Authorization header ("Bearer <token>") on every request
+// - requireAuth is Express middleware that rejects requests without a valid token
+//
+// Set JWT_SECRET in .env so tokens stay valid when the server restarts. Without it a random
+// secret is made up at startup (fine for development: everyone just signs in again).
+// Anyone who can reach the server may sign up, unless SIGNUP_ALLOWED_EMAILS (comma-separated)
+// or DISABLE_SIGNUP=true in .env says otherwise.
+//
+// Learnings for beginners:
+//   - Why passwords are hashed with a slow function and a random salt
+//   - How a JWT proves who you are without the server keeping a session
+//   - How to write your own Express middleware (req, res, next)
+//
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { getUser } from './db.service';
+import type { User } from '../schemas';
+
+// requireAuth puts the signed-in user on the request (declared here, next to it, so ts-node sees it too)
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// The secret tokens are signed with, and how long a sign-in lasts
+const JWT_SECRET = process.env.JWT_SECRET || randomBytes(32).toString('hex');
+const TOKEN_LIFETIME = '7d';
+if (!process.env.JWT_SECRET) {
+  console.warn('JWT_SECRET is not set: using a random one, so everyone has to sign in again after a restart');
+}
+
+// Length of the salt and of the hash, in bytes
+const SALT_BYTES = 16;
+const HASH_BYTES = 64;
+
+// What the client may see of a user
+export type PublicUser = Pick<User, 'id' | 'email'>;
+
+export function toPublicUser(user: User): PublicUser {
+  return { id: user.id, email: user.email };
+}
+
+// --- May this email create an account? (read from the environment on every call) ---
+export function isSignupAllowed(email: string): boolean {
+  if (process.env.DISABLE_SIGNUP === 'true') return false;
+  const allowed = (process.env.SIGNUP_ALLOWED_EMAILS ?? '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  return allowed.length === 0 || allowed.includes(email.toLowerCase());
+}
+
+// --- Hash a password for storing: "scrypt$<salt>$<hash>" (hex) ---
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, HASH_BYTES);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+// --- Check a password against a stored hash ---
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  // Compare in constant time, so the time taken doesn't give away how much matched
+  return timingSafeEqual(actual, expected);
+}
+
+// --- Make a sign-in token for a user ---
+export function signToken(user: User): string {
+  return jwt.sign({}, JWT_SECRET, { subject: user.id, expiresIn: TOKEN_LIFETIME });
+}
+
+// --- The user a token belongs to (undefined if it's invalid, expired, or the user is gone) ---
+export async function userFromToken(token: string | undefined): Promise<User | undefined> {
+  if (!token) return undefined;
+  try {
+    const payload = jwt.verify(token, JWT_SECRET);
+    if (typeof payload === 'string' || !payload.sub) return undefined;
+    return await getUser(payload.sub);
+  } catch {
+    return undefined;
+  }
+}
+
+// --- Middleware: only let signed-in users through (req.user is set for the routes after it) ---
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+  try {
+    const user = await userFromToken(token);
+    if (!user) return res.status(401).json({ error: 'Please sign in', code: 'UNAUTHORIZED' });
+    req.user = user;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,105 @@
+//
+// collab.service.test.ts
+//
+// Tests for who may open a live map: the owner and the people it's shared with, nobody else.
+// - Starts a real HTTP server on a free port with the WebSocket server attached
+// - Keeps every data file in a temporary folder, so nothing touches data/
+//
+// Learnings for beginners:
+//   - How to test a WebSocket server with the "ws" client
+//   - Why environment variables are set before the modules that read them are imported
+//
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+
+let tmpDir: string;
+let server: http.Server;
+let baseUrl: string;
+const tokens: Record<'owner' | 'friend' | 'stranger', string> = { owner: '', friend: '', stranger: '' };
+
+beforeAll(async () => {
+  // The services read their paths and secret when they're first imported
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'collab-test-'));
+  process.env.MAPS_DB_PATH = path.join(tmpDir, 'maps.json');
+  process.env.MAP_SNAPSHOTS_PATH = path.join(tmpDir, 'snapshots.json');
+  process.env.USERS_DB_PATH = path.join(tmpDir, 'users.json');
+  process.env.MAP_SHARES_PATH = path.join(tmpDir, 'shares.json');
+  process.env.COLLAB_DATA_PATH = path.join(tmpDir, 'collab');
+  process.env.JWT_SECRET = 'test-secret';
+
+  const { addShare, createUser } = await import('./db.service');
+  const { signToken } = await import('./auth.service');
+  const { attachCollabServer } = await import('./collab.service');
+
+  for (const name of ['owner', 'friend', 'stranger'] as const) {
+    const user = { id: `${name}-id`, email: `${name}@example.com`, passwordHash: 'unused', created: Date.now() };
+    await createUser(user);
+    tokens[name] = signToken(user);
+  }
+  await addShare('owner-id', 'Plans', 'Friend@example.com');
+
+  server = http.createServer();
+  attachCollabServer(server);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `ws://localhost:${(server.address() as AddressInfo).port}/api/collab`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  // Let the rooms that just closed finish their last save
+  await new Promise(resolve => setTimeout(resolve, 200));
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+// --- Helper: open a WebSocket and report the HTTP status (101 = joined, after the welcome message) ---
+function connect(pathAndQuery: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl}${pathAndQuery}`);
+    ws.on('unexpected-response', (_req, res) => {
+      resolve(res.statusCode ?? 0);
+      ws.terminate();
+    });
+    ws.on('message', (data, isBinary) => {
+      if (isBinary || JSON.parse(data.toString()).type !== 'welcome') return;
+      ws.once('close', () => resolve(101));
+      ws.close();
+    });
+    ws.on('error', err => {
+      if (ws.readyState !== WebSocket.CLOSED) reject(err);
+    });
+  });
+}
+
+describe('live map access', () => {
+  it('lets the owner in', async () => {
+    expect(await connect(`/owner-id/Plans?token=${tokens.owner}`)).toBe(101);
+  });
+
+  it('lets in someone the map is shared with', async () => {
+    expect(await connect(`/owner-id/Plans?token=${tokens.friend}`)).toBe(101);
+  });
+
+  it('turns away a signed-in user the map is not shared with', async () => {
+    expect(await connect(`/owner-id/Plans?token=${tokens.stranger}`)).toBe(403);
+  });
+
+  it('only shares the map that was shared', async () => {
+    expect(await connect(`/owner-id/Other?token=${tokens.friend}`)).toBe(403);
+  });
+
+  it('turns away a missing or bad token', async () => {
+    expect(await connect('/owner-id/Plans')).toBe(401);
+    expect(await connect('/owner-id/Plans?token=nonsense')).toBe(401);
+  });
+
+  it('answers a malformed URL with 400 instead of crashing', async () => {
+    expect(await connect(`/owner-id/%E0%A4%A?token=${tokens.owner}`)).toBe(400);
+    expect(await connect(`/owner-id?token=${tokens.owner}`)).toBe(400);
+  });
+});
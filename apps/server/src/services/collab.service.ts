@@ -0,0 +1,272 @@
+//
+// collab.service.ts
+//
+// This file lets several people edit the same map at the same time ("live" maps).
+// - Browsers connect with a WebSocket to /api/collab/<owner id>/<map id>?token=<sign-in token>;
+//   everyone on the same map is in one "room"
+// - Only the owner and the people they invited by email (see /api/maps/:id/shares) may join
+// - The map lives in a Yjs document (a CRDT): edits made at the same time merge without conflicts
+// - Binary messages are Yjs updates; text messages are JSON "presence" (name, color, cursor, selection)
+// - The document is saved to disk a moment after each change, and copied into the saved map (if there is one)
+//
+// The document holds four Y.Maps keyed by id: "nodes", "edges", "clusters", and "positions".
+// The client (apps/client/src/hooks/useCollaboration.ts) uses the same layout.
+//
+// Learnings for beginners:
+//   - How to accept WebSocket connections next to an Express app (the "upgrade" event)
+//   - How a CRDT lets everyone apply everyone else's changes in any order
+//   - How to debounce saves so a burst of edits is written once
+//
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import * as Y from 'yjs';
+import { z } from 'zod';
+import { CollabPresenceSchema, MindMapClusterSchema, MindMapEdgeSchema, MindMapNodeSchema, NodePositionSchema, type CollabPresence, type MindMap } from '../schemas';
+import { getMap, isSharedWith, mapKey, patchMap } from './db.service';
+import { userFromToken } from './auth.service';
+
+// WebSocket URLs look like /api/collab/<owner id>/<map id>?token=<token>
+const COLLAB_PATH = '/api/collab/';
+
+// Where the Yjs documents are kept (override with COLLAB_DATA_PATH in .env)
+const STATE_DIR = path.resolve(process.env.COLLAB_DATA_PATH || path.join(__dirname, '../../data/collab'));
+
+// Wait this long after the last change before saving
+const SAVE_DELAY_MS = 2000;
+
+// A connected browser tab, as the others see it
+type Peer = Omit<CollabPresence, 'type'> & { clientId: string };
+
+interface Room {
+  key: string; // Where the map is kept (see mapKey), also the key in `rooms`
+  ownerId: string; // The user the map belongs to
+  id: string; // The map id
+  doc: Y.Doc;
+  clients: Map<WebSocket, Peer>;
+  ready: Promise<void>; // Resolves once the document is loaded from disk
+  saveTimer: NodeJS.Timeout | null;
+}
+
+const rooms = new Map<string, Room>();
+// Final saves of rooms that just closed; a room opened again waits for its save first
+const closingSaves = new Map<string, Promise<void>>();
+
+// --- Helper: the file a map's document is saved in ---
+function statePath(key: string) {
+  return path.join(STATE_DIR, `${encodeURIComponent(key)}.bin`);
+}
+
+// --- Helper: copy a saved map into an empty document ---
+function seedDoc(doc: Y.Doc, map: MindMap) {
+  doc.transact(() => {
+    map.nodes.forEach(n => doc.getMap('nodes').set(n.id, n));
+    map.edges.forEach(e => doc.getMap('edges').set(e.id || `${e.source}__${e.target}`, e));
+    (map.clusters ?? []).forEach(c => doc.getMap('clusters').set(c.id, c));
+    Object.entries(map.positions ?? {}).forEach(([id, pos]) => doc.getMap('positions').set(id, pos));
+  });
+}
+
+// --- Helper: read the document back as map fields, dropping anything malformed ---
+function parseAll<T extends z.ZodTypeAny>(schema: T, values: unknown[]): z.infer<T>[] {
+  return values.flatMap(value => {
+    const parsed = schema.safeParse(value);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function readDoc(doc: Y.Doc): Pick<MindMap, 'nodes' | 'edges' | 'clusters' | 'positions'> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  doc.getMap('positions').forEach((value, id) => {
+    const parsed = NodePositionSchema.safeParse(value);
+    if (parsed.success) positions[id] = parsed.data;
+  });
+  return {
+    nodes: parseAll(MindMapNodeSchema, Array.from(doc.getMap('nodes').values())),
+    edges: parseAll(MindMapEdgeSchema, Array.from(doc.getMap('edges').values())),
+    clusters: parseAll(MindMapClusterSchema, Array.from(doc.getMap('clusters').values())),
+    positions,
+  };
+}
+
+// --- Load a room's document: from its own file, or from the saved map if that is newer ---
+async function loadRoom(room: Room) {
+  const map = await getMap(room.ownerId, room.id);
+  try {
+    const [state, stat] = await Promise.all([fs.readFile(statePath(room.key)), fs.stat(statePath(room.key))]);
+    // The map was saved (without the live document) after the document's last save
+    if (!map || map.modified <= stat.mtimeMs) {
+      Y.applyUpdate(room.doc, new Uint8Array(state));
+      return;
+    }
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+  if (map) seedDoc(room.doc, map);
+}
+
+// --- Save a room's document, and copy its contents into the saved map ---
+async function saveRoom(room: Room) {
+  room.saveTimer = null;
+  // Taken before writing, so the file is never older than the map's "modified" (see loadRoom)
+  const savedAt = Date.now();
+  await fs.mkdir(STATE_DIR, { recursive: true });
+  const tmp = `${statePath(room.key)}.tmp`;
+  await fs.writeFile(tmp, Y.encodeStateAsUpdate(room.doc));
+  await fs.rename(tmp, statePath(room.key));
+  await patchMap(room.ownerId, room.id, { ...readDoc(room.doc), modified: savedAt });
+}
+
+function scheduleSave(room: Room) {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    saveRoom(room).catch(err => console.error(`Could not save live map "${room.id}":`, err));
+  }, SAVE_DELAY_MS);
+}
+
+// --- Get (or open) the room for a map ---
+function getRoom(ownerId: string, id: string) {
+  const key = mapKey(ownerId, id);
+  let room = rooms.get(key);
+  if (!room) {
+    const created: Room = { key, ownerId, id, doc: new Y.Doc(), clients: new Map(), ready: Promise.resolve(), saveTimer: null };
+    created.ready = (closingSaves.get(key) ?? Promise.resolve()).then(() => loadRoom(created));
+    // Every change from one client goes to all the others, and gets saved
+    created.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      created.clients.forEach((_peer, client) => {
+        if (client !== origin && client.readyState === WebSocket.OPEN) client.send(update);
+      });
+      scheduleSave(created);
+    });
+    rooms.set(key, created);
+    room = created;
+  }
+  return room;
+}
+
+// --- Helper: send a JSON message to everyone in the room except one client ---
+function broadcast(room: Room, message: object, except?: WebSocket) {
+  const text = JSON.stringify(message);
+  room.clients.forEach((_peer, client) => {
+    if (client !== except && client.readyState === WebSocket.OPEN) client.send(text);
+  });
+}
+
+// --- A browser joined a room ---
+async function handleConnection(ws: WebSocket, ownerId: string, id: string) {
+  const room = getRoom(ownerId, id);
+  const { key } = room;
+  const peer: Peer = { clientId: randomUUID(), name: 'Guest', color: '#6366f1', cursor: null, selection: [] };
+  room.clients.set(ws, peer);
+
+  // Messages can arrive while the document is still loading; handle them in order afterwards
+  let queue = room.ready;
+  ws.on('message', (data: RawData, isBinary: boolean) => {
+    queue = queue.then(() => {
+      if (isBinary) {
+        // A Yjs update: merge it in (the 'update' listener passes it on to everyone else)
+        Y.applyUpdate(room.doc, new Uint8Array(data as Buffer), ws);
+        return;
+      }
+      const parsed = CollabPresenceSchema.safeParse(JSON.parse(data.toString()));
+      if (!parsed.success) return;
+      const { type, ...presence } = parsed.data;
+      Object.assign(peer, presence);
+      broadcast(room, { type: 'presence', peer }, ws);
+    }).catch(err => {
+      console.error(`Bad message on live map "${id}":`, err);
+    });
+  });
+
+  ws.on('close', () => {
+    room.clients.delete(ws);
+    broadcast(room, { type: 'leave', clientId: peer.clientId });
+    // The last one out saves right away and closes the room
+    if (room.clients.size === 0) {
+      if (room.saveTimer) clearTimeout(room.saveTimer);
+      rooms.delete(key);
+      const saved = room.ready
+        .then(() => saveRoom(room))
+        .catch(err => console.error(`Could not save live map "${id}":`, err))
+        .finally(() => { if (closingSaves.get(key) === saved) closingSaves.delete(key); });
+      closingSaves.set(key, saved);
+    }
+  });
+
+  try {
+    await room.ready;
+  } catch (err) {
+    console.error(`Could not load live map "${id}":`, err);
+    ws.close(1011, 'Could not load the map');
+    return;
+  }
+  if (ws.readyState !== WebSocket.OPEN) return;
+  // First the whole document, then who else is here
+  ws.send(Y.encodeStateAsUpdate(room.doc));
+  ws.send(JSON.stringify({ type: 'welcome', clientId: peer.clientId, peers: Array.from(room.clients.values()).filter(p => p !== peer) }));
+}
+
+// --- Forget a map's live document (when the map is deleted) ---
+export async function deleteCollabState(ownerId: string, id: string) {
+  try {
+    await fs.unlink(statePath(mapKey(ownerId, id)));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+}
+
+// --- Helper: read the map and the token from a WebSocket URL (undefined if it's malformed) ---
+function parseCollabUrl(rawUrl: string): { ownerId: string; id: string; token: string | undefined } | undefined {
+  try {
+    const url = new URL(rawUrl, 'http://localhost');
+    if (!url.pathname.startsWith(COLLAB_PATH)) return undefined;
+    // Throws a URIError on a bad escape like "%E0%A4%A"
+    const [ownerId, id, ...rest] = url.pathname.slice(COLLAB_PATH.length).split('/').map(part => decodeURIComponent(part));
+    if (!ownerId || !id || rest.length) return undefined;
+    return { ownerId, id, token: url.searchParams.get('token') ?? undefined };
+  } catch {
+    return undefined;
+  }
+}
+
+// --- Helper: turn a WebSocket request down with an HTTP status ---
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// --- Accept WebSocket connections on the HTTP server that Express runs on ---
+export function attachCollabServer(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 5 * 1024 * 1024 });
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const target = parseCollabUrl(req.url ?? '');
+    if (!target) {
+      rejectUpgrade(socket, '400 Bad Request');
+      return;
+    }
+    const { ownerId, id, token } = target;
+    // Browsers can't set headers on a WebSocket, so the sign-in token comes in the URL
+    try {
+      const user = await userFromToken(token);
+      if (!user) {
+        rejectUpgrade(socket, '401 Unauthorized');
+        return;
+      }
+      if (user.id !== ownerId && !(await isSharedWith(ownerId, id, user.email))) {
+        rejectUpgrade(socket, '403 Forbidden');
+        return;
+      }
+    } catch (err) {
+      console.error('Could not check a live map sign-in:', err);
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => {
+      handleConnection(ws, ownerId, id).catch(err => console.error(`Live map "${id}" failed:`, err));
+    });
+  });
+}
@@ -0,0 +1,238 @@
+//
+// db.service.ts
+//
+// This file stores saved mind maps and user accounts on the server.
+// - Keeps every map in a single JSON file on disk (no database server needed)
+// - Exposes simple CRUD functions for the API routes to use
+// - Every map belongs to one user: two users can each have a map with the same id (its name)
+// - Keeps the last few versions ("snapshots") of every map in a second file, and the users in a third
+// - Keeps who each map is shared with (for live maps) in a fourth
+// - Queues writes so two requests can't overwrite each other's changes
+//
+// Learnings for beginners:
+//   - How to read and write files with fs/promises
+//   - How to build a tiny "database" on top of a JSON file
+//   - How to serialize async work with a promise chain
+//
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { MapSnapshot, MindMap, User } from '../schemas';
+
+// Where the maps are stored (override with MAPS_DB_PATH in .env)
+const DB_PATH = path.resolve(process.env.MAPS_DB_PATH || path.join(__dirname, '../../data/maps.json'));
+
+// Where the version history of each map is stored (override with MAP_SNAPSHOTS_PATH in .env)
+const SNAPSHOTS_PATH = path.resolve(process.env.MAP_SNAPSHOTS_PATH || path.join(__dirname, '../../data/snapshots.json'));
+
+// Where the user accounts are stored (override with USERS_DB_PATH in .env)
+const USERS_PATH = path.resolve(process.env.USERS_DB_PATH || path.join(__dirname, '../../data/users.json'));
+
+// Who each map is shared with (override with MAP_SHARES_PATH in .env)
+const SHARES_PATH = path.resolve(process.env.MAP_SHARES_PATH || path.join(__dirname, '../../data/shares.json'));
+
+// How many snapshots we keep per map (the oldest are dropped first)
+export const MAX_SNAPSHOTS = 30;
+
+// The file contents: a dictionary of maps keyed by "<owner id>/<map id>" (see mapKey)
+type MapsFile = Record<string, MindMap>;
+
+// The snapshots file: each map's snapshots (oldest first), keyed the same way
+type SnapshotsFile = Record<string, MapSnapshot[]>;
+
+// The shares file: the emails each map is shared with, keyed the same way
+type SharesFile = Record<string, string[]>;
+
+// The users file: a dictionary of users keyed by id
+type UsersFile = Record<string, User>;
+
+// Every write waits for the previous one to finish
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// --- Helper: read a whole JSON file (an empty store if it doesn't exist yet) ---
+async function readFile<T extends object>(file: string): Promise<T> {
+  try {
+    const raw = await fs.readFile(file, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return {} as T;
+    throw err;
+  }
+}
+
+// --- Helper: write a whole JSON file (via a temp file so a crash can't corrupt it) ---
+async function writeFile(file: string, data: object) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+// --- Helper: run a read-modify-write step on a file after all earlier writes ---
+function mutateFile<F extends object, T>(file: string, fn: (data: F) => T): Promise<T> {
+  const next = writeQueue.then(async () => {
+    const data = await readFile<F>(file);
+    const result = fn(data);
+    await writeFile(file, data);
+    return result;
+  });
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+const readAll = () => readFile<MapsFile>(DB_PATH);
+const mutate = <T>(fn: (maps: MapsFile) => T) => mutateFile(DB_PATH, fn);
+
+// --- Helper: where a user's map is kept in the maps and snapshots files ---
+// Maps saved before there were accounts have no owner and are kept under their plain id (see claimUnownedMaps).
+export function mapKey(ownerId: string, id: string) {
+  return `${ownerId}/${id}`;
+}
+
+// --- List a user's maps (most recently modified first) ---
+export async function listMaps(ownerId: string): Promise<MindMap[]> {
+  const maps = await readAll();
+  return Object.values(maps).filter(m => m.ownerId === ownerId).sort((a, b) => b.modified - a.modified);
+}
+
+// --- Get one of a user's maps by id (undefined if missing) ---
+export async function getMap(ownerId: string, id: string): Promise<MindMap | undefined> {
+  const maps = await readAll();
+  return maps[mapKey(ownerId, id)];
+}
+
+// --- Create a new map (returns false if the user already has a map with this id) ---
+export function createMap(ownerId: string, map: MindMap): Promise<boolean> {
+  return mutate(maps => {
+    const key = mapKey(ownerId, map.id);
+    if (maps[key]) return false;
+    maps[key] = { ...map, ownerId };
+    return true;
+  });
+}
+
+// --- Create or replace a map (returns true if it already existed) ---
+export function saveMap(ownerId: string, map: MindMap): Promise<boolean> {
+  return mutate(maps => {
+    const key = mapKey(ownerId, map.id);
+    const existed = Boolean(maps[key]);
+    maps[key] = { ...map, ownerId, created: existed ? maps[key].created : map.created };
+    return existed;
+  });
+}
+
+// --- Delete a map (returns false if it didn't exist) ---
+export function deleteMap(ownerId: string, id: string): Promise<boolean> {
+  return mutate(maps => {
+    const key = mapKey(ownerId, id);
+    if (!maps[key]) return false;
+    delete maps[key];
+    return true;
+  });
+}
+
+// --- Change some fields of a map that already exists (returns false if it doesn't) ---
+export function patchMap(ownerId: string, id: string, changes: Partial<Omit<MindMap, 'id' | 'created' | 'ownerId'>>): Promise<boolean> {
+  return mutate(maps => {
+    const key = mapKey(ownerId, id);
+    if (!maps[key]) return false;
+    maps[key] = { ...maps[key], ...changes };
+    return true;
+  });
+}
+
+// --- List a map's snapshots (newest first) ---
+export async function listSnapshots(ownerId: string, mapId: string): Promise<MapSnapshot[]> {
+  const snapshots = await readFile<SnapshotsFile>(SNAPSHOTS_PATH);
+  return [...(snapshots[mapKey(ownerId, mapId)] ?? [])].reverse();
+}
+
+// --- Add a snapshot to a map's history (dropping the oldest beyond MAX_SNAPSHOTS) ---
+export function addSnapshot(ownerId: string, mapId: string, snapshot: MapSnapshot): Promise<void> {
+  return mutateFile<SnapshotsFile, void>(SNAPSHOTS_PATH, snapshots => {
+    const key = mapKey(ownerId, mapId);
+    snapshots[key] = [...(snapshots[key] ?? []), snapshot].slice(-MAX_SNAPSHOTS);
+  });
+}
+
+// --- Forget a map's history (when the map is deleted) ---
+export function deleteSnapshots(ownerId: string, mapId: string): Promise<void> {
+  return mutateFile<SnapshotsFile, void>(SNAPSHOTS_PATH, snapshots => {
+    delete snapshots[mapKey(ownerId, mapId)];
+  });
+}
+
+// --- The emails a map is shared with (in the order they were added) ---
+export async function listShares(ownerId: string, mapId: string): Promise<string[]> {
+  const shares = await readFile<SharesFile>(SHARES_PATH);
+  return shares[mapKey(ownerId, mapId)] ?? [];
+}
+
+// --- Share a map with someone (by email, so they can be invited before they sign up) ---
+export function addShare(ownerId: string, mapId: string, email: string): Promise<string[]> {
+  return mutateFile<SharesFile, string[]>(SHARES_PATH, shares => {
+    const key = mapKey(ownerId, mapId);
+    const emails = shares[key] ?? [];
+    if (!emails.includes(email.toLowerCase())) emails.push(email.toLowerCase());
+    shares[key] = emails;
+    return emails;
+  });
+}
+
+// --- Is a map shared with this email? ---
+export async function isSharedWith(ownerId: string, mapId: string, email: string): Promise<boolean> {
+  return (await listShares(ownerId, mapId)).includes(email.toLowerCase());
+}
+
+// --- Stop sharing a map with anyone (when it's deleted) ---
+export function deleteShares(ownerId: string, mapId: string): Promise<void> {
+  return mutateFile<SharesFile, void>(SHARES_PATH, shares => {
+    delete shares[mapKey(ownerId, mapId)];
+  });
+}
+
+// --- Give the maps saved before there were accounts (and their history) to a user ---
+// Run once by hand when upgrading (see scripts/claimMaps.ts); returns the ids of the maps claimed.
+export async function claimUnownedMaps(ownerId: string): Promise<string[]> {
+  const claimed = await mutate(maps => {
+    const ids: string[] = [];
+    Object.entries(maps).forEach(([key, map]) => {
+      if (map.ownerId) return;
+      delete maps[key];
+      // Keep the user's own map if they somehow have one with the same id already
+      if (!maps[mapKey(ownerId, map.id)]) maps[mapKey(ownerId, map.id)] = { ...map, ownerId };
+      ids.push(map.id);
+    });
+    return ids;
+  });
+  if (!claimed.length) return claimed;
+  await mutateFile<SnapshotsFile, void>(SNAPSHOTS_PATH, snapshots => {
+    claimed.forEach(id => {
+      if (!snapshots[id]) return;
+      snapshots[mapKey(ownerId, id)] ??= snapshots[id];
+      delete snapshots[id];
+    });
+  });
+  return claimed;
+}
+
+// --- Find a user by email (emails are stored lowercase) ---
+export async function getUserByEmail(email: string): Promise<User | undefined> {
+  const users = await readFile<UsersFile>(USERS_PATH);
+  return Object.values(users).find(u => u.email === email.toLowerCase());
+}
+
+// --- Get a user by id (undefined if missing) ---
+export async function getUser(id: string): Promise<User | undefined> {
+  const users = await readFile<UsersFile>(USERS_PATH);
+  return users[id];
+}
+
+// --- Create a user (returns false if the email is already taken) ---
+export function createUser(user: User): Promise<boolean> {
+  return mutateFile<UsersFile, boolean>(USERS_PATH, users => {
+    if (Object.values(users).some(u => u.email === user.email)) return false;
+    users[user.id] = user;
+    return true;
+  });
+}
@@ -1,98 +1,292 @@
 //
 // llm.service.ts
 //
-// This file handles all communication with the OpenAI API (GPT-4o).
-// - Builds prompts for the LLM (AI)
-// - Sends requests and parses responses
+// This file handles all communication with the LLM (AI).
+// - Builds prompts for the LLM
+// - Sends them to the configured provider (OpenAI, a local model server, or the offline mock)
+// - Validates the responses against a Zod schema per task (see structured.service.ts)
 // - Exposes functions for the API routes to use
 //
 // Learnings for beginners:
-//   - How to call an external API from Node.js
+//   - How to call an external API from Node.js (through a swappable provider)
 //   - How to build prompts for an LLM
 //   - How to parse and validate JSON responses
 //   - How to organize backend logic into services
+//   - How to process long input in pieces and merge the results
 //
 
-import { buildPrompt, buildSuggestChildrenPrompt, buildInsightPrompt, buildSemanticClusteringPrompt } from '../utils/prompt';
-import OpenAI from 'openai';
+import { buildPrompt, buildStreamingPrompt, buildChunkPrompt, buildMergeNotesPrompt, buildSuggestLinksPrompt, buildSuggestChildrenPrompt, buildInsightPrompt, buildSemanticClusteringPrompt } from '../utils/prompt';
+import { callStructured, extractJson, requireProvider } from './structured.service';
+import { MindMapResponseSchema, MapDiffResponseSchema, LinkSuggestionsResponseSchema, SuggestionsResponseSchema, InsightResponseSchema, ClustersResponseSchema, type MindMapResponse, type MapDiffResponse } from '../schemas';
+import { LlmError, toLlmError } from '../errors';
+import { chunkText } from '../utils/chunkText';
+import { createMapMerger, cleanMapDiff, conceptKey } from '../utils/mergeMaps';
 
-// Create an OpenAI client using your API key from the environment
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// One piece of a streamed map: a node or an edge, sent as soon as it's parsed.
+// Long notes also report which part is being mapped ("progress").
+export type MapStreamEvent =
+  | { type: 'node'; node: MindMapResponse['nodes'][number] }
+  | { type: 'edge'; edge: MindMapResponse['edges'][number] }
+  | { type: 'progress'; part: number; parts: number };
+
+// How many merged concept labels we show the LLM when it maps the next chunk
+const MAX_KNOWN_LABELS = 80;
+
+const StreamedNodeSchema = MindMapResponseSchema.shape.nodes.element;
+const StreamedEdgeSchema = MindMapResponseSchema.shape.edges.element;
 
 // --- Generate a mind map from user text ---
-export async function getMindMapFromText(text: string, detailLevel: number = 3) {
+// Long notes are split into chunks and merged (see streamMindMapFromChunks below).
+export async function getMindMapFromText(text: string, detailLevel: number = 3): Promise<MindMapResponse> {
+  const chunks = chunkText(text);
+  if (chunks.length > 1) {
+    const map: MindMapResponse = { nodes: [], edges: [] };
+    for await (const event of streamMindMapFromChunks(chunks, detailLevel)) {
+      if (event.type === 'node') map.nodes.push(event.node);
+      else if (event.type === 'edge') map.edges.push(event.edge);
+    }
+    return map;
+  }
   const prompt = buildPrompt(text, detailLevel); // Build the prompt for the LLM
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: 'You are an assistant that transforms user notes into a coherent mind map.' },
-      { role: 'user', content: prompt }
-    ],
+  return callStructured({
+    task: { kind: 'map', text, detailLevel },
+    system: 'You are an assistant that transforms user notes into a coherent mind map.',
+    prompt,
+    schema: MindMapResponseSchema,
     temperature: 0.2,
-    max_tokens: 1024,
+    maxTokens: 1024,
   });
-  const content = response.choices[0].message?.content || '';
-  // Try to extract JSON from code block if present
-  const match = content.match(/```(?:json)?\n?([\s\S]*?)```/);
-  const json = match ? match[1] : content;
-  return JSON.parse(json);
+}
+
+// --- Generate a mind map from user text, streaming nodes and edges as they arrive ---
+// The model writes one JSON object per line. Edges are held back until both of their
+// nodes have been sent, so the client never sees an edge to a missing node.
+// A node or edge the model repeats is only sent once.
+export async function* streamMindMapFromText(text: string, detailLevel: number = 3, signal?: AbortSignal): AsyncGenerator<MapStreamEvent> {
+  const provider = requireProvider();
+  const prompt = buildStreamingPrompt(text, detailLevel);
+  const seen = new Set<string>();
+  const seenEdges = new Set<string>(); // "source__target" of every edge kept so far
+  let pendingEdges: MapStreamEvent[] = [];
+  let emitted = 0;
+
+  // Parse one line of the reply into zero or more events
+  const handleLine = (line: string): MapStreamEvent[] => {
+    const trimmed = line.trim().replace(/,$/, '');
+    if (!trimmed.startsWith('{')) return []; // Skip code fences, prose, blank lines
+    let obj: any;
+    try {
+      obj = JSON.parse(trimmed);
+    } catch {
+      return [];
+    }
+    const events: MapStreamEvent[] = [];
+    if (obj.type === 'node') {
+      const node = StreamedNodeSchema.safeParse(obj);
+      if (!node.success || seen.has(node.data.id)) return [];
+      seen.add(node.data.id);
+      events.push({ type: 'node', node: node.data });
+    } else if (obj.type === 'edge') {
+      const edge = StreamedEdgeSchema.safeParse(obj);
+      const key = edge.success ? `${edge.data.source}__${edge.data.target}` : '';
+      if (edge.success && !seenEdges.has(key)) {
+        seenEdges.add(key);
+        pendingEdges.push({ type: 'edge', edge: edge.data });
+      }
+    }
+    // Release every edge whose nodes we now have
+    const ready = pendingEdges.filter(e => e.type === 'edge' && seen.has(e.edge.source) && seen.has(e.edge.target));
+    pendingEdges = pendingEdges.filter(e => !ready.includes(e));
+    events.push(...ready);
+    emitted += events.length;
+    return events;
+  };
+
+  let buffer = '';
+  let reply = '';
+  try {
+    for await (const piece of provider.stream({
+      task: { kind: 'map-stream', text, detailLevel },
+      messages: [
+        { role: 'system', content: 'You are an assistant that transforms user notes into a coherent mind map.' },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.2,
+      maxTokens: 2048,
+      signal,
+    })) {
+      buffer += piece;
+      reply += piece;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        yield* handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+  } catch (err) {
+    throw toLlmError(err);
+  }
+  yield* handleLine(buffer);
+
+  // Some models ignore the line format and send one JSON map instead: accept that too
+  if (emitted === 0) {
+    let parsed;
+    try {
+      parsed = MindMapResponseSchema.safeParse(extractJson(reply));
+    } catch (err) {
+      throw new LlmError('LLM_INVALID_OUTPUT', 'The AI returned an answer in the wrong format', err instanceof Error ? err.message : err);
+    }
+    if (!parsed.success) {
+      throw new LlmError('LLM_INVALID_OUTPUT', 'The AI returned an answer in the wrong format', parsed.error.issues);
+    }
+    const ids = new Set(parsed.data.nodes.map(n => n.id));
+    for (const node of parsed.data.nodes) yield { type: 'node', node };
+    for (const edge of parsed.data.edges) {
+      const key = `${edge.source}__${edge.target}`;
+      if (!ids.has(edge.source) || !ids.has(edge.target) || seenEdges.has(key)) continue;
+      seenEdges.add(key);
+      yield { type: 'edge', edge };
+    }
+  }
+}
+
+// --- Generate a mind map from long notes, one chunk at a time ---
+// Each chunk is mapped on its own, then merged into the map so far: repeated concepts
+// become one node, and only the new nodes/edges are sent on. A "progress" event is
+// sent before each chunk so the client can show "part 2 of 5".
+export async function* streamMindMapFromChunks(chunks: string[], detailLevel: number = 3, signal?: AbortSignal): AsyncGenerator<MapStreamEvent> {
+  const merger = createMapMerger();
+  for (let i = 0; i < chunks.length; i++) {
+    yield { type: 'progress', part: i + 1, parts: chunks.length };
+    const knownLabels = merger.result().nodes.slice(0, MAX_KNOWN_LABELS).map(n => n.label);
+    const chunkMap = await callStructured({
+      task: { kind: 'map-chunk', text: chunks[i], detailLevel, part: i + 1, parts: chunks.length, knownLabels },
+      system: 'You are an assistant that transforms user notes into a coherent mind map.',
+      prompt: buildChunkPrompt(chunks[i], i + 1, chunks.length, knownLabels, detailLevel),
+      schema: MindMapResponseSchema,
+      temperature: 0.2,
+      maxTokens: 1024,
+      signal,
+    });
+    const added = merger.add(chunkMap);
+    for (const node of added.nodes) yield { type: 'node', node };
+    for (const edge of added.edges) yield { type: 'edge', edge };
+  }
+}
+
+// --- Merge new notes into an existing map ---
+// Returns a diff to review (new nodes/edges, renames, merges) instead of a whole new map.
+// Long notes are handled chunk by chunk; each chunk sees the nodes added by the ones before it.
+export async function getMapDiffFromText(nodes: any[], edges: any[], text: string, detailLevel: number = 3): Promise<MapDiffResponse> {
+  const map: MindMapResponse = {
+    nodes: nodes.map(n => ({ id: String(n.id), label: String(n.label), summary: n.summary })),
+    edges: edges.map(e => ({ source: String(e.source), target: String(e.target) })),
+  };
+  const result: MapDiffResponse = { nodes: [], edges: [], renames: [], merges: [] };
+  for (const chunk of chunkText(text)) {
+    const raw = await callStructured({
+      task: { kind: 'merge-notes', nodes: map.nodes, edges: map.edges, text: chunk, detailLevel },
+      system: 'You are an assistant that adds new notes to an existing mind map.',
+      prompt: buildMergeNotesPrompt(map.nodes, map.edges, chunk, detailLevel),
+      schema: MapDiffResponseSchema,
+      temperature: 0.2,
+      maxTokens: 1024,
+    });
+    const diff = cleanMapDiff(map, raw);
+    map.nodes.push(...diff.nodes);
+    map.edges.push(...diff.edges);
+    result.nodes.push(...diff.nodes);
+    result.edges.push(...diff.edges);
+    result.renames.push(...diff.renames.filter(r => !result.renames.some(x => x.id === r.id)));
+    result.merges.push(...diff.merges.filter(m => !result.merges.some(x => x.from === m.from || x.from === m.into)));
+  }
+  return result;
+}
+
+// What the map already says around a node, so suggestions fit in (all optional)
+export interface SuggestChildrenContext {
+  path?: string[]; // Labels from the root down to the node's parent
+  children?: string[]; // Labels of the node's existing children
+  summary?: string; // The node's summary
+  sourceText?: string; // The notes the map was generated from
 }
 
 // --- Suggest children (subtopics) for a node ---
-export async function suggestChildren(label: string, detailLevel: number = 3) {
-  const prompt = buildSuggestChildrenPrompt(label, detailLevel);
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: 'You are an assistant that suggests subtopics for mind map nodes.' },
-      { role: 'user', content: prompt }
-    ],
+// Suggestions that repeat the node, an ancestor, an existing child, or each other are dropped.
+export async function suggestChildren(label: string, detailLevel: number = 3, context: SuggestChildrenContext = {}) {
+  const path = context.path ?? [];
+  const children = context.children ?? [];
+  const prompt = buildSuggestChildrenPrompt(label, detailLevel, { ...context, path, children });
+  const suggestions = await callStructured({
+    task: { kind: 'suggest-children', label, detailLevel, path, children },
+    system: 'You are an assistant that suggests subtopics for mind map nodes.',
+    prompt,
+    schema: SuggestionsResponseSchema,
     temperature: 0.4,
-    max_tokens: 512,
+    maxTokens: 768,
+  });
+  const taken = new Set([label, ...path, ...children].map(conceptKey));
+  return suggestions.filter(s => {
+    const key = conceptKey(s.label);
+    if (!key || taken.has(key)) return false;
+    taken.add(key);
+    return true;
+  });
+}
+
+// The most cross-links we suggest at once
+const MAX_LINK_SUGGESTIONS = 10;
+
+// --- Suggest missing cross-links between existing nodes ---
+// Drops links to unknown nodes, self-links, and pairs that are already connected (either way),
+// then returns the most confident first with confidence as 0-1.
+export async function suggestLinks(nodes: any[], edges: any[], detailLevel: number = 3) {
+  const prompt = buildSuggestLinksPrompt(nodes, edges, detailLevel);
+  const links = await callStructured({
+    task: { kind: 'suggest-links', nodes, edges, detailLevel },
+    system: 'You are an expert in concept mapping who finds hidden connections between ideas.',
+    prompt,
+    schema: LinkSuggestionsResponseSchema,
+    temperature: 0.3,
+    maxTokens: 768,
   });
-  const content = response.choices[0].message?.content || '';
-  // Try to extract JSON from code block if present
-  const match = content.match(/```(?:json)?\n?([\s\S]*?)```/);
-  const json = match ? match[1] : content;
-  return JSON.parse(json);
+  const ids = new Set(nodes.map(n => String(n.id)));
+  const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+  const taken = new Set(edges.map(e => pairKey(String(e.source), String(e.target))));
+  return links
+    .map(link => ({ ...link, confidence: link.confidence > 1 ? link.confidence / 100 : link.confidence }))
+    .filter(link => {
+      const key = pairKey(link.source, link.target);
+      if (!ids.has(link.source) || !ids.has(link.target) || link.source === link.target || taken.has(key)) return false;
+      taken.add(key);
+      return true;
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_LINK_SUGGESTIONS);
 }
 
 // --- Get AI-generated insight for a mind map ---
 export async function getMapInsight(nodes: any[], edges: any[], summaries?: any[], detailLevel: number = 3) {
   const prompt = buildInsightPrompt(nodes, edges, summaries, detailLevel);
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: 'You are an expert mind map analyst.' },
-      { role: 'user', content: prompt }
-    ],
+  return callStructured({
+    task: { kind: 'insight', nodes, edges, detailLevel },
+    system: 'You are an expert mind map analyst.',
+    prompt,
+    schema: InsightResponseSchema,
     temperature: 0.3,
-    max_tokens: 512,
+    maxTokens: 512,
   });
-  const content = response.choices[0].message?.content || '';
-  // Try to extract JSON from code block if present
-  const match = content.match(/```(?:json)?\n?([\s\S]*?)```/);
-  const json = match ? match[1] : content;
-  return JSON.parse(json);
 }
 
 // --- Get AI-generated semantic clusters for a mind map ---
 export async function getSemanticClusters(nodes: any[], edges: any[], detailLevel: number = 3) {
   const prompt = buildSemanticClusteringPrompt(nodes, edges, detailLevel);
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: 'You are an expert in concept mapping and clustering.' },
-      { role: 'user', content: prompt }
-    ],
+  return callStructured({
+    task: { kind: 'clusters', nodes, edges, detailLevel },
+    system: 'You are an expert in concept mapping and clustering.',
+    prompt,
+    schema: ClustersResponseSchema,
     temperature: 0.3,
-    max_tokens: 512,
+    maxTokens: 512,
   });
-  const content = response.choices[0].message?.content || '';
-  // Try to extract JSON from code block if present
-  const match = content.match(/```(?:json)?\n?([\s\S]*?)```/);
-  const json = match ? match[1] : content;
-  return JSON.parse(json);
-} 
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+//
+// providers/index.ts
+//
+// Picks the LLM provider from environment variables (see README):
+//   LLM_PROVIDER   "openai" (default) or "mock"
+//   LLM_MODEL      model name (default gpt-4o)
+//   LLM_BASE_URL   OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+//   LLM_API_KEY    API key (falls back to OPENAI_API_KEY)
+//   MOCK_LLM_FIXTURES  folder with fixture overrides for the mock provider
+//
+
+import { createOpenAIProvider } from './openai.provider';
+import { createMockProvider } from './mock.provider';
+import type { LlmProvider } from './types';
+
+export type { LlmProvider, LlmTask, ChatMessage, CompletionRequest } from './types';
+
+// Created on first use, so a missing API key only matters if we actually call OpenAI
+let provider: LlmProvider | null = null;
+
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const kind = (env.LLM_PROVIDER || 'openai').toLowerCase();
+  switch (kind) {
+    case 'mock':
+      return createMockProvider(env.MOCK_LLM_FIXTURES);
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        baseURL: env.LLM_BASE_URL || undefined,
+        model: env.LLM_MODEL || 'gpt-4o',
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected "openai" or "mock")`);
+  }
+}
+
+export function getProvider(): LlmProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
@@ -0,0 +1,117 @@
+//
+// mock.fixtures.ts
+//
+// Canned answers for the mock LLM provider, one per task.
+// - Each fixture is a pure function of the task input, so the same request
+//   always gives the same answer (handy for demos and tests)
+// - The answers have exactly the shape the real prompts ask for
+//   (a string is sent as-is, anything else as JSON)
+//
+
+import type { LlmTask } from './types';
+
+// --- Helper: the first few words of a sentence, used as a label ---
+function shortLabel(text: string, words = 5) {
+  const parts = text.trim().split(/\s+/);
+  return parts.slice(0, words).join(' ') + (parts.length > words ? '…' : '');
+}
+
+// --- Map: a root node with one child per sentence/clause of the notes ---
+function mapFixture(text: string, detailLevel: number) {
+  const clauses = text
+    .split(/[.!?;\n]+|,\s+(?:and|but|also|so)\s+/i)
+    .map(c => c.trim())
+    .filter(c => c.split(/\s+/).length >= 2);
+  const maxChildren = 2 + detailLevel * 2;
+  const children = clauses.slice(0, maxChildren).map((clause, i) => ({
+    id: `n${i + 1}`,
+    label: shortLabel(clause),
+    summary: clause,
+  }));
+  return {
+    nodes: [{ id: 'n0', label: shortLabel(text, 3) || 'Notes', summary: 'Main topic' }, ...children],
+    edges: children.map(c => ({ source: 'n0', target: c.id })),
+  };
+}
+
+// --- Merge notes: one new node per clause, hung under the existing map's first node ---
+function mergeNotesFixture(nodes: any[], text: string, detailLevel: number) {
+  const { nodes: newNodes } = mapFixture(text, detailLevel);
+  const children = newNodes.slice(1).map(n => ({ ...n, id: `new-${n.id}` }));
+  const rootId = nodes[0] ? String(nodes[0].id) : undefined;
+  return {
+    nodes: rootId ? children : [{ ...newNodes[0], id: 'new-n0' }, ...children],
+    edges: children.map(c => ({ source: rootId ?? 'new-n0', target: c.id })),
+    renames: [],
+    merges: [],
+  };
+}
+
+// --- Suggest children: the same five angles for any topic, minus the ones it already has ---
+function suggestChildrenFixture(label: string, path: string[], children: string[]) {
+  const parent = path.length ? ` within "${path[path.length - 1]}"` : '';
+  return ['Goals', 'Challenges', 'Resources', 'Next steps', 'Examples']
+    .map(angle => ({
+      label: `${shortLabel(label, 3)}: ${angle}`,
+      rationale: `${angle} of "${shortLabel(label, 3)}"${parent} aren't on the map yet.`,
+    }))
+    .filter(s => !children.includes(s.label));
+}
+
+// --- Suggest links: unconnected nodes whose labels share a word, then unconnected siblings ---
+function suggestLinksFixture(nodes: any[], edges: any[]) {
+  const connected = (a: string, b: string) =>
+    edges.some(e => (e.source === a && e.target === b) || (e.source === b && e.target === a));
+  const words = (label: string) => new Set(String(label).toLowerCase().split(/\W+/).filter(w => w.length > 3));
+  const parentOf = (id: string) => edges.find(e => e.target === id)?.source;
+  const links: { source: string; target: string; label: string; confidence: number }[] = [];
+  nodes.forEach((a, i) => nodes.slice(i + 1).forEach(b => {
+    if (connected(a.id, b.id)) return;
+    const shared = [...words(a.label)].filter(w => words(b.label).has(w));
+    if (shared.length) links.push({ source: a.id, target: b.id, label: `both about "${shared[0]}"`, confidence: 0.8 });
+    else if (parentOf(a.id) && parentOf(a.id) === parentOf(b.id)) links.push({ source: a.id, target: b.id, label: 'related to', confidence: 0.4 });
+  }));
+  return links.slice(0, 5);
+}
+
+// --- Insight: a fixed analysis that mentions the map's size ---
+function insightFixture(nodes: any[], edges: any[]) {
+  return {
+    insight: `Your map has ${nodes.length} ideas connected by ${edges.length} links.`,
+    blindSpot: 'Consider which ideas have no connections yet.',
+    clusters: 'Ideas are grouped around the most connected nodes.',
+  };
+}
+
+// --- Clusters: nodes grouped in threes, in the order they were given ---
+function clustersFixture(nodes: any[]) {
+  const clusters: { name: string; nodeIds: string[] }[] = [];
+  nodes.forEach((node, i) => {
+    if (i % 3 === 0) clusters.push({ name: `Group ${clusters.length + 1}`, nodeIds: [] });
+    clusters[clusters.length - 1].nodeIds.push(String(node.id));
+  });
+  return clusters;
+}
+
+// --- Streamed map: the same map as NDJSON, one node or edge per line ---
+function mapStreamFixture(text: string, detailLevel: number) {
+  const { nodes, edges } = mapFixture(text, detailLevel);
+  return [
+    ...nodes.map(n => JSON.stringify({ type: 'node', ...n })),
+    ...edges.map(e => JSON.stringify({ type: 'edge', ...e })),
+  ].join('\n');
+}
+
+// --- Pick the fixture for a task ---
+export function getFixture(task: LlmTask): unknown {
+  switch (task.kind) {
+    case 'map': return mapFixture(task.text, task.detailLevel);
+    case 'map-stream': return mapStreamFixture(task.text, task.detailLevel);
+    case 'map-chunk': return mapFixture(task.text, task.detailLevel);
+    case 'merge-notes': return mergeNotesFixture(task.nodes, task.text, task.detailLevel);
+    case 'suggest-children': return suggestChildrenFixture(task.label, task.path, task.children);
+    case 'suggest-links': return suggestLinksFixture(task.nodes, task.edges);
+    case 'insight': return insightFixture(task.nodes, task.edges);
+    case 'clusters': return clustersFixture(task.nodes);
+  }
+}
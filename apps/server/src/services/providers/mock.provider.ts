@@ -0,0 +1,63 @@
+//
+// mock.provider.ts
+//
+// A fake LLM provider that never touches the network.
+// - Answers come from mock.fixtures.ts (deterministic: same input, same output)
+// - Set MOCK_LLM_FIXTURES to a folder to override an answer with a file
+//   named after the task, e.g. map.json or clusters.json
+// - A request to repair a bad reply is answered from e.g. map.repair.json if there is one,
+//   so a broken map.json plus a good map.repair.json exercises the repair retry
+//
+// Use it with LLM_PROVIDER=mock to run the app offline or in tests.
+//
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getFixture } from './mock.fixtures';
+import type { CompletionRequest, LlmProvider } from './types';
+
+// Streamed replies arrive in pieces this big, this far apart
+const STREAM_CHUNK_SIZE = 40;
+const STREAM_DELAY_MS = 20;
+
+// --- Helper: an error that looks like a cancelled fetch ---
+function abortError() {
+  const err = new Error('Request aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+export function createMockProvider(fixturesDir?: string): LlmProvider {
+  // The whole reply for a request: a fixture file if there is one, else the built-in fixture
+  const reply = async ({ task, messages, signal }: CompletionRequest) => {
+    if (signal?.aborted) throw abortError();
+    if (fixturesDir) {
+      // The model's earlier reply is only in the messages when it's asked to repair it
+      const repairing = messages.some(m => m.role === 'assistant');
+      const files = repairing ? [`${task.kind}.repair.json`, `${task.kind}.json`] : [`${task.kind}.json`];
+      for (const file of files) {
+        try {
+          return await fs.readFile(path.join(fixturesDir, file), 'utf8');
+        } catch (err: any) {
+          if (err?.code !== 'ENOENT') throw err;
+        }
+      }
+    }
+    const fixture = getFixture(task);
+    return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+  };
+
+  return {
+    name: `mock${fixturesDir ? ` (fixtures: ${fixturesDir})` : ''}`,
+    complete: reply,
+    // Hand out the reply in small pieces, like a real model would
+    stream: async function* (request) {
+      const content = await reply(request);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        if (request.signal?.aborted) throw abortError();
+        yield content.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+//
+// openai.provider.ts
+//
+// An LLM provider for any OpenAI-compatible chat completions API.
+// - The real OpenAI API (the default)
+// - Self-hosted servers that speak the same protocol, e.g. Ollama
+//   (LLM_BASE_URL=http://localhost:11434/v1) or llama.cpp's server
+//
+// Learnings for beginners:
+//   - How to call the OpenAI SDK
+//   - How one client can talk to different servers by changing the base URL
+//
+
+import OpenAI from 'openai';
+import type { LlmProvider } from './types';
+
+interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}
+
+export function createOpenAIProvider({ apiKey, baseURL, model }: OpenAIProviderOptions): LlmProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK insists on having one
+    apiKey: apiKey || (baseURL ? 'not-needed' : undefined),
+    baseURL,
+  });
+
+  return {
+    name: `openai-compatible (${model}${baseURL ? ` @ ${baseURL}` : ''})`,
+    complete: async ({ messages, temperature, maxTokens, signal }) => {
+      const response = await client.chat.completions.create(
+        { model, messages, temperature, max_tokens: maxTokens },
+        { signal },
+      );
+      return response.choices[0].message?.content || '';
+    },
+    stream: async function* ({ messages, temperature, maxTokens, signal }) {
+      const stream = await client.chat.completions.create(
+        { model, messages, temperature, max_tokens: maxTokens, stream: true },
+        { signal },
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
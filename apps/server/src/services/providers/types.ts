@@ -0,0 +1,39 @@
+//
+// types.ts
+//
+// Shared types for LLM providers.
+// - A provider is anything that can turn chat messages into a text reply
+//   (all at once, or streamed as it is generated)
+// - Each request also says which task it is for (and its raw input), so the
+//   mock provider can answer without calling a real model
+//
+
+// The tasks the app asks the LLM to do, with the data each prompt was built from
+export type LlmTask =
+  | { kind: 'map'; text: string; detailLevel: number }
+  | { kind: 'map-stream'; text: string; detailLevel: number }
+  | { kind: 'map-chunk'; text: string; detailLevel: number; part: number; parts: number; knownLabels: string[] }
+  | { kind: 'merge-notes'; nodes: any[]; edges: any[]; text: string; detailLevel: number }
+  | { kind: 'suggest-children'; label: string; detailLevel: number; path: string[]; children: string[] }
+  | { kind: 'suggest-links'; nodes: any[]; edges: any[]; detailLevel: number }
+  | { kind: 'insight'; nodes: any[]; edges: any[]; detailLevel: number }
+  | { kind: 'clusters'; nodes: any[]; edges: any[]; detailLevel: number };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: LlmTask;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal; // Lets the caller cancel the request
+}
+
+export interface LlmProvider {
+  name: string; // Shown in the server log, e.g. "openai (gpt-4o)"
+  complete: (request: CompletionRequest) => Promise<string>;
+  stream: (request: CompletionRequest) => AsyncIterable<string>; // Yields the reply piece by piece
+}
@@ -0,0 +1,123 @@
+//
+// structured.service.ts
+//
+// A shared helper for asking the LLM for JSON that matches a Zod schema.
+// - Finds the JSON even if the model wraps it in prose or a ```json code block
+// - Validates it with the schema for that endpoint
+// - If it's broken, asks the model to fix it (showing it the exact error) and tries again
+// - Throws a typed LlmError the routes can turn into a clear HTTP response
+//
+// Learnings for beginners:
+//   - How to validate untrusted data with Zod
+//   - How to build a retry loop around an API call
+//   - How to scan text for a balanced {...} or [...] block
+//
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { getProvider, type ChatMessage, type LlmTask } from './providers';
+import { LlmError, toLlmError } from '../errors';
+
+interface StructuredCall<T> {
+  task: LlmTask;
+  system: string;
+  prompt: string;
+  schema: ZodType<T, ZodTypeDef, unknown>; // The input type may differ from T (e.g. fields with .default())
+  temperature: number;
+  maxTokens: number;
+  maxRepairs?: number; // Extra attempts after the first one (default 2)
+  signal?: AbortSignal;
+}
+
+// --- Helper: find the end of the JSON value that starts at `start` ---
+// Counts brackets, skipping anything inside strings. Returns -1 if unbalanced.
+function findJsonEnd(text: string, start: number) {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// --- Pull a JSON value out of an LLM reply ---
+// Tries, in order: a fenced code block, the whole reply, then each {...}/[...] block in the text.
+export function extractJson(content: string): unknown {
+  const candidates: string[] = [];
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1]);
+  candidates.push(content);
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] !== '{' && content[i] !== '[') continue;
+    const end = findJsonEnd(content, i);
+    if (end > i) candidates.push(content.slice(i, end + 1));
+  }
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate.trim());
+    } catch {}
+  }
+  throw new Error(content.trim() ? 'The reply contains no valid JSON' : 'The reply was empty');
+}
+
+// --- Helper: a short, readable description of why validation failed ---
+function describeProblem(err: unknown) {
+  const issues = (err as any)?.issues as { path: (string | number)[]; message: string }[] | undefined;
+  if (issues?.length) {
+    return issues.slice(0, 5).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// --- Get the configured provider, or a typed error explaining why we can't ---
+export function requireProvider() {
+  try {
+    return getProvider();
+  } catch (err) {
+    throw new LlmError('LLM_NOT_CONFIGURED', 'The AI service is not configured', err instanceof Error ? err.message : err);
+  }
+}
+
+// --- Ask the LLM for JSON matching `schema`, repairing bad replies ---
+export async function callStructured<T>({
+  task, system, prompt, schema, temperature, maxTokens, maxRepairs = 2, signal,
+}: StructuredCall<T>): Promise<T> {
+  const provider = requireProvider();
+  const messages: ChatMessage[] = [
+    { role: 'system', content: system },
+    { role: 'user', content: prompt },
+  ];
+  let problem = '';
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let content: string;
+    try {
+      content = await provider.complete({ task, messages, temperature, maxTokens, signal });
+    } catch (err) {
+      throw toLlmError(err);
+    }
+    try {
+      const parsed = schema.safeParse(extractJson(content));
+      if (parsed.success) return parsed.data;
+      problem = describeProblem(parsed.error);
+    } catch (err) {
+      problem = describeProblem(err);
+    }
+    // Show the model its own reply and what was wrong with it, then try again
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous reply could not be used: ${problem}.\nReply again with ONLY the corrected JSON matching RESPONSE_FORMAT, with no other text.`,
+      },
+    );
+  }
+  throw new LlmError('LLM_INVALID_OUTPUT', 'The AI returned an answer in the wrong format', problem);
+}
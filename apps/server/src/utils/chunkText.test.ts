@@ -0,0 +1,73 @@
+//
+// chunkText.test.ts
+//
+// Tests for splitting long notes into overlapping chunks.
+// - No chunk may be longer than maxWords, counting the words it repeats from the chunk before
+// - Every word of the notes ends up in a chunk, in order
+//
+// Learnings for beginners:
+//   - How to check a rule for every item of a result (not just one example)
+//
+
+import { describe, expect, it } from 'vitest';
+import { chunkText, countWords } from './chunkText';
+
+// --- Helper: "w1 w2 w3 ..." (every word different, so we can tell where each chunk starts) ---
+const words = (count: number, from = 1) => Array.from({ length: count }, (_, i) => `w${from + i}`).join(' ');
+
+// --- Helper: the chunks without the words each one repeats from the one before ---
+function withoutOverlap(chunks: string[]) {
+  return chunks.map((chunk, i) => {
+    const list = chunk.split(/\s+/);
+    if (i === 0) return list;
+    const previous = new Set(chunks[i - 1].split(/\s+/));
+    let start = 0;
+    while (start < list.length && previous.has(list[start])) start++;
+    return list.slice(start);
+  });
+}
+
+describe('chunkText', () => {
+  it('gives back short text unchanged', () => {
+    expect(chunkText('One idea. Another idea.', { maxWords: 10 })).toEqual(['One idea. Another idea.']);
+  });
+
+  it('cuts a single very long sentence at word boundaries, overlap included', () => {
+    const text = `${words(1000)}.`;
+    const chunks = chunkText(text, { maxWords: 100, overlapWords: 30 });
+    chunks.forEach(chunk => expect(countWords(chunk)).toBeLessThanOrEqual(100));
+    expect(withoutOverlap(chunks).flat().join(' ')).toBe(text);
+  });
+
+  it('cuts a long sentence that follows an overlap without going over', () => {
+    // Short sentences fill the first chunk, so the next one starts with an overlap
+    const text = `${Array.from({ length: 12 }, (_, i) => `Point ${i} here.`).join(' ')} ${words(250)}.`;
+    const chunks = chunkText(text, { maxWords: 40, overlapWords: 10 });
+    chunks.forEach(chunk => expect(countWords(chunk)).toBeLessThanOrEqual(40));
+    expect(chunks[1].startsWith('Point')).toBe(true); // The overlap is there
+    expect(withoutOverlap(chunks).flat().join(' ')).toBe(text);
+  });
+
+  it('repeats the last sentences of a chunk at the start of the next', () => {
+    const sentences = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} ends.`);
+    const chunks = chunkText(sentences.join(' '), { maxWords: 20, overlapWords: 8 });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(countWords(chunk)).toBeLessThanOrEqual(20));
+    const split = (chunk: string) => chunk.split(/(?<=\.) /);
+    for (let i = 1; i < chunks.length; i++) {
+      // The next chunk starts with sentences from this one, up to and including its last
+      const [first] = split(chunks[i]);
+      const previous = split(chunks[i - 1]);
+      expect(previous).toContain(first);
+      const repeated = previous.slice(previous.indexOf(first));
+      expect(repeated.length).toBeGreaterThan(0);
+      expect(split(chunks[i]).slice(0, repeated.length)).toEqual(repeated);
+    }
+  });
+
+  it('keeps paragraph breaks', () => {
+    const text = `${words(30)}.\n\n${words(30, 31)}.`;
+    const chunks = chunkText(text, { maxWords: 40, overlapWords: 0 });
+    expect(chunks).toEqual([`${words(30)}.`, `${words(30, 31)}.`]);
+  });
+});
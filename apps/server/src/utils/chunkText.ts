@@ -0,0 +1,112 @@
+//
+// chunkText.ts
+//
+// This file splits long notes into smaller, overlapping pieces ("chunks").
+// - LLMs can only read (and write) so much at once, so a long transcript is mapped piece by piece
+// - Chunks end on paragraph or sentence boundaries whenever possible
+// - Each chunk repeats the last few sentences of the one before, so ideas that
+//   span a boundary aren't cut in half (the repeated words count toward the chunk's size)
+// - A sentence too long for the room left in a chunk is cut at a word boundary
+//
+// Learnings for beginners:
+//   - How to split text into paragraphs and sentences with regular expressions
+//   - How to build a "sliding window" over a list
+//   - How to write a pure function that's easy to test
+//
+
+// Words per chunk, and how many words each chunk repeats from the previous one
+export const CHUNK_WORDS = 1500;
+export const CHUNK_OVERLAP_WORDS = 150;
+
+// The longest notes we accept at all (about 100 pages of text)
+export const MAX_INPUT_WORDS = 50000;
+
+export interface ChunkOptions {
+  maxWords?: number;
+  overlapWords?: number;
+}
+
+// --- Count words (whitespace-separated pieces) ---
+export function countWords(text: string) {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// --- Helper: split text into sentences (as lists of words), keeping paragraph breaks as their own marker ---
+function splitSentences(text: string): (string[] | '\n')[] {
+  const sentences: (string[] | '\n')[] = [];
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    const parts = paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [];
+    parts.forEach(part => {
+      const words = part.trim().split(/\s+/).filter(Boolean);
+      if (words.length) sentences.push(words);
+    });
+    sentences.push('\n');
+  });
+  return sentences;
+}
+
+// --- Split text into overlapping chunks of at most maxWords words ---
+// Short text comes back as a single chunk, unchanged.
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxWords = Math.max(1, options.maxWords ?? CHUNK_WORDS);
+  const overlapWords = Math.min(options.overlapWords ?? CHUNK_OVERLAP_WORDS, Math.floor(maxWords / 2));
+  if (countWords(text) <= maxWords) return [text];
+
+  const sentences = splitSentences(text);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+  let hasNewText = false; // Does `current` hold more than the overlap?
+
+  // Join sentences back together, turning paragraph markers into blank lines
+  const toText = (parts: string[]) => parts
+    .map(s => (s === '\n' ? '\n\n' : `${s} `))
+    .join('')
+    .replace(/ \n/g, '\n')
+    .trim();
+
+  // Close the current chunk and start the next one with its last sentences (the overlap)
+  const nextChunk = () => {
+    chunks.push(toText(current));
+    const overlap: string[] = [];
+    let overlapCount = 0;
+    for (let i = current.length - 1; i >= 0; i--) {
+      const w = current[i] === '\n' ? 0 : countWords(current[i]);
+      if (overlapCount + w > overlapWords) break;
+      overlap.unshift(current[i]);
+      overlapCount += w;
+    }
+    current = overlap;
+    currentWords = overlapCount;
+    hasNewText = false;
+  };
+
+  for (const sentence of sentences) {
+    if (sentence === '\n') {
+      current.push(sentence);
+      continue;
+    }
+    let words = sentence;
+    while (words.length) {
+      if (currentWords + words.length <= maxWords) {
+        current.push(words.join(' '));
+        currentWords += words.length;
+        hasNewText = true;
+        break;
+      }
+      if (hasNewText) {
+        nextChunk();
+        continue;
+      }
+      // Even after the overlap it doesn't fit: fill this chunk with the start of the sentence
+      // (the overlap is at most half a chunk, so there's always room for something)
+      const room = maxWords - currentWords;
+      current.push(words.slice(0, room).join(' '));
+      currentWords += room;
+      hasNewText = true;
+      words = words.slice(room);
+    }
+  }
+  if (hasNewText) chunks.push(toText(current));
+  return chunks;
+}
@@ -0,0 +1,163 @@
+//
+// mergeMaps.ts
+//
+// This file combines several small mind maps (one per chunk of text) into one graph.
+// - Nodes with the same concept (same label, ignoring case, punctuation and plurals) become one node
+// - Node ids that clash between chunks are renamed so they stay unique
+// - Duplicate edges and self-loops are dropped
+// - A chunk that shares no concept with the map so far is hung under the main topic,
+//   so the result is always one connected map
+// - Also cleans up a "diff" the LLM proposes for an existing map (see cleanMapDiff)
+//
+// Learnings for beginners:
+//   - How to "normalize" strings so near-duplicates compare equal
+//   - How to use Maps and Sets to dedupe data
+//   - How to keep state between calls with a factory function (a closure)
+//
+
+import type { MindMapResponse, MapDiffResponse } from '../schemas';
+
+type MapNode = MindMapResponse['nodes'][number];
+type MapEdge = MindMapResponse['edges'][number];
+
+// --- Helper: the key two labels must share to count as the same concept ---
+// "The Budget!" and "budgets" both become "budget".
+export function conceptKey(label: string) {
+  return label
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .filter((word, i) => i > 0 || !['the', 'a', 'an'].includes(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+// --- Create a merger that map chunks are added to one by one ---
+// add() returns only what's new, so the caller can stream it straight to the client.
+export function createMapMerger() {
+  const nodes: MapNode[] = [];
+  const edges: MapEdge[] = [];
+  const idByConcept = new Map<string, string>(); // concept key -> merged node id
+  const edgeKeys = new Set<string>();
+
+  // Add one edge if it's new (in either direction) and not a self-loop
+  const addEdge = (edge: MapEdge, added: MapEdge[]) => {
+    const key = [edge.source, edge.target].sort().join('|');
+    if (edge.source === edge.target || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(edge);
+    added.push(edge);
+  };
+
+  const add = (chunk: MindMapResponse) => {
+    const addedNodes: MapNode[] = [];
+    const addedEdges: MapEdge[] = [];
+    const idMap = new Map<string, string>(); // chunk node id -> merged node id
+    const usedIds = new Set(nodes.map(n => n.id));
+    let sharesConcept = false;
+
+    chunk.nodes.forEach(node => {
+      const key = conceptKey(node.label) || node.id;
+      const existingId = idByConcept.get(key);
+      if (existingId) {
+        idMap.set(node.id, existingId);
+        sharesConcept = true;
+        // Keep the first summary, but fill one in if we didn't have any
+        const existing = nodes.find(n => n.id === existingId)!;
+        if (!existing.summary && node.summary) existing.summary = node.summary;
+        return;
+      }
+      let id = node.id;
+      for (let i = 2; usedIds.has(id); i++) id = `${node.id}-${i}`;
+      usedIds.add(id);
+      idMap.set(node.id, id);
+      idByConcept.set(key, id);
+      const merged = { ...node, id };
+      nodes.push(merged);
+      addedNodes.push(merged);
+    });
+
+    chunk.edges.forEach(edge => {
+      const source = idMap.get(edge.source);
+      const target = idMap.get(edge.target);
+      if (source && target) addEdge({ ...edge, source, target }, addedEdges);
+    });
+
+    // Connect a chunk that has nothing in common with the map so far
+    const chunkRoot = chunk.nodes[0] && idMap.get(chunk.nodes[0].id);
+    if (!sharesConcept && chunkRoot && nodes[0] && chunkRoot !== nodes[0].id) {
+      addEdge({ source: nodes[0].id, target: chunkRoot }, addedEdges);
+    }
+
+    return { nodes: addedNodes, edges: addedEdges };
+  };
+
+  // Everything merged so far, e.g. to tell the LLM which concepts already exist
+  const result = (): MindMapResponse => ({ nodes: [...nodes], edges: [...edges] });
+
+  return { add, result };
+}
+
+// --- Clean up a diff the LLM proposed for an existing map ---
+// The model doesn't always follow the rules, so before the diff reaches the client:
+// - new nodes that repeat an existing concept are dropped (their edges go to the existing node)
+// - new node ids that clash with existing ones are renamed
+// - edges to unknown nodes, self-loops and edges the map already has are dropped
+// - renames and merges must point at existing nodes (and a node is merged away at most once)
+export function cleanMapDiff(map: MindMapResponse, diff: MapDiffResponse): MapDiffResponse {
+  const existingIds = new Set(map.nodes.map(n => n.id));
+  const idByConcept = new Map(map.nodes.map(n => [conceptKey(n.label), n.id]));
+  const idMap = new Map<string, string>(); // diff node id -> id in the merged map
+  const usedIds = new Set(existingIds);
+  const nodes: MapDiffResponse['nodes'] = [];
+
+  diff.nodes.forEach(node => {
+    const key = conceptKey(node.label) || node.id;
+    const existingId = idByConcept.get(key);
+    if (existingId) {
+      idMap.set(node.id, existingId);
+      return;
+    }
+    let id = node.id;
+    for (let i = 2; usedIds.has(id); i++) id = `${node.id}-${i}`;
+    usedIds.add(id);
+    idMap.set(node.id, id);
+    idByConcept.set(key, id);
+    nodes.push({ ...node, id });
+  });
+
+  // An edge endpoint is either a new node (by its diff id) or an existing node
+  const resolve = (id: string) => idMap.get(id) ?? (existingIds.has(id) ? id : undefined);
+  const edgeKeys = new Set(map.edges.map(e => [e.source, e.target].sort().join('|')));
+  const edges: MapDiffResponse['edges'] = [];
+  diff.edges.forEach(edge => {
+    const source = resolve(edge.source);
+    const target = resolve(edge.target);
+    const key = [source, target].sort().join('|');
+    if (!source || !target || source === target || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ ...edge, source, target });
+  });
+
+  const merges: MapDiffResponse['merges'] = [];
+  const mergedAway = new Set<string>();
+  diff.merges.forEach(merge => {
+    const { from, into } = merge;
+    if (!existingIds.has(from) || !existingIds.has(into) || from === into) return;
+    if (mergedAway.has(from) || mergedAway.has(into)) return;
+    if (merges.some(m => m.into === from)) return; // Don't merge a node that others merge into
+    mergedAway.add(from);
+    merges.push(merge);
+  });
+
+  const labels = new Map(map.nodes.map(n => [n.id, n.label]));
+  const renames: MapDiffResponse['renames'] = [];
+  diff.renames.forEach(rename => {
+    if (!existingIds.has(rename.id) || mergedAway.has(rename.id)) return;
+    if (labels.get(rename.id) === rename.label || renames.some(r => r.id === rename.id)) return;
+    renames.push(rename);
+  });
+
+  return { nodes, edges, renames, merges };
+}
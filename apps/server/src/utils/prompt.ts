@@ -4,7 +4,7 @@
 // This file builds the prompts sent to the LLM (AI) for different tasks.
 // - Reads the base system prompt from a file
 // - Adds user notes, detail instructions, and response format
-// - Exports functions to build prompts for map generation, suggestions, insights, and clustering
+// - Exports functions to build prompts for map generation (whole, streamed, or one chunk of long notes), merging notes into a map, child and cross-link suggestions, insights, and clustering
 //
 // Learnings for beginners:
 //   - How to build prompt templates for LLMs
@@ -15,11 +15,15 @@
 
 import fs from 'fs';
 import path from 'path';
+import { CHUNK_WORDS } from './chunkText';
 
 // Read the base system prompt from a text file
 const basePromptPath = path.resolve(__dirname, '../prompts/base.txt');
 const base = fs.readFileSync(basePromptPath, 'utf8');
 
+// The relation types an edge may have (see EDGE_RELATIONS in schemas.ts), explained for the LLM
+const RELATION_INSTRUCTION = `Each edge may have a "relation" (reading from source to target): "causes", "supports", "contradicts", "example-of" or "part-of". Leave it out for a plain branch from a topic to a subtopic. An edge may also have a short free-text "label" (e.g. "leads to") when none of the relations fit.`;
+
 // Helper: get a detail instruction string based on the level (1-5)
 function getDetailInstruction(detailLevel: number = 3): string {
   switch (detailLevel) {
@@ -43,17 +47,112 @@ export function buildPrompt(userText: string, detailLevel: number = 3) {
   const formatBlock = `
 interface MindMapResponse {
   nodes: { id: string; label: string; summary?: string }[];
-  edges: { source: string; target: string }[];
+  edges: { source: string; target: string; relation?: 'causes' | 'supports' | 'contradicts' | 'example-of' | 'part-of'; label?: string }[];
+}
+${RELATION_INSTRUCTION}
+`;
+  const detailInstruction = getDetailInstruction(detailLevel);
+  return `${base}\n\nUSER_NOTES:\n${userText}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n${formatBlock}`;
 }
+
+// --- Build the prompt for generating a mind map as a stream ---
+// Asks for one JSON object per line (NDJSON) so each node can be shown as soon as it arrives.
+export function buildStreamingPrompt(userText: string, detailLevel: number = 3) {
+  const formatBlock = `
+One JSON object per line, no array, no code fences, no other text.
+Write each node before any edge that uses it, and start with the central topic.
+{"type": "node", "id": "string", "label": "string", "summary": "string (optional)"}
+{"type": "edge", "source": "node id", "target": "node id", "relation": "causes | supports | contradicts | example-of | part-of (optional)", "label": "string (optional)"}
+${RELATION_INSTRUCTION}
 `;
   const detailInstruction = getDetailInstruction(detailLevel);
   return `${base}\n\nUSER_NOTES:\n${userText}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n${formatBlock}`;
 }
 
+// --- Build the prompt for mapping one chunk of long notes ---
+// Long notes are mapped piece by piece (see chunkText.ts). Telling the model which concepts
+// earlier pieces produced lets it reuse the same labels, so they merge into one node.
+export function buildChunkPrompt(chunk: string, part: number, parts: number, knownLabels: string[], detailLevel: number = 3) {
+  const formatBlock = `
+interface MindMapResponse {
+  nodes: { id: string; label: string; summary?: string }[];
+  edges: { source: string; target: string; relation?: 'causes' | 'supports' | 'contradicts' | 'example-of' | 'part-of'; label?: string }[];
+}
+${RELATION_INSTRUCTION}
+`;
+  const detailInstruction = getDetailInstruction(detailLevel);
+  const known = knownLabels.length
+    ? `\n\nCONCEPTS_SO_FAR (from earlier parts; reuse these exact labels when the same idea appears, and connect new ideas to them):\n${knownLabels.map(l => `- ${l}`).join('\n')}`
+    : '';
+  return `${base}\n\nThese notes are part ${part} of ${parts} of a longer text. Map only this part; start with its central topic.${known}\n\nUSER_NOTES:\n${chunk}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n${formatBlock}`;
+}
+
+// --- Build the prompt for merging new notes into an existing map ---
+// The model answers with a diff (only what changes), never the whole map.
+export function buildMergeNotesPrompt(nodes: any[], edges: any[], userText: string, detailLevel: number = 3) {
+  const formatBlock = `
+interface MapDiffResponse {
+  nodes: { id: string; label: string; summary?: string }[]; // Only NEW concepts, with ids not used in EXISTING_MAP
+  edges: { source: string; target: string; relation?: 'causes' | 'supports' | 'contradicts' | 'example-of' | 'part-of'; label?: string }[]; // New edges; may connect new nodes to existing node ids
+  renames: { id: string; label: string; reason?: string }[]; // Existing nodes whose label should change
+  merges: { from: string; into: string; reason?: string }[]; // Existing nodes that are really the same idea
+}
+${RELATION_INSTRUCTION}
+`;
+  const detailInstruction = getDetailInstruction(detailLevel);
+  const existing = JSON.stringify({
+    nodes: nodes.map(n => ({ id: n.id, label: n.label, summary: n.summary })),
+    edges: edges.map(e => ({ source: e.source, target: e.target })),
+  }, null, 2);
+  return `${base}\n\nThe user already has a mind map and has written new notes. Add the new ideas to the existing map instead of starting over: reuse existing nodes for ideas that are already there, connect every new node to the map, and only propose renames or merges when the new notes clearly call for them.\n\nEXISTING_MAP:\n${existing}\n\nNEW_NOTES:\n${userText}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n${formatBlock}`;
+}
+
 // --- Build a prompt for suggesting children (subtopics) for a node ---
-export function buildSuggestChildrenPrompt(label: string, detailLevel: number = 3) {
+// The node's place in the map (path, existing children, summary) and the original notes
+// are included when known, so suggestions are specific and don't repeat what's there.
+export function buildSuggestChildrenPrompt(
+  label: string,
+  detailLevel: number = 3,
+  context: { path?: string[]; children?: string[]; summary?: string; sourceText?: string } = {},
+) {
+  const detailInstruction = getDetailInstruction(detailLevel);
+  const sections = [`NODE_LABEL: ${label}`];
+  if (context.summary) sections.push(`NODE_SUMMARY: ${context.summary}`);
+  if (context.path?.length) sections.push(`PATH_FROM_ROOT: ${[...context.path, label].join(' > ')}`);
+  if (context.children?.length) {
+    sections.push(`EXISTING_CHILDREN (do not suggest these again, or anything that means the same):\n${context.children.map(c => `- ${c}`).join('\n')}`);
+  }
+  if (context.sourceText) {
+    // Long notes are cut to one chunk's worth of words to keep the prompt small
+    const words = context.sourceText.trim().split(/\s+/);
+    const excerpt = words.slice(0, CHUNK_WORDS).join(' ') + (words.length > CHUNK_WORDS ? ' …' : '');
+    sections.push(`SOURCE_NOTES (what the map was made from; prefer ideas grounded in them):\n${excerpt}`);
+  }
+  return `Suggest 5-8 subtopics or branches that could be children of the following mind map node. Each one needs a short rationale (one sentence) explaining why it belongs under this node.\n\n${sections.join('\n\n')}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n[\n  {\n    \"label\": \"string\",\n    \"rationale\": \"string\"\n  }, ...\n]`;
+}
+
+// --- Build a prompt for suggesting missing cross-links between existing nodes ---
+export function buildSuggestLinksPrompt(nodes: any[], edges: any[], detailLevel: number = 3) {
   const detailInstruction = getDetailInstruction(detailLevel);
-  return `Suggest 5-8 subtopics or branches that could be children of the following mind map node.\n\nNODE_LABEL: ${label}\n\nDETAIL_INSTRUCTION:\n${detailInstruction}\n\nRESPONSE_FORMAT:\n[\n  {\n    \"label\": \"string\"\n  }, ...\n]`;
+  return `You are an expert in concept mapping. Given the following mind map, find pairs of nodes that are clearly related but NOT connected by an edge yet. For each pair, give a short relation label that reads from source to target (e.g. "causes", "depends on", "is an example of") and a confidence between 0 and 1. Only suggest links that add real insight; at most 10. Use the node ids exactly as given.
+
+NODES:
+${JSON.stringify(nodes.map(n => ({ id: n.id, label: n.label, summary: n.summary })), null, 2)}
+EDGES:
+${JSON.stringify(edges.map(e => ({ source: e.source, target: e.target })), null, 2)}
+
+DETAIL_INSTRUCTION:
+${detailInstruction}
+
+RESPONSE_FORMAT:
+[
+  {
+    "source": "node id",
+    "target": "node id",
+    "label": "string (relation, source → target)",
+    "confidence": 0.0-1.0
+  }, ...
+]`;
 }
 
 // --- Build a prompt for generating insight for a mind map ---